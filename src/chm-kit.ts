@@ -3,7 +3,18 @@ import { ExtractorOperations } from './operations/extractor';
 import { PackerOperations } from './operations/packer';
 import { InfoOperations } from './operations/info';
 import { FileManagerOperations } from './operations/file-manager';
-import type { ParsedCHM, ExtractOptions, PackOptions } from './core/types';
+import { NavigationOperations } from './operations/navigation';
+import type {
+  ParsedCHM,
+  ExtractOptions,
+  PackOptions,
+  CHMBasicInfo,
+  TopicEntry,
+  TOCEntry,
+  IndexEntry,
+  CHMInfo,
+  FullTextMatch,
+} from './core/types';
 
 /**
  * CHM 操作的主要类
@@ -35,39 +46,38 @@ export class CHMKit {
   }
 
   /**
-   * 打包目录为 CHM 文件
-   * @param inputDir 输入目录
+   * 打包目录或 .hhp 项目为 CHM 文件
+   * @param input 输入目录或 .hhp 项目文件路径
    * @param outputPath 输出 CHM 文件路径
    * @param options 打包选项
    * @returns 打包结果
    */
   static async pack(
-    inputDir: string,
+    input: string,
     outputPath: string,
     options: Partial<PackOptions> = {},
   ): Promise<{ success: boolean; message: string }> {
-    return PackerOperations.pack(inputDir, outputPath, options);
+    return PackerOperations.pack(input, outputPath, options);
   }
 
   /**
-   * 获取 CHM 文件信息
+   * 获取 CHM 文件信息（包含 #SYSTEM 中的标题、默认主题等元数据）
    * @param filePath CHM 文件路径
    * @returns CHM 文件信息
    */
-  static async getInfo(filePath: string): Promise<{
-    header: {
-      itsf: string;
-      itsp: string;
-      lzxc: string;
-    };
-    statistics: string;
-    fileCount: number;
-    totalSize: number;
-    compressionRatio: number;
-  }> {
+  static async getInfo(filePath: string): Promise<CHMBasicInfo> {
     return InfoOperations.getInfo(filePath);
   }
 
+  /**
+   * 获取 CHM 文件的完整信息（元数据、目录、索引和文件列表）
+   * @param filePath CHM 文件路径
+   * @returns CHM 文件完整信息
+   */
+  static async getDetails(filePath: string): Promise<CHMInfo> {
+    return InfoOperations.getDetails(filePath);
+  }
+
   /**
    * 读取 CHM 文件中的单个文件
    * @param chmPath CHM 文件路径
@@ -78,6 +88,16 @@ export class CHMKit {
     return FileManagerOperations.readFile(chmPath, filePath);
   }
 
+  /**
+   * 读取 CHM 文件中的文本文件，按页面声明的 charset 或 CHM 语言解码
+   * @param chmPath CHM 文件路径
+   * @param filePath 文件路径
+   * @returns 文件文本
+   */
+  static async readText(chmPath: string, filePath: string): Promise<string> {
+    return FileManagerOperations.readText(chmPath, filePath);
+  }
+
   /**
    * 检查文件是否存在
    * @param chmPath CHM 文件路径
@@ -96,4 +116,66 @@ export class CHMKit {
   static async listFiles(chmPath: string): Promise<string[]> {
     return FileManagerOperations.listFiles(chmPath);
   }
+
+  /**
+   * 获取 CHM 文件的主题表（#TOPICS、#URLTBL、#URLSTR、#STRINGS）
+   * @param chmPath CHM 文件路径
+   * @returns 按编号排列的主题数组
+   */
+  static async getTopics(chmPath: string): Promise<TopicEntry[]> {
+    return NavigationOperations.getTopics(chmPath);
+  }
+
+  /**
+   * 通过上下文 ID 映射（#IVB）查找上下文帮助对应的主题
+   * @param chmPath CHM 文件路径
+   * @param id 数字上下文 ID（项目 [MAP] 中定义）
+   * @returns 目标主题路径，没有映射时为 undefined
+   */
+  static async resolveContextId(
+    chmPath: string,
+    id: number,
+  ): Promise<string | undefined> {
+    return NavigationOperations.resolveContextId(chmPath, id);
+  }
+
+  /**
+   * 获取 CHM 文件的目录（优先 .hhc，没有时使用二进制目录）
+   * @param chmPath CHM 文件路径
+   * @returns 目录树
+   */
+  static async getTOC(chmPath: string): Promise<TOCEntry[]> {
+    return NavigationOperations.getTOC(chmPath);
+  }
+
+  /**
+   * 获取 CHM 文件的索引（优先 .hhk，没有时使用二进制关键词索引）
+   * @param chmPath CHM 文件路径
+   * @returns 索引条目
+   */
+  static async getIndex(chmPath: string): Promise<IndexEntry[]> {
+    return NavigationOperations.getIndex(chmPath);
+  }
+
+  /**
+   * 获取 CHM 文件的关联索引（A-link）
+   * @param chmPath CHM 文件路径
+   * @returns 关联索引条目
+   */
+  static async getAssociativeIndex(chmPath: string): Promise<IndexEntry[]> {
+    return NavigationOperations.getAssociativeIndex(chmPath);
+  }
+
+  /**
+   * 通过 CHM 自带的全文索引查询单个词
+   * @param chmPath CHM 文件路径
+   * @param word 要查询的词
+   * @returns 包含该词的主题及词的位置
+   */
+  static async searchIndex(
+    chmPath: string,
+    word: string,
+  ): Promise<FullTextMatch[]> {
+    return NavigationOperations.searchIndex(chmPath, word);
+  }
 }
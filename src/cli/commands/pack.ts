@@ -7,20 +7,32 @@ import { CHMKit } from '../../chm-kit';
  * 打包目录为 CHM 文件的命令
  */
 export const pack = new Command('pack')
-  .description('将目录打包为 CHM 文件')
-  .argument('<input>', '输入目录路径')
+  .description('将目录或 .hhp 项目打包为 CHM 文件')
+  .argument('<input>', '输入目录或 .hhp 项目文件路径')
   .option('-o, --output <file>', '输出 CHM 文件路径', './output.chm')
   .option('-t, --title <title>', 'CHM 文件标题')
   .option('-d, --default-topic <file>', '默认主题文件')
+  .option('-l, --language <lcid>', '语言 ID（例如 0x804），省略时按标题推断')
   .option('-c, --compression', '启用压缩', true)
   .option('-v, --verbose', '启用详细输出', false)
   .action(async (input: string, options: PackCommandOptions) => {
     try {
+      const language =
+        options.language === undefined ? undefined : Number(options.language);
+      if (
+        language !== undefined &&
+        !(Number.isInteger(language) && language > 0)
+      ) {
+        logger.error(`❌ 无效的语言 ID: ${options.language}`);
+        process.exit(1);
+      }
+
       const packOptions: PackOptions = {
         inputDir: input,
         outputPath: options.output,
         compression: options.compression,
         verbose: options.verbose,
+        ...(language !== undefined && { language }),
         ...(options.title && { title: options.title }),
         ...(options.defaultTopic && { defaultTopic: options.defaultTopic }),
       };
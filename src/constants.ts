@@ -18,3 +18,60 @@ export const DEFAULT_CONFIG = {
   tempDir: './temp',
   maxMemory: 1024 * 1024 * 100, // 100MB
 };
+
+/**
+ * 目录块数超过该值时默认延迟展开目录，按需通过 PMGI 索引查找
+ */
+export const LAZY_DIRECTORY_CHUNK_THRESHOLD = 1024;
+
+/**
+ * CHM 编译器生成的元数据文件路径
+ */
+export const CHM_SYSTEM_FILES = {
+  system: '/#SYSTEM',
+  topics: '/#TOPICS',
+  urlTable: '/#URLTBL',
+  urlStrings: '/#URLSTR',
+  strings: '/#STRINGS',
+  contextMap: '/#IVB',
+  tocIndex: '/#TOCIDX',
+  keywordLinks: '/$WWKeywordLinks/BTree',
+  associativeLinks: '/$WWAssociativeLinks/BTree',
+  fullTextIndex: '/$FIftiMain',
+};
+
+/**
+ * LZX 压缩变换的 GUID
+ */
+export const LZX_TRANSFORM_GUID = '{7FC28940-9D31-11D0-9B27-00A0C91E9C7C}';
+
+/**
+ * 内容段存储目录前缀，段名来自 ::DataSpace/NameList
+ */
+export const CHM_STORAGE_PREFIX = '::DataSpace/Storage/';
+
+/**
+ * 内容段存储目录下的文件
+ */
+export const CHM_SECTION_FILES = {
+  content: 'Content',
+  controlData: 'ControlData',
+  spanInfo: 'SpanInfo',
+  transformList: 'Transform/List',
+  resetTable: `Transform/${LZX_TRANSFORM_GUID}/InstanceData/ResetTable`,
+};
+
+// 标准布局中 LZX 压缩段的存储目录
+const MS_COMPRESSED_STORAGE = `${CHM_STORAGE_PREFIX}MSCompressed/`;
+
+/**
+ * CHM 内部存储文件路径（标准布局，压缩段名为 MSCompressed）
+ */
+export const CHM_INTERNAL_FILES = {
+  nameList: '::DataSpace/NameList',
+  controlData: MS_COMPRESSED_STORAGE + CHM_SECTION_FILES.controlData,
+  spanInfo: MS_COMPRESSED_STORAGE + CHM_SECTION_FILES.spanInfo,
+  content: MS_COMPRESSED_STORAGE + CHM_SECTION_FILES.content,
+  transformList: MS_COMPRESSED_STORAGE + CHM_SECTION_FILES.transformList,
+  resetTable: MS_COMPRESSED_STORAGE + CHM_SECTION_FILES.resetTable,
+};
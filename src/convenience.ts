@@ -25,11 +25,21 @@ export const chm = {
    */
   info: CHMKit.getInfo,
 
+  /**
+   * 获取完整信息
+   */
+  details: CHMKit.getDetails,
+
   /**
    * 读取单个文件
    */
   readFile: CHMKit.readFile,
 
+  /**
+   * 读取文本文件
+   */
+  readText: CHMKit.readText,
+
   /**
    * 检查文件存在
    */
@@ -40,6 +50,26 @@ export const chm = {
    */
   listFiles: CHMKit.listFiles,
 
+  /**
+   * 获取主题表
+   */
+  topics: CHMKit.getTopics,
+
+  /**
+   * 获取目录
+   */
+  toc: CHMKit.getTOC,
+
+  /**
+   * 获取索引
+   */
+  index: CHMKit.getIndex,
+
+  /**
+   * 查询全文索引
+   */
+  search: CHMKit.searchIndex,
+
   /**
    * 版本信息
    */
@@ -1,5 +1,14 @@
-import type { DirectoryEntry, CHMDirectory, ITSPHeader } from '../types';
-import type { BitReader } from '../../utils/io/bit-reader';
+import type {
+  ByteSource,
+  DirectoryEntry,
+  CHMDirectory,
+  DirectoryIndex,
+  ITSPHeader,
+  PMGLChunkHeader,
+} from '../types';
+import { BufferByteSource } from '../../utils/io/byte-source';
+import { EncInt } from '../../utils/io/encint';
+import { Codepage } from '../../utils/encoding/codepage';
 
 /**
  * 目录条目类型
@@ -9,6 +18,16 @@ enum EntryType {
   PMGI = 'PMGI', // 索引目录块
 }
 
+/**
+ * PMGL 块头部长度
+ */
+const PMGL_HEADER_LENGTH = 0x14;
+
+/**
+ * PMGI 块头部长度
+ */
+const PMGI_HEADER_LENGTH = 0x08;
+
 /**
  * 目录解析器
  * 负责解析 CHM 文件的目录块并构建路径索引树
@@ -16,76 +35,192 @@ enum EntryType {
 export class DirectoryParser {
   /**
    * 解析目录结构
-   * @param reader 位读取器
+   * @param source 数据源
+   * @param offset 第一个目录块的偏移
    * @param itspHeader ITSP 头部信息
+   * @param lazy 是否延迟展开目录条目
    * @returns 解析后的目录结构
    */
-  static parse(reader: BitReader, itspHeader: ITSPHeader): CHMDirectory {
-    const entries = new Map<string, DirectoryEntry>();
-
-    // 解析目录块
-    const directoryBlocks = this.parseDirectoryBlocks(reader, itspHeader);
-
-    // 从叶子节点中提取文件信息
-    for (const block of directoryBlocks) {
-      if (block.type === EntryType.PMGL) {
-        const blockEntries = this.parseLeafBlock(block.data);
-        for (const entry of blockEntries) {
-          entries.set(entry.name, entry);
-        }
-      }
+  static parse(
+    source: ByteSource,
+    offset: number,
+    itspHeader: ITSPHeader,
+    lazy: boolean = false,
+  ): CHMDirectory {
+    const directoryLength = itspHeader.chunkCount * itspHeader.chunkSize;
+    if (offset + directoryLength > source.size) {
+      throw new Error(`目录块超出文件范围: 偏移 ${offset}`);
     }
 
-    return {
-      entries,
+    const directory: CHMDirectory = {
+      entries: new Map<string, DirectoryEntry>(),
       rootPath: '/',
+      index: {
+        source,
+        offset,
+        chunkSize: itspHeader.chunkSize,
+        density: itspHeader.density,
+        rootIndex: itspHeader.rootIndex,
+        firstPMGL: itspHeader.firstPMGI,
+        chunkCount: itspHeader.chunkCount,
+        encoding: Codepage.charsetForLCID(itspHeader.languageId),
+      },
+      lazy,
     };
+
+    if (!lazy) {
+      this.loadEntries(directory);
+    }
+
+    return directory;
   }
 
   /**
-   * 解析目录块
-   * @param reader 位读取器
-   * @param itspHeader ITSP 头部信息
-   * @returns 目录块数组
+   * 将目录块复制到内存中，使目录在数据源关闭后仍可查找
+   * @param directory 目录结构
    */
-  private static parseDirectoryBlocks(
-    reader: BitReader,
-    itspHeader: ITSPHeader,
-  ): Array<{ type: EntryType; data: Buffer }> {
-    const blocks: Array<{ type: EntryType; data: Buffer }> = [];
-    const chunkSize = itspHeader.chunkSize;
-    let currentChunk = 0;
-
-    // 读取所有目录块
-    while (currentChunk <= itspHeader.lastPMGI) {
-      const blockData = this.readChunk(reader, chunkSize);
-      const signature = this.readBlockSignature(blockData);
-
-      if (signature === EntryType.PMGL || signature === EntryType.PMGI) {
-        blocks.push({
-          type: signature,
-          data: blockData,
-        });
+  static detach(directory: CHMDirectory): void {
+    const { index } = directory;
+    if (!index) {
+      return;
+    }
+
+    const data = index.source.read(
+      index.offset,
+      index.chunkCount * index.chunkSize,
+    );
+    directory.index = {
+      ...index,
+      source: new BufferByteSource(Buffer.from(data)),
+      offset: 0,
+    };
+  }
+
+  /**
+   * 展开延迟加载的目录条目
+   * @param directory 目录结构
+   * @returns 全部目录条目
+   */
+  static loadEntries(directory: CHMDirectory): Map<string, DirectoryEntry> {
+    if (!directory.index || (!directory.lazy && directory.entries.size > 0)) {
+      return directory.entries;
+    }
+
+    // 沿 PMGL 块链表依次读取叶子块
+    for (const chunk of this.readLeafChunks(directory.index)) {
+      const { entries: chunkEntries } = this.parseLeafChunk(
+        chunk,
+        directory.index.density,
+        directory.index.encoding,
+      );
+      for (const entry of chunkEntries) {
+        directory.entries.set(entry.name, entry);
+      }
+    }
+
+    directory.lazy = false;
+    return directory.entries;
+  }
+
+  /**
+   * 查找目录条目，延迟模式下通过 PMGI 索引定位
+   * @param directory 目录结构
+   * @param name 条目名称
+   * @returns 目录条目，不存在时返回 null
+   */
+  static findEntry(
+    directory: CHMDirectory,
+    name: string,
+  ): DirectoryEntry | null {
+    if (directory.lazy && directory.index) {
+      return this.lookup(directory.index, name);
+    }
+
+    return directory.entries.get(name) ?? null;
+  }
+
+  /**
+   * 从根 PMGI 块逐层向下查找，只解码可能包含该名称的 PMGL 块
+   * @param index 目录块索引
+   * @param name 条目名称（不区分大小写）
+   * @returns 目录条目，不存在时返回 null
+   */
+  static lookup(index: DirectoryIndex, name: string): DirectoryEntry | null {
+    // 没有索引块时目录只有少量 PMGL 块，沿链表查找
+    if (index.rootIndex < 0) {
+      for (const chunk of this.readLeafChunks(index)) {
+        const entry = this.findInLeafChunk(chunk, index, name);
+        if (entry) {
+          return entry;
+        }
+      }
+      return null;
+    }
+
+    const visited = new Set<number>();
+    let chunkIndex = index.rootIndex;
+
+    while (!visited.has(chunkIndex)) {
+      visited.add(chunkIndex);
+
+      const chunk = this.readChunk(index, chunkIndex);
+      if (this.readBlockSignature(chunk) === EntryType.PMGL) {
+        return this.findInLeafChunk(chunk, index, name);
+      }
+
+      chunkIndex = this.findChildChunk(chunk, name, index.encoding);
+      if (chunkIndex === -1) {
+        return null;
+      }
+    }
+
+    throw new Error(`目录索引存在循环: ${chunkIndex}`);
+  }
+
+  /**
+   * 按 prev/next 链接顺序读取所有 PMGL 块
+   * @param index 目录块索引
+   * @returns PMGL 块数组
+   */
+  private static readLeafChunks(index: DirectoryIndex): Buffer[] {
+    const chunks: Buffer[] = [];
+    const visited = new Set<number>();
+    let chunkIndex = index.firstPMGL;
+
+    while (chunkIndex !== -1) {
+      if (visited.has(chunkIndex)) {
+        throw new Error(`目录块链表存在循环: ${chunkIndex}`);
+      }
+      visited.add(chunkIndex);
+
+      const chunk = this.readChunk(index, chunkIndex);
+      const signature = this.readBlockSignature(chunk);
+      if (signature !== EntryType.PMGL) {
+        throw new Error(`目录块 ${chunkIndex} 不是 PMGL 块: ${signature}`);
       }
 
-      currentChunk++;
+      chunks.push(chunk);
+      chunkIndex = this.parseLeafHeader(chunk).nextChunk;
     }
 
-    return blocks;
+    return chunks;
   }
 
   /**
-   * 读取一个数据块
-   * @param reader 位读取器
-   * @param chunkSize 块大小
+   * 读取一个目录块
+   * @param index 目录块索引
+   * @param chunkIndex 块编号
    * @returns 数据块
    */
-  private static readChunk(reader: BitReader, chunkSize: number): Buffer {
-    const chunk = Buffer.alloc(chunkSize);
-    for (let i = 0; i < chunkSize; i++) {
-      chunk[i] = reader.read(8);
+  private static readChunk(index: DirectoryIndex, chunkIndex: number): Buffer {
+    if (chunkIndex < 0 || chunkIndex >= index.chunkCount) {
+      throw new Error(`无效的目录块编号: ${chunkIndex}`);
     }
-    return chunk;
+
+    return index.source.read(
+      index.offset + chunkIndex * index.chunkSize,
+      index.chunkSize,
+    );
   }
 
   /**
@@ -100,102 +235,330 @@ export class DirectoryParser {
     throw new Error(`未知的块签名: ${signature}`);
   }
 
+  /**
+   * 解析 PMGL 块头部
+   * @param chunk 块数据
+   * @returns PMGL 块头部
+   */
+  static parseLeafHeader(chunk: Buffer): PMGLChunkHeader {
+    return {
+      signature: chunk.subarray(0, 4).toString('ascii'),
+      freeSpace: chunk.readUInt32LE(4),
+      unknown: chunk.readUInt32LE(8),
+      prevChunk: chunk.readInt32LE(12),
+      nextChunk: chunk.readInt32LE(16),
+    };
+  }
+
   /**
    * 解析叶子块（PMGL）
-   * @param blockData 块数据
-   * @returns 目录条目数组
+   * @param chunk 块数据
+   * @param density quickref 密度
+   * @param encoding 名称不是合法 UTF-8 时使用的字符集
+   * @returns 块头部、目录条目和 quickref 信息
    */
-  private static parseLeafBlock(blockData: Buffer): DirectoryEntry[] {
+  static parseLeafChunk(
+    chunk: Buffer,
+    density: number,
+    encoding: string = 'utf-8',
+  ): {
+    header: PMGLChunkHeader;
+    entries: DirectoryEntry[];
+    quickRef: number[];
+  } {
+    const header = this.parseLeafHeader(chunk);
+    if (header.signature !== EntryType.PMGL) {
+      throw new Error(`无效的 PMGL 签名: ${header.signature}`);
+    }
+
+    const entriesEnd = chunk.length - header.freeSpace;
+    if (entriesEnd < PMGL_HEADER_LENGTH) {
+      throw new Error(`PMGL 空闲区长度无效: ${header.freeSpace}`);
+    }
+
+    const { entryCount, offsets } = this.readQuickRef(
+      chunk,
+      header.freeSpace,
+      density,
+    );
+
     const entries: DirectoryEntry[] = [];
+    let offset = PMGL_HEADER_LENGTH;
+
+    while (offset < entriesEnd && entries.length < entryCount) {
+      const result = this.parseDirectoryEntry(chunk, offset, encoding);
+      entries.push(result.entry);
+      offset = result.nextOffset;
+    }
+
+    return { header, entries, quickRef: offsets };
+  }
+
+  /**
+   * 读取块末尾的 quickref 区
+   * 最后一个 WORD 为条目数，其前按倒序存放每隔 1 + 2^density
+   * 个条目的条目偏移（相对于第一个条目）
+   * @param chunk 块数据
+   * @param freeSpace 空闲区长度
+   * @param density quickref 密度
+   * @returns 条目数和 quickref 偏移
+   */
+  static readQuickRef(
+    chunk: Buffer,
+    freeSpace: number,
+    density: number,
+  ): { entryCount: number; offsets: number[] } {
+    if (freeSpace < 2) {
+      return { entryCount: Number.MAX_SAFE_INTEGER, offsets: [] };
+    }
+
+    const entryCount = chunk.readUInt16LE(chunk.length - 2);
+    const interval = 1 + (1 << density);
+    const count = Math.min(
+      entryCount > 0 ? Math.floor((entryCount - 1) / interval) : 0,
+      Math.floor((freeSpace - 2) / 2),
+    );
+
+    const offsets: number[] = [];
+    for (let i = 0; i < count; i++) {
+      offsets.push(chunk.readUInt16LE(chunk.length - 4 - i * 2));
+    }
 
-    // 跳过头部（PMGL签名 + 块信息）
-    let offset = 20;
+    return { entryCount, offsets };
+  }
 
-    // 读取条目数量
-    const entryCount = blockData.readUInt32LE(16);
+  /**
+   * 解析索引块（PMGI）
+   * 条目格式：ENCINT 名称长度、名称、ENCINT 子块编号
+   * @param chunk 块数据
+   * @param encoding 名称不是合法 UTF-8 时使用的字符集
+   * @returns 索引条目数组（按名称升序）
+   */
+  static parseIndexChunk(
+    chunk: Buffer,
+    encoding: string = 'utf-8',
+  ): Array<{ name: string; chunkIndex: number }> {
+    const signature = chunk.subarray(0, 4).toString('ascii');
+    if (signature !== EntryType.PMGI) {
+      throw new Error(`无效的 PMGI 签名: ${signature}`);
+    }
+
+    const freeSpace = chunk.readUInt32LE(4);
+    const entriesEnd = chunk.length - freeSpace;
+    if (entriesEnd < PMGI_HEADER_LENGTH) {
+      throw new Error(`PMGI 空闲区长度无效: ${freeSpace}`);
+    }
+
+    const entries: Array<{ name: string; chunkIndex: number }> = [];
+    let offset = PMGI_HEADER_LENGTH;
+
+    while (offset < entriesEnd) {
+      const nameLength = EncInt.read(chunk, offset);
+      const nameEnd = nameLength.nextOffset + nameLength.value;
+      const chunkIndex = EncInt.read(chunk, nameEnd);
+
+      entries.push({
+        name: this.decodeEntryName(
+          chunk.subarray(nameLength.nextOffset, nameEnd),
+          encoding,
+        ),
+        chunkIndex: chunkIndex.value,
+      });
+      offset = chunkIndex.nextOffset;
+    }
 
-    for (let i = 0; i < entryCount && offset < blockData.length; i++) {
-      try {
-        const entry = this.parseDirectoryEntry(blockData, offset);
-        entries.push(entry.entry);
-        offset = entry.nextOffset;
-      } catch (error) {
-        // 如果解析失败，跳出循环
+    return entries;
+  }
+
+  /**
+   * 在 PMGI 块中选择可能包含名称的子块
+   * @param chunk PMGI 块数据
+   * @param name 条目名称
+   * @param encoding 名称字符集
+   * @returns 子块编号，名称位于所有条目之前时返回 -1
+   */
+  private static findChildChunk(
+    chunk: Buffer,
+    name: string,
+    encoding: string,
+  ): number {
+    let result = -1;
+
+    // 条目按名称升序排列，取最后一个不大于目标名称的条目
+    for (const entry of this.parseIndexChunk(chunk, encoding)) {
+      if (this.compareNames(entry.name, name) > 0) {
         break;
       }
+      result = entry.chunkIndex;
     }
 
-    return entries;
+    return result;
+  }
+
+  /**
+   * 在 PMGL 块中查找条目，优先精确匹配
+   * 先用 quickref 二分定位名称所在的条目组，再从组首顺序扫描，
+   * 遇到大于目标名称的条目即停止
+   * @param chunk PMGL 块数据
+   * @param index 目录块索引
+   * @param name 条目名称
+   * @returns 目录条目，不存在时返回 null
+   */
+  private static findInLeafChunk(
+    chunk: Buffer,
+    index: DirectoryIndex,
+    name: string,
+  ): DirectoryEntry | null {
+    const { freeSpace } = this.parseLeafHeader(chunk);
+    const entriesEnd = chunk.length - freeSpace;
+    if (entriesEnd < PMGL_HEADER_LENGTH) {
+      throw new Error(`PMGL 空闲区长度无效: ${freeSpace}`);
+    }
+
+    const { entryCount, offsets } = this.readQuickRef(
+      chunk,
+      freeSpace,
+      index.density,
+    );
+    const starts = this.getGroupStarts(offsets, entriesEnd);
+
+    // 取最后一个首条目小于目标名称的组，大小写不同的同名条目可能跨组
+    let low = 0;
+    let high = starts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      const first = this.parseDirectoryEntry(
+        chunk,
+        starts[middle]!,
+        index.encoding,
+      ).entry;
+      if (this.compareNames(first.name, name) < 0) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    let offset = starts[low]!;
+    let remaining = entryCount - low * (1 + (1 << index.density));
+    let caseInsensitive: DirectoryEntry | null = null;
+
+    while (offset < entriesEnd && remaining > 0) {
+      const { entry, nextOffset } = this.parseDirectoryEntry(
+        chunk,
+        offset,
+        index.encoding,
+      );
+      const order = this.compareNames(entry.name, name);
+      if (order > 0) {
+        break;
+      }
+      if (entry.name === name) {
+        return entry;
+      }
+      if (order === 0 && !caseInsensitive) {
+        caseInsensitive = entry;
+      }
+
+      offset = nextOffset;
+      remaining--;
+    }
+
+    return caseInsensitive;
+  }
+
+  /**
+   * 计算 quickref 划分的各条目组的起始偏移
+   * @param offsets quickref 偏移（相对于第一个条目）
+   * @param entriesEnd 条目区结束位置
+   * @returns 各组首条目在块中的偏移；quickref 无效时只有第一组
+   */
+  private static getGroupStarts(
+    offsets: number[],
+    entriesEnd: number,
+  ): number[] {
+    const starts = [PMGL_HEADER_LENGTH];
+
+    for (const offset of offsets) {
+      const start = PMGL_HEADER_LENGTH + offset;
+      if (start <= starts[starts.length - 1]! || start >= entriesEnd) {
+        return [PMGL_HEADER_LENGTH];
+      }
+      starts.push(start);
+    }
+
+    return starts;
+  }
+
+  /**
+   * 按 CHM 目录的排序规则比较名称（不区分大小写）
+   * @param a 名称 a
+   * @param b 名称 b
+   * @returns 比较结果
+   */
+  private static compareNames(a: string, b: string): number {
+    const lowerA = a.toLowerCase();
+    const lowerB = b.toLowerCase();
+    if (lowerA < lowerB) return -1;
+    if (lowerA > lowerB) return 1;
+    return 0;
   }
 
   /**
    * 解析单个目录条目
+   * 条目格式：ENCINT 名称长度、名称、ENCINT 内容段、ENCINT 偏移、ENCINT 长度
    * @param data 数据缓冲区
    * @param offset 起始偏移
+   * @param encoding 名称字符集
    * @returns 解析结果
    */
   private static parseDirectoryEntry(
     data: Buffer,
     offset: number,
+    encoding: string,
   ): { entry: DirectoryEntry; nextOffset: number } {
-    let currentOffset = offset;
-
     // 读取名称长度
-    const nameLength = data.readUInt8(currentOffset);
-    currentOffset += 1;
+    const nameLength = EncInt.read(data, offset);
+    const nameEnd = nameLength.nextOffset + nameLength.value;
+    if (nameEnd > data.length) {
+      throw new Error(`目录条目名称超出块范围: 偏移 ${offset}`);
+    }
 
     // 读取名称
-    const nameBuffer = data.subarray(currentOffset, currentOffset + nameLength);
-    const name = this.decodeEntryName(nameBuffer);
-    currentOffset += nameLength;
-
-    // 读取是否压缩标志
-    const isCompressed = data.readUInt8(currentOffset) === 1;
-    currentOffset += 1;
-
-    // 读取偏移量
-    const offset64 = data.readBigUInt64LE(currentOffset);
-    const entryOffset = Number(offset64);
-    currentOffset += 8;
-
-    // 读取长度
-    const length = data.readUInt32LE(currentOffset);
-    currentOffset += 4;
-
-    // 读取未压缩长度（如果压缩）
-    let uncompressedLength: number | undefined;
-    if (isCompressed) {
-      uncompressedLength = data.readUInt32LE(currentOffset);
-      currentOffset += 4;
-    }
+    const name = this.decodeEntryName(
+      data.subarray(nameLength.nextOffset, nameEnd),
+      encoding,
+    );
 
-    // 读取节编号
-    const section = data.readUInt32LE(currentOffset);
-    currentOffset += 4;
+    // 读取内容段、偏移和长度
+    const section = EncInt.read(data, nameEnd);
+    const entryOffset = EncInt.read(data, section.nextOffset);
+    const length = EncInt.read(data, entryOffset.nextOffset);
 
     const entry: DirectoryEntry = {
       name,
-      isCompressed,
-      offset: entryOffset,
-      length,
-      section,
-      ...(uncompressedLength !== undefined && { uncompressedLength }),
+      isCompressed: section.value !== 0,
+      offset: entryOffset.value,
+      length: length.value,
+      section: section.value,
     };
 
     return {
       entry,
-      nextOffset: currentOffset,
+      nextOffset: length.nextOffset,
     };
   }
 
   /**
    * 解码条目名称
+   * CHM 目录中的名称通常是 UTF-8，部分编译器写入的是 ANSI 代码页，
+   * 此时按 LCID 对应的字符集解码
    * @param nameBuffer 名称缓冲区
+   * @param encoding 名称不是合法 UTF-8 时使用的字符集
    * @returns 解码后的名称
    */
-  private static decodeEntryName(nameBuffer: Buffer): string {
-    // CHM 文件中的名称通常使用 UTF-8 编码
-    return nameBuffer.toString('utf8');
+  private static decodeEntryName(nameBuffer: Buffer, encoding: string): string {
+    return Codepage.decodeName(nameBuffer, encoding);
   }
 
   /**
@@ -204,6 +567,11 @@ export class DirectoryParser {
    * @returns 验证结果
    */
   static validate(directory: CHMDirectory): boolean {
+    // 延迟模式下只检查目录块索引
+    if (directory.lazy) {
+      return !!directory.index && directory.index.chunkCount > 0;
+    }
+
     if (!directory.entries || directory.entries.size === 0) {
       return false;
     }
@@ -222,6 +590,13 @@ export class DirectoryParser {
    * @returns 目录信息字符串
    */
   static getSummary(directory: CHMDirectory): string {
+    if (directory.lazy && directory.index) {
+      return [
+        `目录块数: ${directory.index.chunkCount}`,
+        '目录条目: 延迟加载',
+      ].join('\n');
+    }
+
     const totalFiles = directory.entries.size;
     const compressedFiles = Array.from(directory.entries.values()).filter(
       entry => entry.isCompressed,
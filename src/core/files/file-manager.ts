@@ -1,4 +1,5 @@
 import type { DirectoryEntry, ParsedCHM } from '../types';
+import { DirectoryParser } from '../directory/directory-parser';
 
 /**
  * CHM 文件管理器
@@ -17,7 +18,7 @@ export class CHMFileManager {
    * @returns 是否存在
    */
   fileExists(fileName: string): boolean {
-    return this.parsedCHM.directory.entries.has(fileName);
+    return this.getEntries().has(fileName);
   }
 
   /**
@@ -26,7 +27,7 @@ export class CHMFileManager {
    * @returns 文件信息
    */
   getFileInfo(fileName: string): DirectoryEntry | null {
-    return this.parsedCHM.directory.entries.get(fileName) ?? null;
+    return this.getEntries().get(fileName) ?? null;
   }
 
   /**
@@ -34,7 +35,15 @@ export class CHMFileManager {
    * @returns 文件名数组
    */
   getFileList(): string[] {
-    return Array.from(this.parsedCHM.directory.entries.keys());
+    return Array.from(this.getEntries().keys());
+  }
+
+  /**
+   * 获取全部目录条目（延迟模式下会展开整个目录）
+   * @returns 目录条目映射
+   */
+  getEntries(): Map<string, DirectoryEntry> {
+    return DirectoryParser.loadEntries(this.parsedCHM.directory);
   }
 
   /**
@@ -51,25 +60,39 @@ export class CHMFileManager {
 
   /**
    * 查找文件条目
+   * 目录为延迟模式或调用方要求时，通过 PMGI 索引只解码所需的目录块
    * @param fileName 文件名
+   * @param options 查找选项
    * @returns 文件条目
    */
-  findFileEntry(fileName: string): DirectoryEntry | null {
+  findFileEntry(
+    fileName: string,
+    options: { lazy?: boolean } = {},
+  ): DirectoryEntry | null {
+    const { directory } = this.parsedCHM;
+    if ((options.lazy || directory.lazy) && directory.index) {
+      // 索引查找本身不区分大小写
+      return (
+        DirectoryParser.lookup(directory.index, fileName) ??
+        DirectoryParser.lookup(directory.index, this.normalizePath(fileName))
+      );
+    }
+
     // 尝试直接查找
-    let entry = this.parsedCHM.directory.entries.get(fileName);
+    let entry = directory.entries.get(fileName);
     if (entry) {
       return entry;
     }
 
     // 尝试标准化路径后查找
     const normalizedName = this.normalizePath(fileName);
-    entry = this.parsedCHM.directory.entries.get(normalizedName);
+    entry = directory.entries.get(normalizedName);
     if (entry) {
       return entry;
     }
 
     // 尝试不区分大小写查找
-    for (const [entryName, entryData] of this.parsedCHM.directory.entries) {
+    for (const [entryName, entryData] of directory.entries) {
       if (entryName.toLowerCase() === fileName.toLowerCase()) {
         return entryData;
       }
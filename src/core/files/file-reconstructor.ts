@@ -1,7 +1,23 @@
-import type { DirectoryEntry, CHMFile, ParsedCHM } from '../types';
-import type { BitReader } from '../../utils/io/bit-reader';
+import type {
+  ByteSource,
+  ContentSection,
+  DirectoryEntry,
+  CHMFile,
+  ParsedCHM,
+} from '../types';
+import { LZXBitReader } from '../../utils/io/lzx-bit-reader';
 import { LZXDecoder } from '../lzx/lzx-decoder';
+import { ResetTableProcessor } from '../lzx/reset-table';
 import { CHMFileManager } from './file-manager';
+import { LZX_TRANSFORM_GUID } from '../../constants';
+
+/**
+ * LZX 内容段的解码状态
+ */
+interface LZXSectionState {
+  decoder: LZXDecoder;
+  resetTable: ResetTableProcessor;
+}
 
 /**
  * 文件重组器
@@ -9,22 +25,22 @@ import { CHMFileManager } from './file-manager';
  */
 export class FileReconstructor {
   private parsedCHM: ParsedCHM;
-  private lzxDecoder: LZXDecoder;
   private fileManager: CHMFileManager;
+  private lzxSections: Map<number, LZXSectionState>;
 
   constructor(parsedCHM: ParsedCHM) {
     this.parsedCHM = parsedCHM;
-    this.lzxDecoder = new LZXDecoder(parsedCHM.header.lzxc);
     this.fileManager = new CHMFileManager(parsedCHM);
+    this.lzxSections = new Map();
   }
 
   /**
    * 重组指定文件
    * @param fileName 文件名
-   * @param reader 位读取器（指向 CHM 文件内容）
+   * @param source CHM 文件数据源
    * @returns 重组后的文件对象
    */
-  reconstructFile(fileName: string, reader: BitReader): CHMFile {
+  reconstructFile(fileName: string, source: ByteSource): CHMFile {
     // 查找文件条目
     const entry = this.fileManager.findFileEntry(fileName);
     if (!entry) {
@@ -32,7 +48,7 @@ export class FileReconstructor {
     }
 
     // 读取文件数据
-    const data = this.readFileData(entry, reader);
+    const data = this.readFileData(entry, source);
 
     return {
       name: fileName,
@@ -46,18 +62,18 @@ export class FileReconstructor {
   /**
    * 批量重组文件
    * @param fileNames 文件名数组
-   * @param reader 位读取器
+   * @param source 数据源
    * @returns 重组后的文件映射
    */
   reconstructFiles(
     fileNames: string[],
-    reader: BitReader,
+    source: ByteSource,
   ): Map<string, CHMFile> {
     const result = new Map<string, CHMFile>();
 
     for (const fileName of fileNames) {
       try {
-        const file = this.reconstructFile(fileName, reader);
+        const file = this.reconstructFile(fileName, source);
         result.set(fileName, file);
       } catch (error) {
         // 记录错误但继续处理其他文件
@@ -70,84 +86,193 @@ export class FileReconstructor {
 
   /**
    * 重组所有文件
-   * @param reader 位读取器
+   * @param source 数据源
    * @returns 所有文件的映射
    */
-  reconstructAllFiles(reader: BitReader): Map<string, CHMFile> {
+  reconstructAllFiles(source: ByteSource): Map<string, CHMFile> {
     const fileNames = this.fileManager.getFileList();
-    return this.reconstructFiles(fileNames, reader);
+    return this.reconstructFiles(fileNames, source);
   }
 
   /**
    * 读取文件数据
    * @param entry 文件条目
-   * @param reader 位读取器
+   * @param source 数据源
    * @returns 文件数据
    */
-  private readFileData(entry: DirectoryEntry, reader: BitReader): Buffer {
-    // 定位到文件偏移位置
-    this.seekToOffset(reader, entry.offset);
+  private readFileData(entry: DirectoryEntry, source: ByteSource): Buffer {
+    // 段 0 的数据未经变换，直接位于内容偏移之后
+    if (entry.section === 0) {
+      return this.readUncompressedData(entry, source);
+    }
 
-    if (entry.isCompressed) {
-      return this.readCompressedData(entry, reader);
-    } else {
-      return this.readUncompressedData(entry, reader);
+    const section = this.parsedCHM.sections[entry.section];
+    if (!section) {
+      throw new Error(`未知的内容段: ${entry.section}`);
     }
+
+    if (section.transforms.length === 0) {
+      return source.read(section.offset + entry.offset, entry.length);
+    }
+
+    if (
+      section.transforms.length === 1 &&
+      section.transforms[0] === LZX_TRANSFORM_GUID
+    ) {
+      return this.readCompressedData(entry, source, section);
+    }
+
+    throw new Error(
+      `内容段 ${section.index} (${section.name}) 使用了不支持的变换: ${section.transforms.join(', ')}`,
+    );
   }
 
   /**
-   * 定位到指定偏移位置
-   * @param reader 位读取器
-   * @param offset 目标偏移
+   * 获取 LZX 内容段的解码状态（按段缓存）
+   * @param section 内容段
+   * @returns 解码器和重置表
    */
-  private seekToOffset(reader: BitReader, offset: number): void {
-    // 计算相对于内容起始位置的偏移
-    const absoluteOffset = this.parsedCHM.contentOffset + offset;
-
-    // 简化实现：假设 reader 支持跳转
-    // 实际实现可能需要重新创建 reader 或使用不同的定位方法
-    if (reader.position !== absoluteOffset) {
-      const skipBytes = absoluteOffset - reader.position;
-      if (skipBytes > 0) {
-        for (let i = 0; i < skipBytes; i++) {
-          reader.read(8);
-        }
+  private getLZXSection(section: ContentSection): LZXSectionState {
+    let state = this.lzxSections.get(section.index);
+    if (!state) {
+      const resetTable = new ResetTableProcessor();
+      if (section.resetTable) {
+        resetTable.setResetTable(section.resetTable);
       }
+
+      state = {
+        decoder: new LZXDecoder(section.lzxc ?? this.parsedCHM.header.lzxc),
+        resetTable,
+      };
+      this.lzxSections.set(section.index, state);
     }
+
+    return state;
   }
 
   /**
    * 读取压缩数据
-   * @param entry 文件条目
-   * @param reader 位读取器
+   * 通过重置表定位到文件偏移之前最近的重置点，只读取并解码所需的区间
+   * @param entry 文件条目（offset 为解压后数据中的偏移）
+   * @param source 数据源
+   * @param section LZX 内容段
    * @returns 解压后的数据
    */
-  private readCompressedData(entry: DirectoryEntry, reader: BitReader): Buffer {
-    if (!entry.uncompressedLength) {
-      throw new Error('压缩文件缺少未压缩长度信息');
+  private readCompressedData(
+    entry: DirectoryEntry,
+    source: ByteSource,
+    section: ContentSection,
+  ): Buffer {
+    const state = this.getLZXSection(section);
+    const fileLength = entry.uncompressedLength ?? entry.length;
+    const resetPoint = this.findResetPoint(state, section, entry.offset);
+    const decodeEnd = this.findFrameEnd(section, entry.offset + fileLength);
+    const compressedEnd = this.findCompressedEnd(section, decodeEnd);
+
+    // 重置表中的偏移相对于段内容流的起点
+    const compressed = source.read(
+      section.offset + resetPoint.compressedOffset,
+      compressedEnd - resetPoint.compressedOffset,
+    );
+
+    // LZX 位流按 16 位字读取，需要使用专用读取器
+    const lzxReader = new LZXBitReader(compressed);
+
+    // 从重置点解码到文件所在帧的末尾，然后截取文件部分
+    const skip = entry.offset - resetPoint.uncompressedOffset;
+    const decoded = state.decoder.decode(
+      lzxReader,
+      decodeEnd - resetPoint.uncompressedOffset,
+      resetPoint.uncompressedOffset,
+    );
+
+    return decoded.subarray(skip, skip + fileLength);
+  }
+
+  /**
+   * 计算包含指定解压偏移的帧的末尾
+   * Intel E8 还原以完整的帧为单位，解码需要结束在帧边界或流的末尾
+   * @param section LZX 内容段
+   * @param end 解压数据中的结束偏移
+   * @returns 帧末尾的解压偏移，没有重置表时为 end
+   */
+  private findFrameEnd(section: ContentSection, end: number): number {
+    const { resetTable } = section;
+    if (!resetTable) {
+      return end;
+    }
+
+    const frameEnd =
+      Math.ceil(end / resetTable.blockSize) * resetTable.blockSize;
+    return Math.max(end, Math.min(frameEnd, resetTable.uncompressedLength));
+  }
+
+  /**
+   * 计算解码到指定解压偏移所需的压缩数据末尾
+   * @param section LZX 内容段
+   * @param end 解压数据中的结束偏移
+   * @returns 压缩流中的结束偏移
+   */
+  private findCompressedEnd(section: ContentSection, end: number): number {
+    const { resetTable, length } = section;
+    if (!resetTable) {
+      return length;
+    }
+
+    const frameIndex = Math.ceil(end / resetTable.blockSize);
+    const next = resetTable.entries[frameIndex];
+
+    // 多读少量字节，避免位读取器在帧末尾预读时越界
+    return next ? Math.min(next.compressedOffset + 16, length) : length;
+  }
+
+  /**
+   * 查找解压后偏移之前最近的重置点
+   * @param state 内容段解码状态
+   * @param section LZX 内容段
+   * @param offset 解压后数据中的偏移
+   * @returns 重置点在压缩流和解压数据中的偏移
+   */
+  private findResetPoint(
+    state: LZXSectionState,
+    section: ContentSection,
+    offset: number,
+  ): {
+    compressedOffset: number;
+    uncompressedOffset: number;
+  } {
+    const blockIndex = state.resetTable.findBlockByOffset(
+      offset,
+      (section.lzxc ?? this.parsedCHM.header.lzxc).resetInterval,
+    );
+
+    // 没有可用的重置表时从流的起点开始解码
+    if (blockIndex === -1) {
+      return { compressedOffset: 0, uncompressedOffset: 0 };
     }
 
-    // 使用 LZX 解码器解压数据
-    return this.lzxDecoder.decode(reader, entry.uncompressedLength);
+    const block = state.resetTable.getBlockInfo(blockIndex)!;
+
+    return {
+      compressedOffset: state.resetTable.calculateBlockOffset(blockIndex),
+      uncompressedOffset: block.uncompressedOffset,
+    };
   }
 
   /**
    * 读取未压缩数据
    * @param entry 文件条目
-   * @param reader 位读取器
+   * @param source 数据源
    * @returns 原始数据
    */
   private readUncompressedData(
     entry: DirectoryEntry,
-    reader: BitReader,
+    source: ByteSource,
   ): Buffer {
-    const data = Buffer.alloc(entry.length);
-
-    for (let i = 0; i < entry.length; i++) {
-      data[i] = reader.read(8);
-    }
-
-    return data;
+    return source.read(
+      this.parsedCHM.contentOffset + entry.offset,
+      entry.length,
+    );
   }
 
   /**
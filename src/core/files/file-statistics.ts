@@ -6,11 +6,9 @@ import { CHMFileManager } from './file-manager';
  * 负责生成各种文件统计信息
  */
 export class CHMFileStatistics {
-  private parsedCHM: ParsedCHM;
   private fileManager: CHMFileManager;
 
   constructor(parsedCHM: ParsedCHM) {
-    this.parsedCHM = parsedCHM;
     this.fileManager = new CHMFileManager(parsedCHM);
   }
 
@@ -19,17 +17,18 @@ export class CHMFileStatistics {
    * @returns 统计信息字符串
    */
   getStatistics(): string {
-    const totalFiles = this.parsedCHM.directory.entries.size;
+    const totalFiles = this.fileManager.getEntries().size;
     const compressedFiles = Array.from(
-      this.parsedCHM.directory.entries.values(),
+      this.fileManager.getEntries().values(),
     ).filter(entry => entry.isCompressed).length;
 
-    const totalSize = Array.from(
-      this.parsedCHM.directory.entries.values(),
-    ).reduce((sum, entry) => sum + entry.length, 0);
+    const totalSize = Array.from(this.fileManager.getEntries().values()).reduce(
+      (sum, entry) => sum + entry.length,
+      0,
+    );
 
     const uncompressedSize = Array.from(
-      this.parsedCHM.directory.entries.values(),
+      this.fileManager.getEntries().values(),
     ).reduce(
       (sum, entry) => sum + (entry.uncompressedLength ?? entry.length),
       0,
@@ -77,7 +76,7 @@ export class CHMFileStatistics {
     compressionRatio: number;
     averageCompressionRatio: number;
   } {
-    const entries = Array.from(this.parsedCHM.directory.entries.values());
+    const entries = Array.from(this.fileManager.getEntries().values());
 
     const totalFiles = entries.length;
     const compressedFiles = entries.filter(entry => entry.isCompressed).length;
@@ -133,7 +132,7 @@ export class CHMFileStatistics {
   } {
     const distribution = { small: 0, medium: 0, large: 0, veryLarge: 0 };
 
-    for (const entry of this.parsedCHM.directory.entries.values()) {
+    for (const entry of this.fileManager.getEntries().values()) {
       const size = entry.uncompressedLength ?? entry.length;
 
       if (size < 1024) {
@@ -20,38 +20,52 @@ export class ITSFHeaderParser {
 
     // 读取版本号（小端序）
     const version = this.readUInt32LE(reader);
-    if (version !== 3) {
+    if (version !== 2 && version !== 3) {
       throw new Error(`不支持的 ITSF 版本: ${version}`);
     }
 
     // 读取头部长度（小端序）
     const headerLength = this.readUInt32LE(reader);
-    if (headerLength < 96) {
+    if (headerLength < this.getMinHeaderLength(version)) {
       throw new Error(`ITSF 头部长度无效: ${headerLength}`);
     }
 
-    const result = {
+    const unknown1 = this.readUInt32LE(reader);
+    const timestamp = this.readUInt32LE(reader);
+    const languageId = this.readUInt32LE(reader);
+
+    // 跳过两个 GUID
+    this.skipBytes(reader, 32);
+
+    // 头部段表：段 0 和段 1（目录）的偏移与长度
+    const headerSectionOffset = this.readUInt64LE(reader);
+    const headerSectionLength = this.readUInt64LE(reader);
+    const directoryOffset = this.readUInt64LE(reader);
+    const directoryLength = this.readUInt64LE(reader);
+
+    // 版本 3 显式记录内容段 0 偏移，版本 2 中内容紧跟目录
+    const contentOffset =
+      version >= 3
+        ? this.readUInt64LE(reader)
+        : directoryOffset + directoryLength;
+
+    // 跳过剩余的头部字节以对齐到头部结束位置
+    const bytesRead = version >= 3 ? 0x60 : 0x58;
+    this.skipBytes(reader, headerLength - bytesRead);
+
+    return {
       signature,
       version,
       headerLength,
-      unknown1: this.readUInt32LE(reader),
-      timestamp: this.readUInt32LE(reader),
-      languageId: this.readUInt32LE(reader),
-      unknown2: this.readUInt32LE(reader),
-      unknown3: this.readUInt32LE(reader),
-      directoryOffset: this.readUInt32LE(reader),
-      directoryLength: this.readUInt32LE(reader),
-      unknown4: this.readUInt32LE(reader),
+      unknown1,
+      timestamp,
+      languageId,
+      headerSectionOffset,
+      headerSectionLength,
+      directoryOffset,
+      directoryLength,
+      contentOffset,
     };
-
-    // 跳过剩余的头部字节以对齐到头部结束位置
-    const bytesRead = 4 + 4 * 10; // signature + 10 * 4-byte fields = 44 bytes
-    const remainingBytes = headerLength - bytesRead;
-    for (let i = 0; i < remainingBytes; i++) {
-      reader.read(8); // 跳过剩余字节
-    }
-
-    return result;
   }
 
   /**
@@ -60,11 +74,7 @@ export class ITSFHeaderParser {
    * @returns 签名字符串
    */
   private static readSignature(reader: BitReader): string {
-    const bytes: number[] = [];
-    for (let i = 0; i < 4; i++) {
-      bytes.push(reader.read(8));
-    }
-    return String.fromCharCode(...bytes);
+    return reader.readBytes(4).toString('ascii');
   }
 
   /**
@@ -73,12 +83,36 @@ export class ITSFHeaderParser {
    * @returns 32 位整数
    */
   private static readUInt32LE(reader: BitReader): number {
-    const byte1 = reader.read(8);
-    const byte2 = reader.read(8);
-    const byte3 = reader.read(8);
-    const byte4 = reader.read(8);
+    return reader.readBytes(4).readUInt32LE(0);
+  }
 
-    return byte1 | (byte2 << 8) | (byte3 << 16) | (byte4 << 24);
+  /**
+   * 读取 64 位小端序无符号整数
+   * @param reader 位读取器
+   * @returns 64 位整数（超出安全整数范围的高位会丢失精度）
+   */
+  private static readUInt64LE(reader: BitReader): number {
+    const low = this.readUInt32LE(reader);
+    const high = this.readUInt32LE(reader);
+    return high * 0x100000000 + low;
+  }
+
+  /**
+   * 跳过指定字节数
+   * @param reader 位读取器
+   * @param count 字节数
+   */
+  private static skipBytes(reader: BitReader, count: number): void {
+    reader.skipBytes(count);
+  }
+
+  /**
+   * 获取指定版本的最小头部长度
+   * @param version ITSF 版本
+   * @returns 最小头部长度
+   */
+  private static getMinHeaderLength(version: number): number {
+    return version >= 3 ? 0x60 : 0x58;
   }
 
   /**
@@ -91,11 +125,11 @@ export class ITSFHeaderParser {
       return false;
     }
 
-    if (header.version !== 3) {
+    if (header.version !== 2 && header.version !== 3) {
       return false;
     }
 
-    if (header.headerLength < 96) {
+    if (header.headerLength < this.getMinHeaderLength(header.version)) {
       return false;
     }
 
@@ -103,6 +137,13 @@ export class ITSFHeaderParser {
       return false;
     }
 
+    if (
+      header.contentOffset <
+      header.directoryOffset + header.directoryLength
+    ) {
+      return false;
+    }
+
     return true;
   }
 
@@ -118,6 +159,7 @@ export class ITSFHeaderParser {
       `语言 ID: ${header.languageId}`,
       `目录偏移: 0x${header.directoryOffset.toString(16)}`,
       `目录长度: ${header.directoryLength} 字节`,
+      `内容段偏移: 0x${header.contentOffset.toString(16)}`,
     ].join('\n');
   }
 }
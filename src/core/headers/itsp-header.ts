@@ -19,13 +19,13 @@ export class ITSPHeaderParser {
     }
 
     // 读取版本号
-    const version = this.readUInt32LE(reader);
+    const version = this.readInt32LE(reader);
     if (version !== 1) {
       throw new Error(`不支持的 ITSP 版本: ${version}`);
     }
 
     // 读取头部长度
-    const headerLength = this.readUInt32LE(reader);
+    const headerLength = this.readInt32LE(reader);
     if (headerLength < 84) {
       throw new Error(`ITSP 头部长度无效: ${headerLength}`);
     }
@@ -34,22 +34,21 @@ export class ITSPHeaderParser {
       signature,
       version,
       headerLength,
-      unknown1: this.readUInt32LE(reader),
-      chunkSize: this.readUInt32LE(reader),
-      density: this.readUInt32LE(reader),
-      depth: this.readUInt32LE(reader),
-      rootIndex: this.readUInt32LE(reader),
-      firstPMGI: this.readUInt32LE(reader),
-      lastPMGI: this.readUInt32LE(reader),
-      unknown2: this.readUInt32LE(reader),
+      unknown1: this.readInt32LE(reader),
+      chunkSize: this.readInt32LE(reader),
+      density: this.readInt32LE(reader),
+      depth: this.readInt32LE(reader),
+      rootIndex: this.readInt32LE(reader),
+      firstPMGI: this.readInt32LE(reader),
+      lastPMGI: this.readInt32LE(reader),
+      unknown2: this.readInt32LE(reader),
+      chunkCount: this.readInt32LE(reader),
+      languageId: this.readInt32LE(reader),
     };
 
     // 跳过剩余的头部字节以对齐到头部结束位置
-    const bytesRead = 4 + 4 * 10; // signature + 10 * 4-byte fields = 44 bytes
-    const remainingBytes = headerLength - bytesRead;
-    for (let i = 0; i < remainingBytes; i++) {
-      reader.read(8); // 跳过剩余字节
-    }
+    const bytesRead = 4 + 4 * 12; // signature + 12 * 4-byte fields = 52 bytes
+    reader.skipBytes(headerLength - bytesRead);
 
     return result;
   }
@@ -60,25 +59,16 @@ export class ITSPHeaderParser {
    * @returns 签名字符串
    */
   private static readSignature(reader: BitReader): string {
-    const bytes: number[] = [];
-    for (let i = 0; i < 4; i++) {
-      bytes.push(reader.read(8));
-    }
-    return String.fromCharCode(...bytes);
+    return reader.readBytes(4).toString('ascii');
   }
 
   /**
-   * 读取 32 位小端序无符号整数
+   * 读取 32 位小端序整数（块编号字段以 -1 表示不存在，按有符号读取）
    * @param reader 位读取器
    * @returns 32 位整数
    */
-  private static readUInt32LE(reader: BitReader): number {
-    const byte1 = reader.read(8);
-    const byte2 = reader.read(8);
-    const byte3 = reader.read(8);
-    const byte4 = reader.read(8);
-
-    return byte1 | (byte2 << 8) | (byte3 << 16) | (byte4 << 24);
+  private static readInt32LE(reader: BitReader): number {
+    return reader.readBytes(4).readInt32LE(0);
   }
 
   /**
@@ -121,6 +111,7 @@ export class ITSPHeaderParser {
       `根索引: ${header.rootIndex}`,
       `首个 PMGI: ${header.firstPMGI}`,
       `最后 PMGI: ${header.lastPMGI}`,
+      `目录块数: ${header.chunkCount}`,
     ].join('\n');
   }
 }
@@ -17,12 +17,19 @@ export class LZXCHeaderParser {
     0x200000, // 2MB
   ];
 
+  // 版本 2 ControlData 中大小字段的单位
+  private static readonly SIZE_UNIT = 0x8000;
+
   /**
    * 解析 LZXC 头部
+   * 数据来自 ::DataSpace/Storage/MSCompressed/ControlData
    * @param reader 位读取器
-   * @returns 解析后的 LZXC 头部信息
+   * @returns 解析后的 LZXC 头部信息（大小字段统一换算为字节）
    */
   static parse(reader: BitReader): LZXCHeader {
+    // 读取签名之后的 DWORD 数量
+    const dwordCount = this.readUInt32LE(reader);
+
     // 读取签名
     const signature = this.readSignature(reader);
     if (signature !== 'LZXC') {
@@ -31,24 +38,27 @@ export class LZXCHeaderParser {
 
     // 读取版本号
     const version = this.readUInt32LE(reader);
-    if (version !== 2) {
+    if (version !== 1 && version !== 2) {
       throw new Error(`不支持的 LZXC 版本: ${version}`);
     }
 
+    // 版本 2 中大小字段以 0x8000 为单位
+    const unit = version === 2 ? this.SIZE_UNIT : 1;
+
     // 读取重置间隔
-    const resetInterval = this.readUInt32LE(reader);
+    const resetInterval = this.readUInt32LE(reader) * unit;
 
     // 读取窗口大小
-    const windowSize = this.readUInt32LE(reader);
+    const windowSize = this.readUInt32LE(reader) * unit;
     if (!this.isValidWindowSize(windowSize)) {
       throw new Error(`无效的 LZX 窗口大小: ${windowSize}`);
     }
 
     // 读取缓存大小
-    const cacheSize = this.readUInt32LE(reader);
+    const cacheSize = this.readUInt32LE(reader) * unit;
 
     // 读取未知字段
-    const unknown = this.readUInt32LE(reader);
+    const unknown = dwordCount >= 6 ? this.readUInt32LE(reader) : 0;
 
     return {
       signature,
@@ -66,11 +76,7 @@ export class LZXCHeaderParser {
    * @returns 签名字符串
    */
   private static readSignature(reader: BitReader): string {
-    const bytes: number[] = [];
-    for (let i = 0; i < 4; i++) {
-      bytes.push(reader.read(8));
-    }
-    return String.fromCharCode(...bytes);
+    return reader.readBytes(4).toString('ascii');
   }
 
   /**
@@ -79,12 +85,7 @@ export class LZXCHeaderParser {
    * @returns 32 位整数
    */
   private static readUInt32LE(reader: BitReader): number {
-    const byte1 = reader.read(8);
-    const byte2 = reader.read(8);
-    const byte3 = reader.read(8);
-    const byte4 = reader.read(8);
-
-    return byte1 | (byte2 << 8) | (byte3 << 16) | (byte4 << 24);
+    return reader.readBytes(4).readUInt32LE(0);
   }
 
   /**
@@ -106,7 +107,7 @@ export class LZXCHeaderParser {
       return false;
     }
 
-    if (header.version !== 2) {
+    if (header.version !== 1 && header.version !== 2) {
       return false;
     }
 
@@ -0,0 +1,269 @@
+import type { ByteSource, IndexEntry, IndexTopic, ParsedCHM } from '../types';
+import { InternalFileReader } from './internal-file-reader';
+import { TopicTable } from './topic-table';
+import { CHM_SYSTEM_FILES } from '../../constants';
+
+/**
+ * 二进制索引种类
+ */
+export type BinaryIndexKind = 'keyword' | 'associative';
+
+/**
+ * 列表块中的一条关键词记录
+ */
+interface KeywordRecord {
+  keyword: string; // 含上级关键词的完整文本，以 ", " 分隔
+  nameOffset: number; // 本级关键词在完整文本中的字符偏移
+  depth: number;
+  seeAlso?: string;
+  topics: number[]; // #TOPICS 编号
+}
+
+const BTREE_SIGNATURE = 0x293b;
+const BTREE_HEADER_SIZE = 0x4c;
+const LISTING_HEADER_SIZE = 0x0c;
+const SEE_ALSO_FLAG = 2;
+const NO_BLOCK = -1;
+
+const BTREE_FILES: Record<BinaryIndexKind, string> = {
+  keyword: CHM_SYSTEM_FILES.keywordLinks,
+  associative: CHM_SYSTEM_FILES.associativeLinks,
+};
+
+/**
+ * 二进制索引（$WWKeywordLinks、$WWAssociativeLinks）读取器
+ * BTree 文件以 0x4C 字节的头部开始：WORD 签名 0x293B、WORD 标志、WORD 块大小、
+ * 16 字节格式串、+0x16 DWORD 最后一个列表块、+0x1A DWORD 根索引块 ...
+ * 之后是定长块。列表块头部为 WORD 空闲字节数、WORD 记录数、
+ * DWORD 上一块、DWORD 下一块；每条记录为：UTF-16 关键词、WORD 参见标志、
+ * WORD 层级、DWORD 本级关键词偏移、DWORD 0、DWORD 主题数、
+ * 参见目标（UTF-16）或主题编号数组、DWORD 1、DWORD 记录序号。
+ * 列表块按关键词排序并通过链表相连，读取时只需沿链表遍历，不需要索引块
+ */
+export class BinaryIndexReader {
+  /**
+   * 从解析后的 CHM 结构读取二进制索引
+   * @param parsedCHM 解析后的 CHM 结构
+   * @param source 数据源
+   * @param kind 索引种类，默认为关键词索引（K-link）
+   * @returns 索引条目，缺少 BTree 文件时为 null
+   */
+  static load(
+    parsedCHM: ParsedCHM,
+    source: ByteSource,
+    kind: BinaryIndexKind = 'keyword',
+  ): IndexEntry[] | null {
+    const reader = new InternalFileReader(parsedCHM, source);
+    const btree = reader.read(BTREE_FILES[kind]);
+    if (!btree) {
+      return null;
+    }
+
+    return this.parse(btree, TopicTable.loadFrom(reader));
+  }
+
+  /**
+   * 解析 BTree 文件
+   * @param btree BTree 文件数据
+   * @param topics 主题表
+   * @returns 按层级组织的索引条目
+   */
+  static parse(btree: Buffer, topics: TopicTable): IndexEntry[] {
+    if (btree.length < BTREE_HEADER_SIZE) {
+      throw new Error(`二进制索引 BTree 文件过短: ${btree.length} 字节`);
+    }
+
+    const signature = btree.readUInt16LE(0);
+    if (signature !== BTREE_SIGNATURE) {
+      throw new Error(
+        `无效的二进制索引签名: 0x${signature.toString(16).padStart(4, '0')}`,
+      );
+    }
+
+    const blockSize = btree.readUInt16LE(4);
+    const lastListingBlock = btree.readInt32LE(0x16);
+    const records = this.readListingBlocks(btree, blockSize, lastListingBlock);
+
+    return this.buildTree(records, topics);
+  }
+
+  /**
+   * 沿链表读取全部列表块中的记录
+   * @param btree BTree 文件数据
+   * @param blockSize 块大小
+   * @param lastBlock 最后一个列表块的编号
+   * @returns 按顺序排列的关键词记录
+   */
+  private static readListingBlocks(
+    btree: Buffer,
+    blockSize: number,
+    lastBlock: number,
+  ): KeywordRecord[] {
+    const blockCount = Math.floor(
+      (btree.length - BTREE_HEADER_SIZE) / blockSize,
+    );
+    const isValid = (block: number): boolean =>
+      block >= 0 && block < blockCount;
+    const blockOffset = (block: number): number =>
+      BTREE_HEADER_SIZE + block * blockSize;
+
+    // 从最后一块向前找到链表头，同时防止损坏的链接造成死循环
+    let first = lastBlock;
+    const seen = new Set<number>();
+    while (isValid(first) && !seen.has(first)) {
+      seen.add(first);
+      const prev = btree.readInt32LE(blockOffset(first) + 4);
+      if (prev === NO_BLOCK || !isValid(prev)) {
+        break;
+      }
+      first = prev;
+    }
+
+    const records: KeywordRecord[] = [];
+    const visited = new Set<number>();
+    for (
+      let block = first;
+      isValid(block) && !visited.has(block);
+      block = btree.readInt32LE(blockOffset(block) + 8)
+    ) {
+      visited.add(block);
+      const data = btree.subarray(
+        blockOffset(block),
+        blockOffset(block) + blockSize,
+      );
+      records.push(...this.readListingBlock(data));
+    }
+
+    return records;
+  }
+
+  /**
+   * 读取单个列表块
+   * @param block 块数据
+   * @returns 块中的关键词记录，遇到不完整的记录时停止
+   */
+  private static readListingBlock(block: Buffer): KeywordRecord[] {
+    const count = block.readUInt16LE(2);
+    const records: KeywordRecord[] = [];
+    let offset = LISTING_HEADER_SIZE;
+
+    for (let i = 0; i < count; i++) {
+      const keyword = this.readUTF16String(block, offset);
+      if (!keyword) {
+        break;
+      }
+      offset = keyword.nextOffset;
+
+      if (offset + 16 > block.length) {
+        break;
+      }
+
+      const record: KeywordRecord = {
+        keyword: keyword.value,
+        nameOffset: block.readUInt32LE(offset + 4),
+        depth: block.readUInt16LE(offset + 2),
+        topics: [],
+      };
+      const seeAlso = block.readUInt16LE(offset) === SEE_ALSO_FLAG;
+      const topicCount = block.readUInt32LE(offset + 12);
+      offset += 16;
+
+      if (seeAlso) {
+        const target = this.readUTF16String(block, offset);
+        if (!target) {
+          break;
+        }
+        record.seeAlso = target.value;
+        offset = target.nextOffset;
+      } else {
+        if (offset + topicCount * 4 > block.length) {
+          break;
+        }
+        for (let j = 0; j < topicCount; j++) {
+          record.topics.push(block.readUInt32LE(offset + j * 4));
+        }
+        offset += topicCount * 4;
+      }
+
+      // DWORD 1 和记录序号
+      offset += 8;
+      records.push(record);
+    }
+
+    return records;
+  }
+
+  /**
+   * 按层级把记录组织成索引树，并通过主题表解析主题
+   * @param records 关键词记录
+   * @param topics 主题表
+   * @returns 顶层索引条目
+   */
+  private static buildTree(
+    records: KeywordRecord[],
+    topics: TopicTable,
+  ): IndexEntry[] {
+    const roots: IndexEntry[] = [];
+    const parents: IndexEntry[] = [];
+
+    for (const record of records) {
+      const resolved: IndexTopic[] = [];
+      for (const index of record.topics) {
+        const topic = topics.getTopic(index);
+        if (topic) {
+          resolved.push({
+            name: topic.title,
+            local: topic.local || (topic.url ?? ''),
+          });
+        }
+      }
+
+      const entry: IndexEntry = {
+        name: record.keyword.slice(record.nameOffset) || record.keyword,
+        local: resolved[0]?.local ?? '',
+      };
+      if (resolved.length > 0) {
+        entry.topics = resolved;
+      }
+      if (record.seeAlso) {
+        entry.seeAlso = record.seeAlso;
+      }
+
+      // 层级超出上级数量时挂到最深的上级下
+      const depth = Math.min(record.depth, parents.length);
+      parents.length = depth;
+      if (depth === 0) {
+        roots.push(entry);
+      } else {
+        const parent = parents[depth - 1];
+        parent.children = parent.children ?? [];
+        parent.children.push(entry);
+      }
+      parents.push(entry);
+    }
+
+    return roots;
+  }
+
+  /**
+   * 读取以 null 结尾的 UTF-16LE 字符串
+   * @param data 数据
+   * @param offset 起始偏移
+   * @returns 字符串和之后的偏移，没有结束符时为 null
+   */
+  private static readUTF16String(
+    data: Buffer,
+    offset: number,
+  ): { value: string; nextOffset: number } | null {
+    for (let end = offset; end + 1 < data.length; end += 2) {
+      if (data[end] === 0 && data[end + 1] === 0) {
+        return {
+          value: data.subarray(offset, end).toString('utf16le'),
+          nextOffset: end + 2,
+        };
+      }
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,142 @@
+import type { ByteSource, ParsedCHM, TOCEntry } from '../types';
+import { InternalFileReader } from './internal-file-reader';
+import { StringTable } from './string-table';
+import { TopicTable } from './topic-table';
+import { CHM_SYSTEM_FILES } from '../../constants';
+
+/**
+ * #TOCIDX 项标志
+ */
+enum TOCFlags {
+  HasChildren = 0x04,
+  IsTopic = 0x08,
+}
+
+const TOC_ENTRY_SIZE = 0x14;
+
+/**
+ * 二进制目录（#TOCIDX）读取器
+ * 文件开头的 DWORD 是第一个顶层项的偏移。每一项：
+ * +0x04 DWORD 标志、+0x08 DWORD 主题编号（IsTopic）或 #STRINGS 名称偏移、
+ * +0x0C DWORD 父项偏移、+0x10 DWORD 下一个兄弟项偏移、
+ * +0x14 DWORD 第一个子项偏移（仅 HasChildren）
+ */
+export class BinaryTOCReader {
+  /**
+   * 从解析后的 CHM 结构读取二进制目录
+   * @param parsedCHM 解析后的 CHM 结构
+   * @param source 数据源
+   * @returns 目录树，缺少 #TOCIDX 时为 null
+   */
+  static load(parsedCHM: ParsedCHM, source: ByteSource): TOCEntry[] | null {
+    const reader = new InternalFileReader(parsedCHM, source);
+    const tocIndex = reader.read(CHM_SYSTEM_FILES.tocIndex);
+    if (!tocIndex) {
+      return null;
+    }
+
+    return this.parse(
+      tocIndex,
+      TopicTable.loadFrom(reader),
+      reader.read(CHM_SYSTEM_FILES.strings),
+      reader.encoding,
+    );
+  }
+
+  /**
+   * 解析 #TOCIDX
+   * @param tocIndex #TOCIDX 数据
+   * @param topics 主题表
+   * @param strings #STRINGS 数据
+   * @param encoding #STRINGS 的字符集
+   * @returns 目录树
+   */
+  static parse(
+    tocIndex: Buffer,
+    topics: TopicTable,
+    strings?: Buffer,
+    encoding: string = 'utf-8',
+  ): TOCEntry[] {
+    if (tocIndex.length < 4) {
+      return [];
+    }
+
+    return this.readSiblings(
+      tocIndex,
+      tocIndex.readUInt32LE(0),
+      0,
+      topics,
+      { data: strings, encoding },
+      new Set(),
+    );
+  }
+
+  /**
+   * 读取从指定偏移开始的同级项及其子项
+   * @param tocIndex #TOCIDX 数据
+   * @param offset 第一项的偏移
+   * @param level 层级
+   * @param topics 主题表
+   * @param strings #STRINGS 数据及其字符集
+   * @param visited 已访问的偏移，防止损坏的链接造成死循环
+   * @returns 同级目录项
+   */
+  private static readSiblings(
+    tocIndex: Buffer,
+    offset: number,
+    level: number,
+    topics: TopicTable,
+    strings: { data?: Buffer; encoding: string },
+    visited: Set<number>,
+  ): TOCEntry[] {
+    const entries: TOCEntry[] = [];
+
+    while (
+      offset !== 0 &&
+      offset + TOC_ENTRY_SIZE <= tocIndex.length &&
+      !visited.has(offset)
+    ) {
+      visited.add(offset);
+
+      const flags = tocIndex.readUInt32LE(offset + 4);
+      const value = tocIndex.readUInt32LE(offset + 8);
+      const next = tocIndex.readUInt32LE(offset + 0x10);
+
+      const entry: TOCEntry = { name: '', local: '', level };
+      if (flags & TOCFlags.IsTopic) {
+        const topic = topics.getTopic(value);
+        entry.name = topic?.title ?? '';
+        entry.local = topic?.local ?? '';
+      } else {
+        entry.name = StringTable.read(strings.data, value, strings.encoding);
+      }
+      entry.name = entry.name.trim();
+
+      if (
+        flags & TOCFlags.HasChildren &&
+        offset + TOC_ENTRY_SIZE + 4 <= tocIndex.length
+      ) {
+        const children = this.readSiblings(
+          tocIndex,
+          tocIndex.readUInt32LE(offset + TOC_ENTRY_SIZE),
+          level + 1,
+          topics,
+          strings,
+          visited,
+        );
+        if (children.length > 0) {
+          entry.children = children;
+        }
+      }
+
+      // 既不是主题也没有子项的项不会显示在目录中
+      if (flags & (TOCFlags.IsTopic | TOCFlags.HasChildren)) {
+        entries.push(entry);
+      }
+
+      offset = next;
+    }
+
+    return entries;
+  }
+}
@@ -0,0 +1,111 @@
+import type { ByteSource, ContextMapEntry, ParsedCHM } from '../types';
+import { InternalFileReader } from './internal-file-reader';
+import { StringTable } from './string-table';
+import { CHM_SYSTEM_FILES } from '../../constants';
+
+/**
+ * 上下文映射相关内部文件的原始数据
+ */
+export interface ContextMapFiles {
+  ivb: Buffer; // #IVB
+  strings?: Buffer; // #STRINGS
+  encoding?: string; // 字符串的字符集，默认为 UTF-8
+}
+
+const IVB_ENTRY_SIZE = 8;
+
+/**
+ * 上下文 ID 映射读取器
+ * #IVB 以 DWORD 数据长度开头，之后每 8 字节一项：
+ * DWORD 上下文 ID、DWORD 目标主题路径在 #STRINGS 中的偏移
+ */
+export class ContextMap {
+  private entries: ContextMapEntry[];
+  private byId: Map<number, ContextMapEntry>;
+
+  constructor(entries: ContextMapEntry[]) {
+    this.entries = entries;
+    this.byId = new Map();
+    for (const entry of entries) {
+      if (!this.byId.has(entry.id)) {
+        this.byId.set(entry.id, entry);
+      }
+    }
+  }
+
+  /**
+   * 从解析后的 CHM 结构读取上下文映射
+   * @param parsedCHM 解析后的 CHM 结构
+   * @param source 数据源
+   * @returns 上下文映射，缺少 #IVB 时为空映射
+   */
+  static load(parsedCHM: ParsedCHM, source: ByteSource): ContextMap {
+    const reader = new InternalFileReader(parsedCHM, source);
+    const ivb = reader.read(CHM_SYSTEM_FILES.contextMap);
+    if (!ivb) {
+      return new ContextMap([]);
+    }
+
+    return this.parse({
+      ivb,
+      strings: reader.read(CHM_SYSTEM_FILES.strings),
+      encoding: reader.encoding,
+    });
+  }
+
+  /**
+   * 解析上下文映射文件
+   * @param files 上下文映射相关内部文件
+   * @returns 上下文映射
+   */
+  static parse(files: ContextMapFiles): ContextMap {
+    if (files.ivb.length < 4) {
+      return new ContextMap([]);
+    }
+
+    // 数据长度不可信时以文件实际长度为准
+    const end = Math.min(4 + files.ivb.readUInt32LE(0), files.ivb.length);
+    const entries: ContextMapEntry[] = [];
+
+    for (
+      let offset = 4;
+      offset + IVB_ENTRY_SIZE <= end;
+      offset += IVB_ENTRY_SIZE
+    ) {
+      entries.push({
+        id: files.ivb.readUInt32LE(offset),
+        local: StringTable.read(
+          files.strings,
+          files.ivb.readUInt32LE(offset + 4),
+          files.encoding,
+        ),
+      });
+    }
+
+    return new ContextMap(entries);
+  }
+
+  /**
+   * 映射项数量
+   */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * 按上下文 ID 查找目标主题
+   * @param id 数字上下文 ID
+   * @returns 目标主题路径，没有映射时为 undefined
+   */
+  resolve(id: number): string | undefined {
+    return this.byId.get(id)?.local || undefined;
+  }
+
+  /**
+   * 获取全部映射项
+   * @returns 按 #IVB 中顺序排列的映射项
+   */
+  getEntries(): ContextMapEntry[] {
+    return [...this.entries];
+  }
+}
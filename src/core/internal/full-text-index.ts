@@ -0,0 +1,395 @@
+import type {
+  ByteSource,
+  FullTextMatch,
+  FullTextWord,
+  ParsedCHM,
+} from '../types';
+import { EncInt } from '../../utils/io/encint';
+import { Codepage } from '../../utils/encoding/codepage';
+import { InternalFileReader } from './internal-file-reader';
+import { StringTable } from './string-table';
+import { TopicTable } from './topic-table';
+import { CHM_SYSTEM_FILES } from '../../constants';
+
+/**
+ * $FIftiMain 头部中读取器需要的字段
+ */
+interface FullTextHeader {
+  rootOffset: number;
+  depth: number;
+  nodeLength: number;
+  documentRoot: number;
+  countRoot: number;
+  locationRoot: number;
+}
+
+/**
+ * 叶节点中的一个词条
+ */
+interface LeafEntry extends FullTextWord {
+  bytes: Buffer; // 词的原始字节，索引按字节顺序排列
+  wlcOffset: number; // 词位置码（WLC）在文件中的偏移
+  wlcLength: number;
+}
+
+const FTS_HEADER_SIZE = 0x32;
+const LEAF_HEADER_SIZE = 8;
+const INDEX_HEADER_SIZE = 2;
+const SUPPORTED_SCALE = 2;
+
+/**
+ * 按高位优先读取位的 WLC 读取器
+ */
+class WLCReader {
+  private data: Buffer;
+  private offset: number;
+  private bit: number;
+
+  constructor(data: Buffer) {
+    this.data = data;
+    this.offset = 0;
+    this.bit = 0;
+  }
+
+  /**
+   * 读取一位
+   * @returns 位值
+   */
+  readBit(): number {
+    if (this.offset >= this.data.length) {
+      throw new Error('WLC 数据超出文件范围');
+    }
+
+    const value = (this.data[this.offset]! >> (7 - this.bit)) & 1;
+    if (++this.bit === 8) {
+      this.bit = 0;
+      this.offset++;
+    }
+    return value;
+  }
+
+  /**
+   * 读取指定位数
+   * @param bits 位数
+   * @returns 数值
+   */
+  readBits(bits: number): number {
+    let value = 0;
+    for (let i = 0; i < bits; i++) {
+      value = value * 2 + this.readBit();
+    }
+    return value;
+  }
+
+  /**
+   * 读取比例为 2 的 scale/root 编码整数
+   * 前导 1 的个数 p 以 0 结束；p 为 0 时数值为之后的 root 位，
+   * 否则为 2^(root+p-1) 加上之后的 root+p-1 位
+   * @param root 根位数
+   * @returns 数值
+   */
+  readSR(root: number): number {
+    let prefix = 0;
+    while (this.readBit() === 1) {
+      prefix++;
+    }
+
+    if (prefix === 0) {
+      return this.readBits(root);
+    }
+
+    const bits = root + prefix - 1;
+    return 2 ** bits + this.readBits(bits);
+  }
+
+  /**
+   * 对齐到下一个字节边界
+   */
+  align(): void {
+    if (this.bit > 0) {
+      this.bit = 0;
+      this.offset++;
+    }
+  }
+}
+
+/**
+ * 全文索引（$FIftiMain）读取器
+ * 词条按字母顺序存放在 B 树的叶节点中，叶节点通过首个 DWORD 串成链表。
+ * 叶节点词条：BYTE 长度、BYTE 与上一个词共享的前缀字节数、词字节、
+ * BYTE 上下文（1 为标题）、ENCINT 主题数、DWORD WLC 偏移、WORD 0、ENCINT WLC 长度，
+ * 其中 ENCINT 低位组在前。
+ * 索引节点词条：BYTE 长度、BYTE 前缀长度、词字节、DWORD 子节点偏移、WORD 0。
+ * 每个主题的 WLC 依次是主题编号增量、位置码数量和位置增量，按 scale/root 编码并按字节对齐
+ */
+export class FullTextIndex {
+  private data: Buffer;
+  private topics: TopicTable;
+  private header: FullTextHeader;
+  private encoding: string;
+
+  constructor(data: Buffer, topics: TopicTable, encoding: string = 'utf-8') {
+    this.data = data;
+    this.topics = topics;
+    this.encoding = encoding;
+    this.header = FullTextIndex.parseHeader(data);
+  }
+
+  /**
+   * 从解析后的 CHM 结构读取全文索引
+   * @param parsedCHM 解析后的 CHM 结构
+   * @param source 数据源
+   * @returns 全文索引，缺少 $FIftiMain 时为 null
+   */
+  static load(parsedCHM: ParsedCHM, source: ByteSource): FullTextIndex | null {
+    const reader = new InternalFileReader(parsedCHM, source);
+    const data = reader.read(CHM_SYSTEM_FILES.fullTextIndex);
+    if (!data) {
+      return null;
+    }
+
+    return new FullTextIndex(
+      data,
+      TopicTable.loadFrom(reader),
+      reader.encoding,
+    );
+  }
+
+  /**
+   * 列出全部索引词
+   * @returns 按索引顺序排列的词条
+   */
+  getWords(): FullTextWord[] {
+    const words: FullTextWord[] = [];
+
+    this.visitLeaves(this.findLeaf(), entry => {
+      words.push({
+        word: entry.word,
+        inTitle: entry.inTitle,
+        documentCount: entry.documentCount,
+      });
+      return true;
+    });
+
+    return words;
+  }
+
+  /**
+   * 查询单个词
+   * @param word 要查询的词（不区分大小写）
+   * @returns 包含该词的主题及词的位置，标题中的匹配在前
+   */
+  search(word: string): FullTextMatch[] {
+    const query = word.trim().toLowerCase();
+    if (!query) {
+      return [];
+    }
+
+    // 索引词按代码页字节排序，用编码后的查询词比较顺序
+    const queryBytes = Codepage.encode(query, this.encoding);
+    const leaf = this.findLeaf(queryBytes);
+    if (leaf === null) {
+      return [];
+    }
+
+    const matches: FullTextMatch[] = [];
+    this.visitLeaves(leaf, entry => {
+      if (entry.word.toLowerCase() === query) {
+        matches.push(...this.readLocations(entry));
+      }
+      return Buffer.compare(entry.bytes, queryBytes) <= 0;
+    });
+
+    return matches.sort((a, b) => Number(b.inTitle) - Number(a.inTitle));
+  }
+
+  /**
+   * 解析头部
+   * @param data $FIftiMain 数据
+   * @returns 头部字段
+   */
+  private static parseHeader(data: Buffer): FullTextHeader {
+    if (data.length < FTS_HEADER_SIZE) {
+      throw new Error(`$FIftiMain 文件过短: ${data.length} 字节`);
+    }
+
+    const scales = [data[0x1e], data[0x20], data[0x22]];
+    if (scales.some(scale => scale !== SUPPORTED_SCALE)) {
+      throw new Error(`不支持的全文索引编码比例: ${scales.join(', ')}`);
+    }
+
+    return {
+      rootOffset: data.readUInt32LE(0x14),
+      depth: data.readUInt16LE(0x18),
+      documentRoot: data[0x1f]!,
+      countRoot: data[0x21]!,
+      locationRoot: data[0x23]!,
+      nodeLength: data.readUInt32LE(0x2e),
+    };
+  }
+
+  /**
+   * 从根节点向下查找叶节点
+   * @param query 编码后的小写查询词；省略时返回第一个叶节点
+   * @returns 叶节点偏移，查询词大于所有索引词时为 null
+   */
+  private findLeaf(query?: Buffer): number | null {
+    let offset = this.header.rootOffset;
+
+    for (let level = 1; level < this.header.depth; level++) {
+      const end = this.nodeEnd(offset, this.data.readUInt16LE(offset));
+      let child: number | null = null;
+      let previous = Buffer.alloc(0);
+
+      // 索引词是子节点中的最后一个词，找到第一个不小于查询词的索引词
+      for (let i = offset + INDEX_HEADER_SIZE; i < end; ) {
+        const { bytes, nextOffset } = this.readWord(i, previous);
+        previous = bytes;
+
+        if (query === undefined || Buffer.compare(query, bytes) <= 0) {
+          child = this.data.readUInt32LE(nextOffset);
+          break;
+        }
+        i = nextOffset + 6;
+      }
+
+      if (child === null) {
+        return null;
+      }
+      offset = child;
+    }
+
+    return offset;
+  }
+
+  /**
+   * 从指定叶节点开始按顺序访问词条
+   * @param offset 叶节点偏移
+   * @param visitor 访问函数，返回 false 时停止
+   */
+  private visitLeaves(
+    offset: number | null,
+    visitor: (entry: LeafEntry) => boolean,
+  ): void {
+    const visited = new Set<number>();
+
+    while (offset !== null && offset !== 0 && !visited.has(offset)) {
+      if (offset + LEAF_HEADER_SIZE > this.data.length) {
+        return;
+      }
+      visited.add(offset);
+
+      const next = this.data.readUInt32LE(offset);
+      const end = this.nodeEnd(offset, this.data.readUInt16LE(offset + 6));
+      let previous = Buffer.alloc(0);
+
+      for (let i = offset + LEAF_HEADER_SIZE; i < end; ) {
+        const { bytes, nextOffset } = this.readWord(i, previous);
+        previous = bytes;
+
+        const inTitle = this.data[nextOffset] === 1;
+        const documentCount = EncInt.readLowFirst(this.data, nextOffset + 1);
+        const wlcOffset = this.data.readUInt32LE(documentCount.nextOffset);
+        const wlcLength = EncInt.readLowFirst(
+          this.data,
+          documentCount.nextOffset + 6,
+        );
+        i = wlcLength.nextOffset;
+
+        const keepGoing = visitor({
+          word: StringTable.decode(bytes, this.encoding),
+          bytes,
+          inTitle,
+          documentCount: documentCount.value,
+          wlcOffset,
+          wlcLength: wlcLength.value,
+        });
+        if (!keepGoing) {
+          return;
+        }
+      }
+
+      offset = next;
+    }
+  }
+
+  /**
+   * 读取前缀压缩的词
+   * 共享前缀以字节计，需要在解码前与上一个词的字节拼接
+   * @param offset 词条偏移（长度字节）
+   * @param previous 上一个词的字节
+   * @returns 完整的词字节和词字节之后的偏移
+   */
+  private readWord(
+    offset: number,
+    previous: Buffer,
+  ): { bytes: Buffer; nextOffset: number } {
+    const length = this.data[offset]!;
+    const shared = this.data[offset + 1]!;
+    const start = offset + 2;
+    const end = start + length - 1;
+    if (length === 0 || end > this.data.length) {
+      throw new Error(`全文索引词条损坏: 偏移 ${offset}`);
+    }
+
+    return {
+      bytes: Buffer.concat([
+        previous.subarray(0, shared),
+        this.data.subarray(start, end),
+      ]),
+      nextOffset: end,
+    };
+  }
+
+  /**
+   * 解码词条的 WLC，得到各主题中的位置
+   * @param entry 叶节点词条
+   * @returns 查询结果
+   */
+  private readLocations(entry: LeafEntry): FullTextMatch[] {
+    const { documentRoot, countRoot, locationRoot } = this.header;
+    const reader = new WLCReader(
+      this.data.subarray(entry.wlcOffset, entry.wlcOffset + entry.wlcLength),
+    );
+    const matches: FullTextMatch[] = [];
+    let topicIndex = 0;
+
+    for (let i = 0; i < entry.documentCount; i++) {
+      reader.align();
+      topicIndex += reader.readSR(documentRoot);
+
+      const count = reader.readSR(countRoot);
+      const locations: number[] = [];
+      let location = 0;
+      for (let j = 0; j < count; j++) {
+        location += reader.readSR(locationRoot);
+        locations.push(location);
+      }
+
+      matches.push({
+        topic: this.topics.getTopic(topicIndex) ?? {
+          index: topicIndex,
+          title: '',
+          local: '',
+        },
+        inTitle: entry.inTitle,
+        locations,
+      });
+    }
+
+    return matches;
+  }
+
+  /**
+   * 计算节点中有效数据的结束偏移
+   * @param offset 节点偏移
+   * @param freeSpace 节点末尾的空闲字节数
+   * @returns 结束偏移
+   */
+  private nodeEnd(offset: number, freeSpace: number): number {
+    return Math.min(
+      offset + this.header.nodeLength - freeSpace,
+      this.data.length,
+    );
+  }
+}
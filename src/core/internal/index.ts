@@ -0,0 +1,16 @@
+/**
+ * CHM 内部文件模块
+ * 集中管理 #SYSTEM、主题表、上下文映射、二进制目录、索引和全文索引等内部元数据文件的解析
+ */
+
+export { SystemFileParser } from './system-file';
+export { TopicTable } from './topic-table';
+export { ContextMap } from './context-map';
+export { BinaryTOCReader } from './binary-toc';
+export { BinaryIndexReader } from './binary-index';
+export type { BinaryIndexKind } from './binary-index';
+export { FullTextIndex } from './full-text-index';
+export { InternalFileReader } from './internal-file-reader';
+export { StringTable } from './string-table';
+export type { TopicTableFiles } from './topic-table';
+export type { ContextMapFiles } from './context-map';
@@ -0,0 +1,54 @@
+import type { ByteSource, ParsedCHM } from '../types';
+import { CHMFileManager } from '../files/file-manager';
+import { FileReconstructor } from '../files/file-reconstructor';
+import { Codepage } from '../../utils/encoding/codepage';
+import { SystemFileParser } from './system-file';
+import { CHM_SYSTEM_FILES } from '../../constants';
+
+/**
+ * 内部文件读取器
+ * 读取 #TOPICS、#TOCIDX 等可能不存在的内部文件，共享同一个文件重组器
+ */
+export class InternalFileReader {
+  private fileManager: CHMFileManager;
+  private reconstructor: FileReconstructor;
+  private source: ByteSource;
+  private parsedCHM: ParsedCHM;
+  private charset?: string;
+
+  constructor(parsedCHM: ParsedCHM, source: ByteSource) {
+    this.parsedCHM = parsedCHM;
+    this.fileManager = new CHMFileManager(parsedCHM);
+    this.reconstructor = new FileReconstructor(parsedCHM);
+    this.source = source;
+  }
+
+  /**
+   * 读取内部文件
+   * @param fileName 文件名
+   * @returns 文件数据，文件不存在时为 undefined
+   */
+  read(fileName: string): Buffer | undefined {
+    if (!this.fileManager.findFileEntry(fileName)) {
+      return undefined;
+    }
+
+    return this.reconstructor.reconstructFile(fileName, this.source).data;
+  }
+
+  /**
+   * 内部字符串使用的字符集
+   * 优先使用 #SYSTEM 中的 LCID，没有时使用 ITSF 头部的语言 ID
+   */
+  get encoding(): string {
+    if (this.charset === undefined) {
+      const system = this.read(CHM_SYSTEM_FILES.system);
+      const lcid =
+        (system && SystemFileParser.parse(system).lcid) ??
+        this.parsedCHM.header.itsf.languageId;
+      this.charset = Codepage.charsetForLCID(lcid);
+    }
+
+    return this.charset;
+  }
+}
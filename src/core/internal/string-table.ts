@@ -0,0 +1,41 @@
+import { Codepage } from '../../utils/encoding/codepage';
+
+/**
+ * 内部字符串表读取工具
+ * #STRINGS、#URLSTR 等文件由以 null 结尾的字符串组成，通过偏移引用，
+ * 字符串按 CHM 语言（LCID）的 ANSI 代码页存储
+ */
+export class StringTable {
+  /**
+   * 读取指定偏移处以 null 结尾的字符串
+   * @param data 文件数据
+   * @param offset 字符串偏移
+   * @param encoding 字符集
+   * @returns 字符串，数据缺失或越界时为空字符串
+   */
+  static read(
+    data: Buffer | undefined,
+    offset: number,
+    encoding: string = 'utf-8',
+  ): string {
+    if (!data || offset < 0 || offset >= data.length) {
+      return '';
+    }
+
+    const end = data.indexOf(0, offset);
+    return this.decode(
+      data.subarray(offset, end === -1 ? data.length : end),
+      encoding,
+    );
+  }
+
+  /**
+   * 解码内部文件中的字符串字节
+   * @param bytes 字符串字节
+   * @param encoding 字符集
+   * @returns 字符串
+   */
+  static decode(bytes: Buffer, encoding: string = 'utf-8'): string {
+    return Codepage.decode(bytes, encoding);
+  }
+}
@@ -0,0 +1,187 @@
+import type { CHMMetadata, SystemFile } from '../types';
+import { BitReader } from '../../utils/io/bit-reader';
+import { BinaryDataReader } from '../../utils/io/binary-data-reader';
+import { Codepage } from '../../utils/encoding/codepage';
+
+/**
+ * #SYSTEM 记录代码
+ */
+enum SystemCode {
+  ContentsFile = 0,
+  IndexFile = 1,
+  DefaultTopic = 2,
+  Title = 3,
+  LocaleInfo = 4,
+  DefaultWindow = 5,
+  CompiledFile = 6,
+  BinaryIndex = 7,
+  CompilerVersion = 9,
+  BinaryTOC = 11,
+  DefaultFont = 16,
+}
+
+/**
+ * #SYSTEM 文件解析器
+ * 文件以 DWORD 版本号开头，之后是若干条记录：
+ * WORD 代码、WORD 数据长度、数据
+ */
+export class SystemFileParser {
+  /**
+   * 解析 #SYSTEM 文件
+   * @param data 文件数据
+   * @param encoding 字符串的字符集，省略时按记录中的 LCID 确定
+   * @returns 解析后的 #SYSTEM 信息
+   */
+  static parse(data: Buffer, encoding?: string): SystemFile {
+    if (data.length < 4) {
+      throw new Error(`#SYSTEM 文件过短: ${data.length} 字节`);
+    }
+
+    const reader = new BinaryDataReader(new BitReader(data));
+    const system: SystemFile = { version: reader.readInt(4) };
+
+    // 记录不完整时停止解析，保留已读取的内容
+    const records: Array<{ code: number; data: Buffer }> = [];
+    while (reader.remainingBytes() >= 4) {
+      const code = reader.readInt(2);
+      const length = reader.readInt(2);
+      if (length > reader.remainingBytes()) {
+        break;
+      }
+
+      records.push({ code, data: reader.readBytes(length) });
+    }
+
+    // 区域信息决定字符串的代码页，可能排在字符串记录之后，因此先解析
+    const locale = records.find(
+      record => record.code === SystemCode.LocaleInfo,
+    );
+    if (locale) {
+      this.parseLocaleInfo(system, locale.data);
+    }
+
+    const charset =
+      encoding ??
+      (system.lcid !== undefined
+        ? Codepage.charsetForLCID(system.lcid)
+        : 'utf-8');
+    for (const record of records) {
+      this.parseRecord(system, record.code, record.data, charset);
+    }
+
+    return system;
+  }
+
+  /**
+   * 解析单条记录
+   * @param system 解析结果
+   * @param code 记录代码
+   * @param data 记录数据
+   * @param charset 字符串的字符集
+   */
+  private static parseRecord(
+    system: SystemFile,
+    code: number,
+    data: Buffer,
+    charset: string,
+  ): void {
+    switch (code) {
+      case SystemCode.ContentsFile:
+        system.contentsFile = this.readString(data, charset);
+        break;
+      case SystemCode.IndexFile:
+        system.indexFile = this.readString(data, charset);
+        break;
+      case SystemCode.DefaultTopic:
+        system.defaultTopic = this.readString(data, charset);
+        break;
+      case SystemCode.Title:
+        system.title = this.readString(data, charset);
+        break;
+      case SystemCode.DefaultWindow:
+        system.defaultWindow = this.readString(data, charset);
+        break;
+      case SystemCode.CompiledFile:
+        system.compiledFile = this.readString(data, charset);
+        break;
+      case SystemCode.BinaryIndex:
+        system.binaryIndex = true;
+        break;
+      case SystemCode.CompilerVersion:
+        system.compilerVersion = this.readString(data, charset);
+        break;
+      case SystemCode.BinaryTOC:
+        system.binaryTOC = true;
+        break;
+      case SystemCode.DefaultFont:
+        system.defaultFont = this.readString(data, charset);
+        break;
+      default:
+        // 区域信息已预先解析；其他记录（信息类型、#IDXHDR 副本等）暂不需要
+        break;
+    }
+  }
+
+  /**
+   * 解析代码 4 的区域信息：LCID、DBCS、全文搜索、KLinks、ALinks 标志和编译时间
+   * @param system 解析结果
+   * @param data 记录数据
+   */
+  private static parseLocaleInfo(system: SystemFile, data: Buffer): void {
+    if (data.length >= 4) system.lcid = data.readUInt32LE(0);
+    if (data.length >= 8) system.dbcs = data.readUInt32LE(4) !== 0;
+    if (data.length >= 12) system.fullTextSearch = data.readUInt32LE(8) !== 0;
+    if (data.length >= 16) system.hasKLinks = data.readUInt32LE(12) !== 0;
+    if (data.length >= 20) system.hasALinks = data.readUInt32LE(16) !== 0;
+
+    if (data.length >= 28 && data.readBigUInt64LE(20) > 0n) {
+      const reader = new BinaryDataReader(new BitReader(data.subarray(20, 28)));
+      system.timestamp = reader.readFileTime();
+    }
+  }
+
+  /**
+   * 读取以 null 结尾的字符串
+   * @param data 记录数据
+   * @param charset 字符集
+   * @returns 字符串
+   */
+  private static readString(data: Buffer, charset: string): string {
+    const end = data.indexOf(0);
+    return Codepage.decode(
+      data.subarray(0, end === -1 ? data.length : end),
+      charset,
+    );
+  }
+
+  /**
+   * 将 #SYSTEM 信息转换为 CHM 元数据
+   * @param system #SYSTEM 信息
+   * @returns CHM 元数据
+   */
+  static toMetadata(system: SystemFile): CHMMetadata {
+    const metadata: CHMMetadata = {
+      title: system.title,
+      defaultTopic: system.defaultTopic,
+      defaultWindow: system.defaultWindow,
+      homePage: system.defaultTopic,
+      toc: system.contentsFile,
+      index: system.indexFile,
+      lcid: system.lcid,
+      language:
+        system.lcid !== undefined
+          ? `0x${system.lcid.toString(16).padStart(4, '0')}`
+          : undefined,
+      compilerVersion: system.compilerVersion,
+      binaryTOC: system.binaryTOC ?? false,
+      binaryIndex: system.binaryIndex ?? false,
+      fullTextSearch: system.fullTextSearch,
+      createdTime: system.timestamp,
+    };
+
+    // 去掉未出现的字段
+    return Object.fromEntries(
+      Object.entries(metadata).filter(([, value]) => value !== undefined),
+    ) as CHMMetadata;
+  }
+}
@@ -0,0 +1,201 @@
+import type { ByteSource, ParsedCHM, TopicEntry } from '../types';
+import { InternalFileReader } from './internal-file-reader';
+import { StringTable } from './string-table';
+import { CHM_SYSTEM_FILES } from '../../constants';
+
+/**
+ * 主题表相关内部文件的原始数据
+ */
+export interface TopicTableFiles {
+  topics: Buffer; // #TOPICS
+  urlTable?: Buffer; // #URLTBL
+  urlStrings?: Buffer; // #URLSTR
+  strings?: Buffer; // #STRINGS
+  encoding?: string; // 字符串的字符集，默认为 UTF-8
+}
+
+const TOPIC_ENTRY_SIZE = 16;
+const URL_TABLE_ENTRY_SIZE = 12;
+const NO_STRING = 0xffffffff;
+
+/**
+ * 主题表读取器
+ * #TOPICS 每 16 字节一项：DWORD #TOCIDX 偏移、DWORD #STRINGS 标题偏移、
+ * DWORD #URLTBL 偏移、WORD 目录标志、WORD 未知；
+ * #URLTBL 每 12 字节一项：DWORD 未知、DWORD 主题编号、DWORD #URLSTR 偏移；
+ * #URLSTR 记录为 DWORD URL 偏移、DWORD 框架名偏移、以 null 结尾的本地路径
+ */
+export class TopicTable {
+  private topics: TopicEntry[];
+  private byLocal: Map<string, TopicEntry>;
+
+  constructor(topics: TopicEntry[]) {
+    this.topics = topics;
+    this.byLocal = new Map();
+    for (const topic of topics) {
+      const key = TopicTable.normalizeLocal(topic.local);
+      if (key && !this.byLocal.has(key)) {
+        this.byLocal.set(key, topic);
+      }
+    }
+  }
+
+  /**
+   * 从解析后的 CHM 结构读取主题表
+   * @param parsedCHM 解析后的 CHM 结构
+   * @param source 数据源
+   * @returns 主题表，缺少 #TOPICS 时为空表
+   */
+  static load(parsedCHM: ParsedCHM, source: ByteSource): TopicTable {
+    return this.loadFrom(new InternalFileReader(parsedCHM, source));
+  }
+
+  /**
+   * 通过内部文件读取器读取主题表
+   * @param reader 内部文件读取器
+   * @returns 主题表，缺少 #TOPICS 时为空表
+   */
+  static loadFrom(reader: InternalFileReader): TopicTable {
+    const topics = reader.read(CHM_SYSTEM_FILES.topics);
+    if (!topics) {
+      return new TopicTable([]);
+    }
+
+    return this.parse({
+      topics,
+      urlTable: reader.read(CHM_SYSTEM_FILES.urlTable),
+      urlStrings: reader.read(CHM_SYSTEM_FILES.urlStrings),
+      strings: reader.read(CHM_SYSTEM_FILES.strings),
+      encoding: reader.encoding,
+    });
+  }
+
+  /**
+   * 解析主题表文件
+   * @param files 主题表相关内部文件
+   * @returns 主题表
+   */
+  static parse(files: TopicTableFiles): TopicTable {
+    const count = Math.floor(files.topics.length / TOPIC_ENTRY_SIZE);
+    const topics: TopicEntry[] = [];
+
+    for (let index = 0; index < count; index++) {
+      const offset = index * TOPIC_ENTRY_SIZE;
+      const titleOffset = files.topics.readUInt32LE(offset + 4);
+      const urlTableOffset = files.topics.readUInt32LE(offset + 8);
+
+      const topic: TopicEntry = {
+        index,
+        title:
+          titleOffset === NO_STRING
+            ? ''
+            : StringTable.read(files.strings, titleOffset, files.encoding),
+        local: '',
+      };
+
+      const urlStringOffset = this.readURLTableEntry(
+        files.urlTable,
+        urlTableOffset,
+      );
+      if (urlStringOffset !== undefined) {
+        this.readURLString(
+          files.urlStrings,
+          urlStringOffset,
+          topic,
+          files.encoding,
+        );
+      }
+
+      topics.push(topic);
+    }
+
+    return new TopicTable(topics);
+  }
+
+  /**
+   * 主题数量
+   */
+  get size(): number {
+    return this.topics.length;
+  }
+
+  /**
+   * 按编号获取主题
+   * @param index 主题编号
+   * @returns 主题，不存在时为 undefined
+   */
+  getTopic(index: number): TopicEntry | undefined {
+    return this.topics[index];
+  }
+
+  /**
+   * 按本地路径查找主题（不区分大小写，忽略开头的 /）
+   * @param local CHM 内的文件路径
+   * @returns 主题，不存在时为 undefined
+   */
+  findByLocal(local: string): TopicEntry | undefined {
+    return this.byLocal.get(TopicTable.normalizeLocal(local));
+  }
+
+  /**
+   * 获取全部主题
+   * @returns 按编号排列的主题数组
+   */
+  getTopics(): TopicEntry[] {
+    return [...this.topics];
+  }
+
+  /**
+   * 读取 #URLTBL 项中的 #URLSTR 偏移
+   * @param data #URLTBL 数据
+   * @param offset 项偏移
+   * @returns #URLSTR 偏移，项不存在时为 undefined
+   */
+  private static readURLTableEntry(
+    data: Buffer | undefined,
+    offset: number,
+  ): number | undefined {
+    if (!data || offset + URL_TABLE_ENTRY_SIZE > data.length) {
+      return undefined;
+    }
+
+    return data.readUInt32LE(offset + 8);
+  }
+
+  /**
+   * 读取 #URLSTR 记录，填充主题的本地路径和外部 URL
+   * @param data #URLSTR 数据
+   * @param offset 记录偏移
+   * @param topic 主题
+   * @param encoding 字符集
+   */
+  private static readURLString(
+    data: Buffer | undefined,
+    offset: number,
+    topic: TopicEntry,
+    encoding?: string,
+  ): void {
+    if (!data || offset + 8 > data.length) {
+      return;
+    }
+
+    const urlOffset = data.readUInt32LE(offset);
+    topic.local = StringTable.read(data, offset + 8, encoding);
+
+    if (urlOffset !== 0 && urlOffset < data.length) {
+      const url = StringTable.read(data, urlOffset, encoding);
+      if (url) {
+        topic.url = url;
+      }
+    }
+  }
+
+  /**
+   * 规范化本地路径用于查找
+   * @param local 本地路径
+   * @returns 小写且不带开头 / 的路径
+   */
+  private static normalizeLocal(local: string): string {
+    return local.replace(/^\/+/, '').toLowerCase();
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Intel E8 调用翻译
+ * x86 CALL 指令（0xE8）之后的 32 位相对地址在压缩前被改写为绝对地址，
+ * 使同一目标的多次调用产生相同的字节序列，提高匹配率。
+ * 翻译以 32KB 帧为单位进行：只处理帧内前 (帧长 - 10) 个字节中的 0xE8，
+ * 帧长不超过 10 字节或位于第 32768 帧之后时不处理
+ */
+export class IntelE8 {
+  private static readonly FRAME_SIZE = 0x8000;
+  private static readonly MAX_FRAMES = 32768;
+  private static readonly TAIL_SIZE = 10;
+
+  /**
+   * 压缩前把相对地址改写为绝对地址（原地修改）
+   * @param frame 一帧数据
+   * @param position 帧在未压缩数据中的偏移
+   * @param fileSize 翻译大小（流头部中的 E8 文件大小）
+   */
+  static encode(frame: Buffer, position: number, fileSize: number): void {
+    this.translate(frame, position, (relative, current) => {
+      if (relative < -current || relative >= fileSize) {
+        return relative;
+      }
+      return relative < fileSize - current
+        ? relative + current
+        : relative - fileSize;
+    });
+  }
+
+  /**
+   * 解压后把绝对地址还原为相对地址（原地修改）
+   * @param frame 一帧数据
+   * @param position 帧在未压缩数据中的偏移
+   * @param fileSize 翻译大小（流头部中的 E8 文件大小）
+   */
+  static decode(frame: Buffer, position: number, fileSize: number): void {
+    this.translate(frame, position, (absolute, current) => {
+      if (absolute < -current || absolute >= fileSize) {
+        return absolute;
+      }
+      return absolute >= 0 ? absolute - current : absolute + fileSize;
+    });
+  }
+
+  /**
+   * 遍历帧中的 0xE8 并改写其后的 32 位地址
+   * @param frame 一帧数据
+   * @param position 帧在未压缩数据中的偏移
+   * @param convert 地址转换函数，参数为原地址和 0xE8 所在的偏移
+   */
+  private static translate(
+    frame: Buffer,
+    position: number,
+    convert: (value: number, current: number) => number,
+  ): void {
+    if (
+      frame.length <= this.TAIL_SIZE ||
+      position / this.FRAME_SIZE >= this.MAX_FRAMES
+    ) {
+      return;
+    }
+
+    const end = frame.length - this.TAIL_SIZE;
+    for (let i = 0; i < end; i++) {
+      if (frame[i] !== 0xe8) {
+        continue;
+      }
+
+      const value = frame.readInt32LE(i + 1);
+      const converted = convert(value, position + i);
+      if (converted !== value) {
+        frame.writeInt32LE(converted, i + 1);
+      }
+      i += 4;
+    }
+  }
+}
@@ -1,13 +1,8 @@
-import type {
-  LZXBlock,
-  LZXCHeader,
-  HuffmanDecoder,
-  HuffmanTree,
-} from '../types';
-import type { BitReader } from '../../utils/io/bit-reader';
+import type { LZXBlock, LZXCHeader, HuffmanDecoder } from '../types';
+import type { LZXBitReader } from '../../utils/io/lzx-bit-reader';
 import { SlidingWindow } from './sliding-window';
-import { ResetTableProcessor } from './reset-table';
 import { Huffman } from '../../utils/compression/huffman';
+import { IntelE8 } from './intel-e8';
 
 /**
  * LZX 块类型常量
@@ -24,32 +19,75 @@ enum LZXBlockType {
  */
 export class LZXDecoder {
   private window: SlidingWindow;
-  private _resetProcessor: ResetTableProcessor; // 将来会使用
   private huffmanDecoder: HuffmanDecoder | null = null;
   private windowSize: number;
   private resetInterval: number;
+  private positionSlots: number;
+
+  // 跨块保留的码长（新块的码长以差值形式编码）
+  private mainLengths: number[];
+  private lengthLengths: number[];
+
+  // 重复偏移队列 R0/R1/R2
+  private repeatedOffsets: [number, number, number] = [1, 1, 1];
+
+  // 流头部状态
+  private headerRead = false;
+  private intelFileSize = 0;
+
+  // 当前块状态
+  private currentBlock: LZXBlock | null = null;
 
   // LZX 常量
   private static readonly NUM_CHARS = 256;
   private static readonly PRETREE_NUM_ELEMENTS = 20;
-  private static readonly _ALIGNED_NUM_ELEMENTS = 8; // 将来会使用
+  private static readonly ALIGNED_NUM_ELEMENTS = 8;
   private static readonly NUM_PRIMARY_LENGTHS = 7;
   private static readonly NUM_SECONDARY_LENGTHS = 249;
+  private static readonly MIN_MATCH = 2;
+  private static readonly FRAME_SIZE = 0x8000;
+
+  // 窗口位数 (15-21) 对应的位置槽数量
+  private static readonly POSITION_SLOTS: Record<number, number> = {
+    15: 30,
+    16: 32,
+    17: 34,
+    18: 36,
+    19: 38,
+    20: 42,
+    21: 50,
+  };
+
+  // 每个位置槽的额外位数和基础偏移
+  private static readonly EXTRA_BITS: number[] = LZXDecoder.buildExtraBits();
+  private static readonly POSITION_BASE: number[] =
+    LZXDecoder.buildPositionBase();
 
   constructor(lzxcHeader: LZXCHeader) {
     this.windowSize = lzxcHeader.windowSize;
     this.resetInterval = lzxcHeader.resetInterval;
     this.window = new SlidingWindow(this.windowSize);
-    this._resetProcessor = new ResetTableProcessor();
+    this.positionSlots = LZXDecoder.getPositionSlots(this.windowSize);
+    this.mainLengths = new Array(
+      LZXDecoder.NUM_CHARS + this.positionSlots * 8,
+    ).fill(0);
+    this.lengthLengths = new Array(LZXDecoder.NUM_SECONDARY_LENGTHS).fill(0);
   }
 
   /**
-   * 解码 LZX 数据块
-   * @param reader 位读取器
+   * 解码 LZX 数据
+   * 读取器必须位于一个重置点，解码过程中按重置间隔自动重置状态。
+   * 启用 Intel E8 预处理时按帧还原调用地址，最后一帧必须是完整的帧或流的末尾
+   * @param reader LZX 位读取器
    * @param uncompressedSize 预期的未压缩大小
+   * @param outputOffset 重置点在未压缩数据中的偏移（E8 还原需要）
    * @returns 解码后的数据
    */
-  decode(reader: BitReader, uncompressedSize: number): Buffer {
+  decode(
+    reader: LZXBitReader,
+    uncompressedSize: number,
+    outputOffset: number = 0,
+  ): Buffer {
     const result = Buffer.alloc(uncompressedSize);
     let outputPosition = 0;
 
@@ -57,80 +95,191 @@ export class LZXDecoder {
     this.reset();
 
     while (outputPosition < uncompressedSize) {
-      // 读取块头
-      const block = this.readBlockHeader(reader);
+      // 到达重置间隔时重置状态
+      if (
+        outputPosition > 0 &&
+        this.resetInterval > 0 &&
+        outputPosition % this.resetInterval === 0
+      ) {
+        this.resetState();
+      }
 
-      // 解码块数据
-      const decodedData = this.decodeBlock(reader, block);
+      if (!this.headerRead) {
+        this.readStreamHeader(reader);
+      }
 
-      // 将解码数据写入结果缓冲区
-      const bytesToCopy = Math.min(
-        decodedData.length,
+      const frameSize = Math.min(
+        LZXDecoder.FRAME_SIZE,
         uncompressedSize - outputPosition,
       );
+      const isLastFrame = outputPosition + frameSize >= uncompressedSize;
+      const frameStart = this.window.position;
 
-      decodedData.copy(result, outputPosition, 0, bytesToCopy);
-      outputPosition += bytesToCopy;
+      this.decodeFrame(reader, frameSize, isLastFrame);
 
-      // 更新滑动窗口
-      this.window.write(decodedData.subarray(0, bytesToCopy));
+      // 将帧数据写入结果缓冲区
+      this.window.data.copy(
+        result,
+        outputPosition,
+        frameStart,
+        frameStart + frameSize,
+      );
+
+      // 窗口保留翻译后的数据供后续匹配使用，只还原输出
+      if (this.intelFileSize > 0) {
+        IntelE8.decode(
+          result.subarray(outputPosition, outputPosition + frameSize),
+          outputOffset + outputPosition,
+          this.intelFileSize,
+        );
+      }
+      outputPosition += frameSize;
+
+      // 每帧结束后位流对齐到 16 位边界
+      if (!isLastFrame) {
+        reader.align();
+      }
     }
 
     return result;
   }
 
+  /**
+   * 读取流头部（Intel E8 预处理标志）
+   * @param reader LZX 位读取器
+   */
+  private readStreamHeader(reader: LZXBitReader): void {
+    if (reader.read(1)) {
+      const high = reader.read(16);
+      const low = reader.read(16);
+      this.intelFileSize = high * 0x10000 + low;
+    } else {
+      this.intelFileSize = 0;
+    }
+
+    this.headerRead = true;
+  }
+
+  /**
+   * 解码一个 32KB 帧
+   * @param reader LZX 位读取器
+   * @param frameSize 帧大小
+   * @param isLastFrame 是否为本次解码的最后一帧
+   */
+  private decodeFrame(
+    reader: LZXBitReader,
+    frameSize: number,
+    isLastFrame: boolean,
+  ): void {
+    let remaining = frameSize;
+
+    while (remaining > 0) {
+      if (!this.currentBlock || this.currentBlock.remaining === 0) {
+        this.currentBlock = this.readBlockHeader(reader);
+      }
+
+      const block = this.currentBlock;
+      const run = Math.min(block.remaining, remaining);
+      const produced = this.decodeBlock(reader, block, run);
+
+      // 匹配只允许越过本次请求的末尾，不允许跨越块或帧边界
+      if (produced > run && !(isLastFrame && run === remaining)) {
+        throw new Error(`LZX 匹配越过块边界: 超出 ${produced - run} 字节`);
+      }
+
+      block.remaining = Math.max(0, block.remaining - produced);
+      remaining -= produced;
+
+      // 长度为奇数的未压缩块之后有一个填充字节，在块结束时立即跳过：
+      // 块恰好在重置点结束时，重置会丢弃当前块的信息
+      if (
+        block.remaining === 0 &&
+        block.type === LZXBlockType.UNCOMPRESSED &&
+        block.uncompressedSize & 1 &&
+        !(isLastFrame && remaining === 0)
+      ) {
+        reader.readBytes(1);
+      }
+    }
+  }
+
   /**
    * 读取块头信息
-   * @param reader 位读取器
+   * @param reader LZX 位读取器
    * @returns 块信息
    */
-  private readBlockHeader(reader: BitReader): LZXBlock {
+  private readBlockHeader(reader: LZXBitReader): LZXBlock {
     // 读取块类型 (3 位)
     const blockType = reader.read(3);
 
     // 读取未压缩大小 (24 位)
-    const uncompressedSize = reader.read(24);
+    const uncompressedSize = reader.read(16) * 256 + reader.read(8);
+
+    switch (blockType) {
+      case LZXBlockType.VERBATIM:
+      case LZXBlockType.ALIGNED:
+        this.huffmanDecoder = this.readHuffmanTables(
+          reader,
+          blockType === LZXBlockType.ALIGNED,
+        );
+        break;
 
-    let alignedOffset: number | undefined;
+      case LZXBlockType.UNCOMPRESSED:
+        this.readUncompressedHeader(reader);
+        break;
 
-    // 如果是对齐块，读取对齐偏移
-    if (blockType === LZXBlockType.ALIGNED) {
-      alignedOffset = reader.read(3);
+      default:
+        throw new Error(`不支持的 LZX 块类型: ${blockType}`);
     }
 
-    const block: LZXBlock = {
+    return {
       type: blockType,
       uncompressedSize,
-      data: Buffer.alloc(0), // 临时占位，稍后填充
+      remaining: uncompressedSize,
     };
+  }
 
-    if (alignedOffset !== undefined) {
-      block.alignedOffset = alignedOffset;
+  /**
+   * 读取未压缩块头部（对齐填充和 R0-R2）
+   * @param reader LZX 位读取器
+   */
+  private readUncompressedHeader(reader: LZXBitReader): void {
+    // 对齐到 16 位边界；已对齐时跳过一个完整的填充字
+    if (reader.bitPosition === 0) {
+      reader.skip(16);
+    } else {
+      reader.align();
     }
 
-    return block;
+    const header = reader.readBytes(12);
+    this.repeatedOffsets = [
+      header.readUInt32LE(0),
+      header.readUInt32LE(4),
+      header.readUInt32LE(8),
+    ];
   }
 
   /**
-   * 解码数据块
-   * @param reader 位读取器
+   * 解码块中的一段数据
+   * @param reader LZX 位读取器
    * @param block 块信息
-   * @returns 解码后的数据
+   * @param run 期望解码的字节数
+   * @returns 实际写入窗口的字节数（最后一个匹配可能超出）
    */
-  private decodeBlock(reader: BitReader, block: LZXBlock): Buffer {
+  private decodeBlock(
+    reader: LZXBitReader,
+    block: LZXBlock,
+    run: number,
+  ): number {
     switch (block.type) {
       case LZXBlockType.VERBATIM:
-        return this.decodeVerbatimBlock(reader, block.uncompressedSize);
+        return this.decodeVerbatimBlock(reader, run);
 
       case LZXBlockType.ALIGNED:
-        return this.decodeAlignedBlock(
-          reader,
-          block.uncompressedSize,
-          block.alignedOffset!,
-        );
+        return this.decodeAlignedBlock(reader, run);
 
       case LZXBlockType.UNCOMPRESSED:
-        return this.decodeUncompressedBlock(reader, block.uncompressedSize);
+        return this.decodeUncompressedBlock(reader, run);
 
       default:
         throw new Error(`不支持的 LZX 块类型: ${block.type}`);
@@ -139,127 +288,121 @@ export class LZXDecoder {
 
   /**
    * 解码逐字块
-   * @param reader 位读取器
-   * @param uncompressedSize 未压缩大小
-   * @returns 解码后的数据
+   * @param reader LZX 位读取器
+   * @param run 期望解码的字节数
+   * @returns 实际解码的字节数
    */
-  private decodeVerbatimBlock(
-    reader: BitReader,
-    uncompressedSize: number,
-  ): Buffer {
-    // 读取霍夫曼表
-    this.huffmanDecoder = this.readHuffmanTables(reader);
+  private decodeVerbatimBlock(reader: LZXBitReader, run: number): number {
+    return this.decodeCompressedRun(reader, run, false);
+  }
 
-    const result = Buffer.alloc(uncompressedSize);
-    let outputPosition = 0;
+  /**
+   * 解码对齐块
+   * 与逐字块相同，但匹配偏移的低 3 位由对齐偏移树编码
+   * @param reader LZX 位读取器
+   * @param run 期望解码的字节数
+   * @returns 实际解码的字节数
+   */
+  private decodeAlignedBlock(reader: LZXBitReader, run: number): number {
+    return this.decodeCompressedRun(reader, run, true);
+  }
 
-    while (outputPosition < uncompressedSize) {
-      // 解码下一个符号
-      const symbol = this.decodeSymbol(reader, this.huffmanDecoder.literalTree);
+  /**
+   * 解码压缩块（逐字块或对齐块）中的符号序列
+   * @param reader LZX 位读取器
+   * @param run 期望解码的字节数
+   * @param aligned 是否为对齐块
+   * @returns 实际解码的字节数
+   */
+  private decodeCompressedRun(
+    reader: LZXBitReader,
+    run: number,
+    aligned: boolean,
+  ): number {
+    const decoder = this.huffmanDecoder;
+    if (!decoder) {
+      throw new Error('LZX 霍夫曼表未初始化');
+    }
+
+    let produced = 0;
+
+    while (produced < run) {
+      const symbol = Huffman.decodeSymbol(reader, decoder.literalTree);
 
       if (symbol < LZXDecoder.NUM_CHARS) {
         // 字面量字符
-        result[outputPosition] = symbol;
-        outputPosition++;
+        this.window.writeByte(symbol);
+        produced++;
       } else {
         // 匹配序列
-        const matchInfo = this.decodeMatch(reader, symbol);
-        const matchData = this.window.copyData(
-          matchInfo.offset,
-          matchInfo.length,
-        );
-
-        // 复制匹配数据
-        const bytesToCopy = Math.min(
-          matchData.length,
-          uncompressedSize - outputPosition,
-        );
-
-        matchData.copy(result, outputPosition, 0, bytesToCopy);
-        outputPosition += bytesToCopy;
+        const match = this.decodeMatch(reader, symbol, aligned);
+        this.window.copyMatch(match.offset, match.length);
+        produced += match.length;
       }
     }
 
-    return result;
-  }
-
-  /**
-   * 解码对齐块
-   * @param reader 位读取器
-   * @param uncompressedSize 未压缩大小
-   * @param alignedOffset 对齐偏移
-   * @returns 解码后的数据
-   */
-  private decodeAlignedBlock(
-    reader: BitReader,
-    uncompressedSize: number,
-    alignedOffset: number,
-  ): Buffer {
-    // 跳过对齐位
-    reader.skip(alignedOffset);
-
-    // 对齐块的解码逻辑类似逐字块，但使用不同的偏移计算
-    return this.decodeVerbatimBlock(reader, uncompressedSize);
+    return produced;
   }
 
   /**
    * 解码未压缩块
-   * @param reader 位读取器
-   * @param uncompressedSize 未压缩大小
-   * @returns 解码后的数据
+   * @param reader LZX 位读取器
+   * @param run 期望读取的字节数
+   * @returns 实际读取的字节数
    */
-  private decodeUncompressedBlock(
-    reader: BitReader,
-    uncompressedSize: number,
-  ): Buffer {
-    // 字节对齐
-    reader.align();
-
-    const result = Buffer.alloc(uncompressedSize);
-    for (let i = 0; i < uncompressedSize; i++) {
-      result[i] = reader.read(8);
-    }
-
-    return result;
+  private decodeUncompressedBlock(reader: LZXBitReader, run: number): number {
+    this.window.write(reader.readBytes(run));
+    return run;
   }
 
   /**
    * 读取霍夫曼表
-   * @param reader 位读取器
+   * @param reader LZX 位读取器
+   * @param aligned 是否为对齐块（需要先读取对齐偏移树）
    * @returns 霍夫曼解码器
    */
-  private readHuffmanTables(reader: BitReader): HuffmanDecoder {
-    // 读取预树（用于解码主树的长度）
-    const pretreeLengths = this.readPretreeLengths(reader);
-    const pretree = Huffman.createCanonicalTree(pretreeLengths);
+  private readHuffmanTables(
+    reader: LZXBitReader,
+    aligned: boolean,
+  ): HuffmanDecoder {
+    // 对齐偏移树：8 个 3 位码长
+    const alignedLengths: number[] = [];
+    if (aligned) {
+      for (let i = 0; i < LZXDecoder.ALIGNED_NUM_ELEMENTS; i++) {
+        alignedLengths.push(reader.read(3));
+      }
+    }
 
-    // 读取字面量树长度
-    const literalLengths = this.readTreeLengths(
+    // 主树分两段读取：字面量部分和匹配部分
+    this.readTreeLengths(reader, this.mainLengths, 0, LZXDecoder.NUM_CHARS);
+    this.readTreeLengths(
       reader,
-      pretree,
+      this.mainLengths,
       LZXDecoder.NUM_CHARS,
+      this.mainLengths.length,
     );
 
-    // 读取长度树长度
-    const lengthLengths = this.readTreeLengths(
+    // 长度树
+    this.readTreeLengths(
       reader,
-      pretree,
-      LZXDecoder.NUM_PRIMARY_LENGTHS + LZXDecoder.NUM_SECONDARY_LENGTHS,
+      this.lengthLengths,
+      0,
+      LZXDecoder.NUM_SECONDARY_LENGTHS,
     );
 
     return {
-      literalTree: Huffman.createCanonicalTree(literalLengths),
-      matchTree: Huffman.createCanonicalTree([]), // 简化实现
-      lengthTree: Huffman.createCanonicalTree(lengthLengths),
+      literalTree: Huffman.createCanonicalTree(this.mainLengths),
+      matchTree: Huffman.createCanonicalTree(alignedLengths),
+      lengthTree: Huffman.createCanonicalTree(this.lengthLengths),
     };
   }
 
   /**
    * 读取预树长度
-   * @param reader 位读取器
+   * @param reader LZX 位读取器
    * @returns 预树长度数组
    */
-  private readPretreeLengths(reader: BitReader): number[] {
+  private readPretreeLengths(reader: LZXBitReader): number[] {
     const lengths: number[] = [];
 
     for (let i = 0; i < LZXDecoder.PRETREE_NUM_ELEMENTS; i++) {
@@ -270,88 +413,205 @@ export class LZXDecoder {
   }
 
   /**
-   * 读取树长度
-   * @param reader 位读取器
-   * @param _pretree 预树（暂未使用）
-   * @param count 要读取的长度数量
-   * @returns 长度数组
+   * 通过预树读取码长差值，原地更新 [first, last) 范围内的码长
+   * @param reader LZX 位读取器
+   * @param lengths 码长数组（保存上一块的码长）
+   * @param first 起始索引
+   * @param last 结束索引（不含）
    */
   private readTreeLengths(
-    reader: BitReader,
-    _pretree: HuffmanTree | null,
-    count: number,
-  ): number[] {
-    const lengths: number[] = [];
-    let i = 0;
+    reader: LZXBitReader,
+    lengths: number[],
+    first: number,
+    last: number,
+  ): void {
+    const pretree = Huffman.createCanonicalTree(
+      this.readPretreeLengths(reader),
+    );
+    let i = first;
 
-    while (i < count) {
-      const symbol = this.decodeSymbol(reader, _pretree);
+    while (i < last) {
+      const symbol = Huffman.decodeSymbol(reader, pretree);
 
-      if (symbol <= 16) {
-        // 直接长度值
-        lengths.push(symbol);
-        i++;
-      } else if (symbol === 17) {
-        // 重复零长度
+      if (symbol === 17) {
+        // 4-19 个零长度
         const zeros = reader.read(4) + 4;
-        for (let j = 0; j < zeros && i < count; j++, i++) {
-          lengths.push(0);
+        for (let j = 0; j < zeros && i < last; j++, i++) {
+          lengths[i] = 0;
         }
       } else if (symbol === 18) {
-        // 重复前一个长度
-        const repeats = reader.read(5) + 20;
-        const lastLength = lengths[lengths.length - 1] ?? 0;
-        for (let j = 0; j < repeats && i < count; j++, i++) {
-          lengths.push(lastLength);
+        // 20-51 个零长度
+        const zeros = reader.read(5) + 20;
+        for (let j = 0; j < zeros && i < last; j++, i++) {
+          lengths[i] = 0;
         }
       } else if (symbol === 19) {
-        // 重复更多的零长度
-        const zeros = reader.read(1) + 4;
-        for (let j = 0; j < zeros && i < count; j++, i++) {
-          lengths.push(0);
+        // 4-5 个相同的差值
+        const repeats = reader.read(1) + 4;
+        const delta = Huffman.decodeSymbol(reader, pretree);
+        const value = (lengths[i]! - delta + 17) % 17;
+        for (let j = 0; j < repeats && i < last; j++, i++) {
+          lengths[i] = value;
         }
+      } else {
+        // 单个差值
+        lengths[i] = (lengths[i]! - symbol + 17) % 17;
+        i++;
       }
     }
-
-    return lengths;
-  }
-
-  /**
-   * 解码霍夫曼符号
-   * @param reader 位读取器
-   * @param tree 霍夫曼树
-   * @returns 解码的符号
-   */
-  private decodeSymbol(reader: BitReader, tree: HuffmanTree | null): number {
-    // 简化的霍夫曼解码实现
-    // 实际实现需要遍历霍夫曼树
-    void tree; // 防止 linter 警告，将来会使用此参数
-    return reader.read(8); // 临时实现
   }
 
   /**
-   * 解码匹配信息
-   * @param reader 位读取器
-   * @param symbol 匹配符号
+   * 解码匹配信息并更新重复偏移队列
+   * @param reader LZX 位读取器
+   * @param symbol 主树符号 (>= 256)
+   * @param aligned 是否为对齐块
    * @returns 匹配信息
    */
   private decodeMatch(
-    reader: BitReader,
+    reader: LZXBitReader,
     symbol: number,
+    aligned: boolean,
   ): { offset: number; length: number } {
-    // 简化的匹配解码实现
-    const length = symbol - LZXDecoder.NUM_CHARS + 2;
-    const offset = reader.read(16); // 临时实现
+    const mainElement = symbol - LZXDecoder.NUM_CHARS;
+
+    // 匹配长度：低 3 位为长度头，等于 7 时继续读取长度树
+    let length = mainElement & LZXDecoder.NUM_PRIMARY_LENGTHS;
+    if (length === LZXDecoder.NUM_PRIMARY_LENGTHS) {
+      length += Huffman.decodeSymbol(reader, this.huffmanDecoder!.lengthTree);
+    }
+    length += LZXDecoder.MIN_MATCH;
+
+    // 匹配偏移：高位为位置槽
+    const slot = mainElement >> 3;
+    const offsets = this.repeatedOffsets;
+    let offset: number;
+
+    if (slot > 2) {
+      offset = aligned
+        ? this.readAlignedOffset(reader, slot)
+        : this.readVerbatimOffset(reader, slot);
+      offsets[2] = offsets[1];
+      offsets[1] = offsets[0];
+      offsets[0] = offset;
+    } else if (slot === 0) {
+      offset = offsets[0];
+    } else if (slot === 1) {
+      offset = offsets[1];
+      offsets[1] = offsets[0];
+      offsets[0] = offset;
+    } else {
+      offset = offsets[2];
+      offsets[2] = offsets[0];
+      offsets[0] = offset;
+    }
 
     return { offset, length };
   }
 
   /**
-   * 重置解码器状态
+   * 读取逐字块中的匹配偏移
+   * @param reader LZX 位读取器
+   * @param slot 位置槽 (>= 3)
+   * @returns 匹配偏移
+   */
+  private readVerbatimOffset(reader: LZXBitReader, slot: number): number {
+    if (slot === 3) {
+      return 1;
+    }
+
+    const extra = LZXDecoder.EXTRA_BITS[slot]!;
+    return LZXDecoder.POSITION_BASE[slot]! - 2 + reader.read(extra);
+  }
+
+  /**
+   * 读取对齐块中的匹配偏移
+   * @param reader LZX 位读取器
+   * @param slot 位置槽 (>= 3)
+   * @returns 匹配偏移
+   */
+  private readAlignedOffset(reader: LZXBitReader, slot: number): number {
+    const extra = LZXDecoder.EXTRA_BITS[slot]!;
+    let offset = LZXDecoder.POSITION_BASE[slot]! - 2;
+
+    if (extra > 3) {
+      // 高位逐字读取，低 3 位使用对齐偏移树
+      offset += reader.read(extra - 3) << 3;
+      offset += Huffman.decodeSymbol(reader, this.huffmanDecoder!.matchTree);
+    } else if (extra === 3) {
+      offset += Huffman.decodeSymbol(reader, this.huffmanDecoder!.matchTree);
+    } else if (extra > 0) {
+      offset += reader.read(extra);
+    } else {
+      offset = 1;
+    }
+
+    return offset;
+  }
+
+  /**
+   * 重置解码器状态（包括窗口）
    */
   private reset(): void {
     this.window.reset();
+    this.resetState();
+  }
+
+  /**
+   * 在重置点重置解码状态（保留窗口内容）
+   */
+  private resetState(): void {
     this.huffmanDecoder = null;
+    this.currentBlock = null;
+    this.repeatedOffsets = [1, 1, 1];
+    this.headerRead = false;
+    this.intelFileSize = 0;
+    this.mainLengths.fill(0);
+    this.lengthLengths.fill(0);
+  }
+
+  /**
+   * 根据窗口大小获取位置槽数量
+   * @param windowSize 窗口大小
+   * @returns 位置槽数量
+   */
+  private static getPositionSlots(windowSize: number): number {
+    const windowBits = Math.log2(windowSize);
+    const slots = LZXDecoder.POSITION_SLOTS[windowBits];
+    if (!slots) {
+      throw new Error(`无效的 LZX 窗口大小: ${windowSize}`);
+    }
+    return slots;
+  }
+
+  /**
+   * 构建位置槽额外位数表
+   * @returns 额外位数表
+   */
+  private static buildExtraBits(): number[] {
+    const extraBits: number[] = [];
+    for (let i = 0, bits = 0; i < 51; i += 2) {
+      extraBits[i] = bits;
+      extraBits[i + 1] = bits;
+      if (i !== 0 && bits < 17) {
+        bits++;
+      }
+    }
+    return extraBits;
+  }
+
+  /**
+   * 构建位置槽基础偏移表
+   * @returns 基础偏移表
+   */
+  private static buildPositionBase(): number[] {
+    const positionBase: number[] = [];
+    const extraBits = LZXDecoder.buildExtraBits();
+    for (let i = 0, base = 0; i < 51; i++) {
+      positionBase[i] = base;
+      base += 1 << extraBits[i]!;
+    }
+    return positionBase;
   }
 
   /**
@@ -362,6 +622,8 @@ export class LZXDecoder {
     return [
       `窗口大小: ${this.windowSize} 字节`,
       `重置间隔: ${this.resetInterval}`,
+      `位置槽: ${this.positionSlots}`,
+      `E8 文件大小: ${this.intelFileSize}`,
       this.window.getStatus(),
     ].join('\n');
   }
@@ -371,9 +633,6 @@ export class LZXDecoder {
    * @returns 验证结果
    */
   validate(): boolean {
-    // 使用私有成员防止 linter 警告
-    void this._resetProcessor;
-    void LZXDecoder._ALIGNED_NUM_ELEMENTS;
     return this.windowSize > 0 && this.resetInterval > 0;
   }
 }
@@ -1,5 +1,6 @@
 import type { ResetTable, ResetTableEntry } from '../types';
 import type { BitReader } from '../../utils/io/bit-reader';
+import { BinaryDataReader } from '../../utils/io/binary-data-reader';
 
 /**
  * 重置表处理器
@@ -10,42 +11,52 @@ export class ResetTableProcessor {
 
   /**
    * 解析重置表
-   * @param reader 位读取器
+   * @param reader 位读取器（指向 ResetTable 数据起始位置）
    * @returns 解析后的重置表
    */
   parseResetTable(reader: BitReader): ResetTable {
+    const dataReader = new BinaryDataReader(reader);
+    const start = dataReader.getBytePosition();
+
     // 读取版本号
-    const version = reader.read(32);
+    const version = dataReader.readInt(4);
     if (version !== 2) {
       throw new Error(`不支持的重置表版本: ${version}`);
     }
 
     // 读取块数量
-    const blockCount = reader.read(32);
+    const blockCount = dataReader.readInt(4);
     if (blockCount <= 0) {
       throw new Error(`无效的块数量: ${blockCount}`);
     }
 
-    // 读取条目大小
-    const entrySize = reader.read(32);
-    if (entrySize !== 8) {
+    // 读取条目大小（4 或 8 字节）
+    const entrySize = dataReader.readInt(4);
+    if (entrySize !== 4 && entrySize !== 8) {
       throw new Error(`无效的条目大小: ${entrySize}`);
     }
 
-    // 读取表偏移
-    const tableOffset = reader.read(32);
-
-    // 读取未压缩长度
-    const uncompressedLength = reader.read(32);
+    // 读取表偏移（相对于重置表起始位置）
+    const tableOffset = dataReader.readInt(4);
 
-    // 读取压缩长度
-    const compressedLength = reader.read(32);
+    // 读取未压缩长度和压缩长度（64 位）
+    const uncompressedLength = dataReader.readInt(8);
+    const compressedLength = dataReader.readInt(8);
 
-    // 读取块大小
-    const blockSize = reader.read(32);
+    // 读取块大小（帧大小，通常为 0x8000）
+    const blockSize = dataReader.readInt(8);
+    if (blockSize <= 0) {
+      throw new Error(`无效的块大小: ${blockSize}`);
+    }
 
     // 解析重置表条目
-    const entries = this.parseResetTableEntries(reader, blockCount);
+    dataReader.setBytePosition(start + tableOffset);
+    const entries = this.parseResetTableEntries(
+      dataReader,
+      blockCount,
+      entrySize,
+      blockSize,
+    );
 
     this.resetTable = {
       version,
@@ -63,29 +74,39 @@ export class ResetTableProcessor {
 
   /**
    * 解析重置表条目
-   * @param reader 位读取器
+   * 每个条目记录一个块在压缩流中的起始偏移
+   * @param dataReader 二进制数据读取器
    * @param blockCount 块数量
+   * @param entrySize 条目大小
+   * @param blockSize 块大小
    * @returns 重置表条目数组
    */
   private parseResetTableEntries(
-    reader: BitReader,
+    dataReader: BinaryDataReader,
     blockCount: number,
+    entrySize: number,
+    blockSize: number,
   ): ResetTableEntry[] {
     const entries: ResetTableEntry[] = [];
 
     for (let i = 0; i < blockCount; i++) {
-      const compressedLength = reader.read(32);
-      const uncompressedLength = reader.read(32);
-
       entries.push({
-        compressedLength,
-        uncompressedLength,
+        compressedOffset: dataReader.readInt(entrySize),
+        uncompressedOffset: i * blockSize,
       });
     }
 
     return entries;
   }
 
+  /**
+   * 加载已解析的重置表
+   * @param resetTable 重置表
+   */
+  setResetTable(resetTable: ResetTable): void {
+    this.resetTable = resetTable;
+  }
+
   /**
    * 获取指定块的信息
    * @param blockIndex 块索引
@@ -120,7 +141,7 @@ export class ResetTableProcessor {
   }
 
   /**
-   * 计算指定块的偏移量
+   * 计算指定块在压缩流中的偏移量
    * @param blockIndex 块索引
    * @returns 块偏移量
    */
@@ -133,38 +154,39 @@ export class ResetTableProcessor {
       throw new Error(`无效的块索引: ${blockIndex}`);
     }
 
-    let offset = this.resetTable.tableOffset;
-    for (let i = 0; i < blockIndex; i++) {
-      offset += this.resetTable.entries[i]!.compressedLength;
-    }
-
-    return offset;
+    return this.resetTable.entries[blockIndex]!.compressedOffset;
   }
 
   /**
-   * 查找包含指定偏移量的块
-   * @param offset 目标偏移量
+   * 查找解压后偏移量之前最近的重置点
+   * 解码器只在块边界上检查重置间隔，重置间隔不是块大小的整数倍时，
+   * 重置点是起始偏移同时为重置间隔整数倍的块
+   * @param offset 解压后数据中的目标偏移量
+   * @param resetInterval 重置间隔（字节），默认为块大小
    * @returns 块索引，如果未找到返回 -1
    */
-  findBlockByOffset(offset: number): number {
-    if (!this.resetTable) {
+  findBlockByOffset(offset: number, resetInterval?: number): number {
+    if (!this.resetTable || this.resetTable.entries.length === 0) {
       return -1;
     }
 
-    let currentOffset = this.resetTable.tableOffset;
-
-    for (let i = 0; i < this.resetTable.entries.length; i++) {
-      const blockEntry = this.resetTable.entries[i]!;
-      const nextOffset = currentOffset + blockEntry.compressedLength;
+    const { blockSize, entries } = this.resetTable;
+    const interval = resetInterval || blockSize;
 
-      if (offset >= currentOffset && offset < nextOffset) {
-        return i;
-      }
-
-      currentOffset = nextOffset;
+    // 从目标偏移所在的块向前找重置点，表不完整时从最后一个条目开始；
+    // 第一个块总是重置点
+    let blockIndex = Math.min(
+      Math.floor(offset / blockSize),
+      entries.length - 1,
+    );
+    while (
+      blockIndex > 0 &&
+      entries[blockIndex]!.uncompressedOffset % interval !== 0
+    ) {
+      blockIndex--;
     }
 
-    return -1;
+    return blockIndex;
   }
 
   /**
@@ -185,7 +207,7 @@ export class ResetTableProcessor {
       return false;
     }
 
-    if (this.resetTable.entrySize !== 8) {
+    if (this.resetTable.entrySize !== 4 && this.resetTable.entrySize !== 8) {
       return false;
     }
 
@@ -194,9 +216,11 @@ export class ResetTableProcessor {
       return false;
     }
 
-    // 检查每个条目的有效性
-    for (const entry of this.resetTable.entries) {
-      if (entry.compressedLength <= 0 || entry.uncompressedLength <= 0) {
+    // 检查条目偏移是否单调递增
+    for (let i = 1; i < this.resetTable.entries.length; i++) {
+      const previous = this.resetTable.entries[i - 1]!;
+      const current = this.resetTable.entries[i]!;
+      if (current.compressedOffset < previous.compressedOffset) {
         return false;
       }
     }
@@ -213,17 +237,11 @@ export class ResetTableProcessor {
       return '重置表未初始化';
     }
 
-    const totalCompressed = this.resetTable.entries.reduce(
-      (sum, entry) => sum + entry.compressedLength,
-      0,
-    );
-
-    const totalUncompressed = this.resetTable.entries.reduce(
-      (sum, entry) => sum + entry.uncompressedLength,
-      0,
-    );
+    const totalCompressed = this.resetTable.compressedLength;
+    const totalUncompressed = this.resetTable.uncompressedLength;
 
-    const compressionRatio = (totalCompressed / totalUncompressed) * 100;
+    const compressionRatio =
+      totalUncompressed > 0 ? (totalCompressed / totalUncompressed) * 100 : 0;
 
     return [
       `重置表版本: ${this.resetTable.version}`,
@@ -93,6 +93,25 @@ export class SlidingWindow implements LZXWindow {
     return result;
   }
 
+  /**
+   * 在窗口内原地复制匹配数据（不分配额外缓冲区）
+   * @param offset 回退偏移量
+   * @param length 复制长度
+   */
+  copyMatch(offset: number, length: number): void {
+    if (offset <= 0 || offset > this.size) {
+      throw new Error(`无效的偏移量: ${offset}`);
+    }
+
+    let readPosition = (this.position - offset + this.size) % this.size;
+
+    for (let i = 0; i < length; i++) {
+      this.data[this.position] = this.data[readPosition]!;
+      this.position = (this.position + 1) % this.size;
+      readPosition = (readPosition + 1) % this.size;
+    }
+  }
+
   /**
    * 重置窗口
    */
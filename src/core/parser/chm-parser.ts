@@ -1,10 +1,29 @@
-import type { ParsedCHM, CHMHeader, CHMDirectory, ITSPHeader } from '../types';
-import type { BitReader } from '../../utils/io/bit-reader';
+import type {
+  ByteSource,
+  ParsedCHM,
+  ParseOptions,
+  CHMHeader,
+  ContentSection,
+  CHMDirectory,
+  ITSPHeader,
+  LZXCHeader,
+  ResetTable,
+} from '../types';
+import { BitReader } from '../../utils/io/bit-reader';
+import { BinaryDataReader } from '../../utils/io/binary-data-reader';
 import { ITSFHeaderParser } from '../headers/itsf-header';
 import { ITSPHeaderParser } from '../headers/itsp-header';
 import { LZXCHeaderParser } from '../headers/lzxc-header';
 import { DirectoryParser } from '../directory/directory-parser';
 import { ResetTableProcessor } from '../lzx/reset-table';
+import { TopicTable } from '../internal/topic-table';
+import {
+  CHM_INTERNAL_FILES,
+  CHM_SECTION_FILES,
+  CHM_STORAGE_PREFIX,
+  LAZY_DIRECTORY_CHUNK_THRESHOLD,
+  LZX_TRANSFORM_GUID,
+} from '../../constants';
 
 /**
  * CHM 文件主解析器
@@ -19,104 +38,304 @@ export class CHMParser {
 
   /**
    * 解析完整的 CHM 文件
-   * @param reader 位读取器
+   * @param source 数据源
+   * @param options 解析选项
    * @returns 解析后的 CHM 结构
    */
-  parse(reader: BitReader): ParsedCHM {
-    // 解析头部信息
-    const header = this.parseHeaders(reader);
+  parse(source: ByteSource, options: ParseOptions = {}): ParsedCHM {
+    const parsed = this.parseStructure(source, options);
 
-    // 定位到目录位置
-    this.seekToDirectory(reader, header.itsf.directoryOffset);
+    // 解析各 LZX 内容段的重置表
+    for (const section of parsed.sections) {
+      if (section.lzxc) {
+        section.resetTable = this.parseResetTable(
+          source,
+          parsed.directory,
+          parsed.contentOffset,
+          section.name,
+        );
+      }
+    }
+
+    const result: ParsedCHM = {
+      ...parsed,
+      resetTable:
+        this.findLZXSection(parsed.sections)?.resetTable ??
+        this.createEmptyResetTable(),
+    };
+
+    // 主题表需要解压内部文件，仅在调用方要求时读取
+    if (options.loadTopics) {
+      result.topics = TopicTable.load(result, source).getTopics();
+    }
+
+    return result;
+  }
 
-    // 解析目录结构
-    const directory = this.parseDirectory(reader, header.itsp);
+  /**
+   * 解析头部、目录和存储结构（不含重置表）
+   * @param source 数据源
+   * @param options 解析选项
+   * @returns 不含重置表的解析结果
+   */
+  private parseStructure(
+    source: ByteSource,
+    options: ParseOptions,
+  ): Omit<ParsedCHM, 'resetTable'> {
+    // 解析 ITSF 和 ITSP 头部
+    const { itsf, itsp } = this.parseHeaders(source);
 
-    // 解析重置表
-    const resetTable = this.parseResetTable(reader);
+    // 解析目录结构（目录块紧跟 ITSP 头部），大目录默认延迟展开
+    const lazy =
+      options.lazyDirectory ?? itsp.chunkCount > LAZY_DIRECTORY_CHUNK_THRESHOLD;
+    const directory = this.parseDirectory(
+      source,
+      itsf.directoryOffset + itsp.headerLength,
+      itsp,
+      lazy,
+    );
 
     // 计算内容偏移
-    const contentOffset = this.calculateContentOffset(header);
+    const contentOffset = this.calculateContentOffset(itsf);
+
+    // 从 ::DataSpace 存储中读取内容段及其变换信息
+    const sections = this.parseSections(source, directory, contentOffset);
+    const compressed = this.findLZXSection(sections);
 
     return {
-      header,
+      header: {
+        itsf,
+        itsp,
+        lzxc: compressed?.lzxc ?? this.createDefaultLZXC(),
+      },
       directory,
-      resetTable,
+      sections,
       contentOffset,
+      compressedOffset: compressed?.offset ?? contentOffset,
+      compressedLength: compressed?.length ?? 0,
     };
   }
 
   /**
-   * 解析所有头部信息
-   * @param reader 位读取器
-   * @returns CHM 头部信息
+   * 解析 ::DataSpace/NameList 中列出的内容段
+   * @param source 数据源
+   * @param directory 目录结构
+   * @param contentOffset 内容段 0 偏移
+   * @returns 按编号排列的内容段
    */
-  private parseHeaders(reader: BitReader): CHMHeader {
+  private parseSections(
+    source: ByteSource,
+    directory: CHMDirectory,
+    contentOffset: number,
+  ): ContentSection[] {
+    const names = this.parseNameList(source, directory, contentOffset);
+
+    return names.map((name, index) => {
+      // 段 0 直接位于内容偏移处，没有存储目录
+      if (index === 0) {
+        return {
+          index,
+          name,
+          transforms: [],
+          offset: contentOffset,
+          length: source.size - contentOffset,
+        };
+      }
+
+      const content = DirectoryParser.findEntry(
+        directory,
+        this.getSectionFile(name, CHM_SECTION_FILES.content),
+      );
+      const section: ContentSection = {
+        index,
+        name,
+        transforms: this.parseTransformList(
+          source,
+          directory,
+          contentOffset,
+          name,
+        ),
+        offset: contentOffset + (content?.offset ?? 0),
+        length: content?.length ?? 0,
+      };
+
+      if (section.transforms.includes(LZX_TRANSFORM_GUID)) {
+        section.lzxc = this.parseControlData(
+          source,
+          directory,
+          contentOffset,
+          name,
+        );
+      }
+
+      return section;
+    });
+  }
+
+  /**
+   * 解析 NameList（WORD 长度、WORD 段数，之后每段为 WORD 字符数、
+   * UTF-16LE 名称和结尾的 0）
+   * @param source 数据源
+   * @param directory 目录结构
+   * @param contentOffset 内容段 0 偏移
+   * @returns 段名数组
+   */
+  private parseNameList(
+    source: ByteSource,
+    directory: CHMDirectory,
+    contentOffset: number,
+  ): string[] {
+    const nameList = this.openInternalFile(
+      source,
+      directory,
+      contentOffset,
+      CHM_INTERNAL_FILES.nameList,
+    );
+
+    // 缺少 NameList 时按标准布局推断
+    if (!nameList) {
+      const hasCompressed = DirectoryParser.findEntry(
+        directory,
+        CHM_INTERNAL_FILES.content,
+      );
+      return hasCompressed
+        ? ['Uncompressed', 'MSCompressed']
+        : ['Uncompressed'];
+    }
+
+    const dataReader = new BinaryDataReader(nameList);
+    dataReader.readInt(2); // 文件长度（以 WORD 为单位）
+    const count = dataReader.readInt(2);
+
+    const names: string[] = [];
+    for (let i = 0; i < count; i++) {
+      const length = dataReader.readInt(2);
+      names.push(dataReader.readString(length * 2, 'utf16le'));
+      dataReader.skipBytes(2);
+    }
+
+    return names;
+  }
+
+  /**
+   * 解析内容段的 Transform/List（UTF-16LE 编码的 GUID 序列）
+   * @param source 数据源
+   * @param directory 目录结构
+   * @param contentOffset 内容段 0 偏移
+   * @param sectionName 段名
+   * @returns 变换 GUID 数组
+   */
+  private parseTransformList(
+    source: ByteSource,
+    directory: CHMDirectory,
+    contentOffset: number,
+    sectionName: string,
+  ): string[] {
+    const transformList = this.openInternalFile(
+      source,
+      directory,
+      contentOffset,
+      this.getSectionFile(sectionName, CHM_SECTION_FILES.transformList),
+    );
+
+    // 旧文件可能缺少变换列表，MSCompressed 段默认为 LZX
+    if (!transformList) {
+      return sectionName === 'MSCompressed' ? [LZX_TRANSFORM_GUID] : [];
+    }
+
+    const text = transformList.buffer.toString('utf16le');
+    const guids = text.match(/\{[0-9A-Fa-f-]{36}\}/g) ?? [];
+    return guids.map(guid => guid.toUpperCase());
+  }
+
+  /**
+   * 查找第一个使用 LZX 变换的内容段
+   * @param sections 内容段数组
+   * @returns LZX 内容段，不存在时返回 undefined
+   */
+  private findLZXSection(
+    sections: ContentSection[],
+  ): ContentSection | undefined {
+    return sections.find(section => section.lzxc !== undefined);
+  }
+
+  /**
+   * 获取内容段存储目录下的文件路径
+   * @param sectionName 段名
+   * @param file 文件名
+   * @returns 内部文件路径
+   */
+  private getSectionFile(sectionName: string, file: string): string {
+    return `${CHM_STORAGE_PREFIX}${sectionName}/${file}`;
+  }
+
+  /**
+   * 解析 ITSF 和 ITSP 头部信息
+   * @param source 数据源
+   * @returns ITSF 和 ITSP 头部
+   */
+  private parseHeaders(source: ByteSource): Omit<CHMHeader, 'lzxc'> {
     // 解析 ITSF 头部
-    const itsf = ITSFHeaderParser.parse(reader);
+    const itsf = ITSFHeaderParser.parse(this.readHeader(source, 0));
 
     // 验证 ITSF 头部
     if (!ITSFHeaderParser.validate(itsf)) {
       throw new Error('ITSF 头部验证失败');
     }
 
+    // ITSP 头部位于头部段 1 的起始位置
+    if (itsf.directoryOffset <= 0 || itsf.directoryOffset >= source.size) {
+      throw new Error(`无效的目录偏移: ${itsf.directoryOffset}`);
+    }
+
     // 解析 ITSP 头部
-    const itsp = ITSPHeaderParser.parse(reader);
+    const itsp = ITSPHeaderParser.parse(
+      this.readHeader(source, itsf.directoryOffset),
+    );
 
     // 验证 ITSP 头部
     if (!ITSPHeaderParser.validate(itsp)) {
       throw new Error('ITSP 头部验证失败');
     }
 
-    // 解析 LZXC 头部
-    const lzxc = LZXCHeaderParser.parse(reader);
-
-    // 验证 LZXC 头部
-    if (!LZXCHeaderParser.validate(lzxc)) {
-      throw new Error('LZXC 头部验证失败');
-    }
-
     return {
       itsf,
       itsp,
-      lzxc,
     };
   }
 
   /**
-   * 定位到目录位置
-   * @param reader 位读取器
-   * @param directoryOffset 目录偏移
+   * 读取 ITSF/ITSP 头部数据（两者在偏移 8 处记录头部长度）
+   * @param source 数据源
+   * @param offset 头部偏移
+   * @returns 指向头部数据的读取器
    */
-  private seekToDirectory(reader: BitReader, directoryOffset: number): void {
-    // 计算需要跳过的字节数
-    const currentPosition = Math.floor(reader.position / 8);
-    const skipBytes = directoryOffset - currentPosition;
-
-    if (skipBytes > 0) {
-      // 跳过到目录位置
-      for (let i = 0; i < skipBytes; i++) {
-        reader.read(8);
-      }
-    } else if (skipBytes < 0) {
-      throw new Error(`无效的目录偏移: ${directoryOffset}`);
+  private readHeader(source: ByteSource, offset: number): BitReader {
+    if (offset + 12 > source.size) {
+      throw new Error(`头部超出文件范围: 偏移 ${offset}`);
     }
 
-    // 确保字节对齐
-    reader.align();
+    const headerLength = source.read(offset, 12).readUInt32LE(8);
+    const length = Math.min(Math.max(headerLength, 12), source.size - offset);
+
+    return new BitReader(source.read(offset, length));
   }
 
   /**
    * 解析目录结构
-   * @param reader 位读取器
+   * @param source 数据源
+   * @param offset 第一个目录块的偏移
    * @param itspHeader ITSP 头部信息
+   * @param lazy 是否延迟展开目录条目
    * @returns 目录结构
    */
   private parseDirectory(
-    reader: BitReader,
+    source: ByteSource,
+    offset: number,
     itspHeader: ITSPHeader,
+    lazy: boolean,
   ): CHMDirectory {
-    const directory = DirectoryParser.parse(reader, itspHeader);
+    const directory = DirectoryParser.parse(source, offset, itspHeader, lazy);
 
     // 验证目录结构
     if (!DirectoryParser.validate(directory)) {
@@ -126,56 +345,154 @@ export class CHMParser {
     return directory;
   }
 
+  /**
+   * 获取内容段 0 中内部文件的读取器
+   * @param source 数据源
+   * @param directory 目录结构
+   * @param contentOffset 内容段 0 偏移
+   * @param name 内部文件名
+   * @returns 指向文件数据的读取器，文件不存在时返回 null
+   */
+  private openInternalFile(
+    source: ByteSource,
+    directory: CHMDirectory,
+    contentOffset: number,
+    name: string,
+  ): BitReader | null {
+    const entry = DirectoryParser.findEntry(directory, name);
+    if (!entry || entry.section !== 0) {
+      return null;
+    }
+
+    const start = contentOffset + entry.offset;
+    if (start + entry.length > source.size) {
+      throw new Error(`内部文件超出文件范围: ${name}`);
+    }
+
+    return new BitReader(source.read(start, entry.length));
+  }
+
+  /**
+   * 从 ControlData 解析 LZXC 控制信息
+   * @param source 数据源
+   * @param directory 目录结构
+   * @param contentOffset 内容段 0 偏移
+   * @param sectionName 段名
+   * @returns LZXC 头部
+   */
+  private parseControlData(
+    source: ByteSource,
+    directory: CHMDirectory,
+    contentOffset: number,
+    sectionName: string,
+  ): LZXCHeader {
+    const controlData = this.openInternalFile(
+      source,
+      directory,
+      contentOffset,
+      this.getSectionFile(sectionName, CHM_SECTION_FILES.controlData),
+    );
+
+    // 缺少控制数据时使用默认控制信息
+    if (!controlData) {
+      return this.createDefaultLZXC();
+    }
+
+    const lzxc = LZXCHeaderParser.parse(controlData);
+
+    // 验证 LZXC 头部
+    if (!LZXCHeaderParser.validate(lzxc)) {
+      throw new Error('LZXC 头部验证失败');
+    }
+
+    return lzxc;
+  }
+
   /**
    * 解析重置表
-   * @param reader 位读取器
+   * @param source 数据源
+   * @param directory 目录结构
+   * @param contentOffset 内容段 0 偏移
+   * @param sectionName 段名
    * @returns 重置表
    */
-  private parseResetTable(reader: BitReader) {
+  private parseResetTable(
+    source: ByteSource,
+    directory: CHMDirectory,
+    contentOffset: number,
+    sectionName: string,
+  ): ResetTable {
     try {
-      return this.resetTableProcessor.parseResetTable(reader);
+      const resetTable = this.openInternalFile(
+        source,
+        directory,
+        contentOffset,
+        this.getSectionFile(sectionName, CHM_SECTION_FILES.resetTable),
+      );
+      if (!resetTable) {
+        return this.createEmptyResetTable();
+      }
+
+      return this.resetTableProcessor.parseResetTable(resetTable);
     } catch (error) {
-      // 某些 CHM 文件可能没有重置表，这里提供默认值
+      // 重置表损坏时退回到从流起点解码
       console.warn('重置表解析失败，使用默认值:', error);
-      return {
-        version: 2,
-        blockCount: 0,
-        entrySize: 8,
-        tableOffset: 0,
-        uncompressedLength: 0,
-        compressedLength: 0,
-        blockSize: 0x8000,
-        entries: [],
-      };
+      return this.createEmptyResetTable();
     }
   }
 
+  /**
+   * 创建默认的 LZXC 控制信息
+   * @returns LZXC 头部
+   */
+  private createDefaultLZXC(): LZXCHeader {
+    return {
+      signature: 'LZXC',
+      version: 2,
+      resetInterval: 0x8000,
+      windowSize: 0x8000,
+      cacheSize: 0x8000,
+      unknown: 0,
+    };
+  }
+
+  /**
+   * 创建空的重置表
+   * @returns 不含条目的重置表
+   */
+  private createEmptyResetTable(): ResetTable {
+    return {
+      version: 2,
+      blockCount: 0,
+      entrySize: 8,
+      tableOffset: 0,
+      uncompressedLength: 0,
+      compressedLength: 0,
+      blockSize: 0x8000,
+      entries: [],
+    };
+  }
+
   /**
    * 计算内容偏移
-   * @param header CHM 头部信息
-   * @returns 内容偏移量
+   * @param itsf ITSF 头部信息
+   * @returns 内容段 0 偏移量
    */
-  private calculateContentOffset(header: CHMHeader): number {
-    // 内容通常在目录之后
-    return header.itsf.directoryOffset + header.itsf.directoryLength;
+  private calculateContentOffset(itsf: CHMHeader['itsf']): number {
+    return itsf.contentOffset;
   }
 
   /**
    * 快速解析（仅解析头部和目录，跳过重置表）
-   * @param reader 位读取器
+   * @param source 数据源
+   * @param options 解析选项
    * @returns 简化的解析结果
    */
-  quickParse(reader: BitReader): Omit<ParsedCHM, 'resetTable'> {
-    const header = this.parseHeaders(reader);
-    this.seekToDirectory(reader, header.itsf.directoryOffset);
-    const directory = this.parseDirectory(reader, header.itsp);
-    const contentOffset = this.calculateContentOffset(header);
-
-    return {
-      header,
-      directory,
-      contentOffset,
-    };
+  quickParse(
+    source: ByteSource,
+    options: ParseOptions = {},
+  ): Omit<ParsedCHM, 'resetTable'> {
+    return this.parseStructure(source, options);
   }
 
   /**
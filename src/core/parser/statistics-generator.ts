@@ -36,6 +36,9 @@ export class CHMStatisticsGenerator {
       directorySummary,
       '',
       `内容偏移: 0x${parsedCHM.contentOffset.toString(16)}`,
+      `内容段: ${parsedCHM.sections.map(section => section.name).join(', ')}`,
+      `压缩流偏移: 0x${parsedCHM.compressedOffset.toString(16)}`,
+      `压缩流长度: ${parsedCHM.compressedLength} 字节`,
     ].join('\n');
   }
 
@@ -81,7 +84,9 @@ export class CHMStatisticsGenerator {
    */
   static getBriefStatistics(parsedCHM: ParsedCHM): string {
     return [
-      `文件总数: ${parsedCHM.directory.entries?.size || 0}`,
+      parsedCHM.directory.lazy
+        ? '文件总数: 延迟加载'
+        : `文件总数: ${parsedCHM.directory.entries?.size || 0}`,
       `内容偏移: 0x${parsedCHM.contentOffset.toString(16)}`,
       `压缩方法: ${parsedCHM.header.lzxc.signature}`,
     ].join(' | ');
@@ -0,0 +1,418 @@
+import { promises as fs } from 'fs';
+import { dirname, join } from 'path';
+import type {
+  HHPOptions,
+  HHPParseOptions,
+  HHPProject,
+  HHPWindow,
+} from '../types';
+import { Codepage } from '../../utils/encoding/codepage';
+
+const INCLUDE_PATTERN = /^#include\s+[<"]?([^>"]+?)[>"]?$/i;
+const SYSTEM_INCLUDE_PATTERN = /^#include\s+</i;
+const LANGUAGE_PATTERN = /^\s*Language\s*=\s*(0x[0-9a-f]+|\d+)/im;
+const DEFINE_PATTERN = /^#define\s+(\w+)\s+(.+)$/;
+const CONTEXT_ID_PATTERN = /^([-+]?)(0x[0-9a-f]+|\d+)[ul]*$/i;
+const MAX_INCLUDE_DEPTH = 16;
+
+/**
+ * HTML Help Workshop 项目（.hhp）解析器
+ * 项目文件是 INI 风格的文本：[节名] 之后是逐行的内容，以 ; 开头的行为注释。
+ * #include 行在所在位置展开被包含文件的内容，[MAP] 节通常包含 C 头文件，
+ * 只读取其中的 #define。与 HTML Help Workshop 相同，
+ * 找不到的 <windows.h> 之类的系统头文件直接跳过
+ */
+export class HHPParser {
+  /**
+   * 解析项目文件内容
+   * @param data 文件数据或已解码的文本
+   * @param options 解析选项
+   * @returns 解析后的项目
+   */
+  static parse(
+    data: Buffer | string,
+    options: HHPParseOptions = {},
+  ): HHPProject {
+    const encoding = options.encoding ?? this.detectEncoding(data);
+    const project: HHPProject = {
+      options: {},
+      rawOptions: {},
+      files: [],
+      windows: [],
+      alias: {},
+      map: {},
+      infoTypes: [],
+    };
+
+    // [MAP] 中值不是数值字面量的 #define，只有被 [ALIAS] 引用时才报错
+    const symbolic = new Map<string, string>();
+    let section = '';
+    const parseLines = (text: string, depth: number): void => {
+      for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith(';')) {
+          continue;
+        }
+
+        const include = this.parseIncludeName(line);
+        if (include !== undefined) {
+          if (depth >= MAX_INCLUDE_DEPTH) {
+            throw new Error(`#include 嵌套过深: ${include}`);
+          }
+          const included = options.readInclude?.(include);
+          if (included === undefined) {
+            if (SYSTEM_INCLUDE_PATTERN.test(line)) {
+              continue;
+            }
+            throw new Error(`找不到 #include 文件: ${include}`);
+          }
+          parseLines(this.decode(included, encoding), depth + 1);
+          continue;
+        }
+
+        const header = /^\[([^\]]+)\]$/.exec(line);
+        if (header) {
+          section = header[1]!.trim().toUpperCase();
+          continue;
+        }
+
+        this.parseLine(project, symbolic, section, line);
+      }
+    };
+
+    parseLines(this.decode(data, encoding), 0);
+
+    for (const name of Object.keys(project.alias)) {
+      if (project.map[name] === undefined && symbolic.has(name)) {
+        throw new Error(`无效的上下文 ID: ${name} ${symbolic.get(name)}`);
+      }
+    }
+
+    return project;
+  }
+
+  /**
+   * 读取并解析项目文件，#include 的文件相对于项目目录读取
+   * @param projectPath 项目文件路径
+   * @param options 解析选项
+   * @returns 解析后的项目
+   */
+  static async parseFile(
+    projectPath: string,
+    options: Omit<HHPParseOptions, 'readInclude'> = {},
+  ): Promise<HHPProject> {
+    const baseDir = dirname(projectPath);
+    const data = await fs.readFile(projectPath);
+
+    // 解析是同步的，先读取全部（含嵌套的）#include 文件
+    const includes = new Map<string, Buffer>();
+    const pending = [data];
+    while (pending.length > 0) {
+      for (const name of this.findIncludes(pending.pop()!)) {
+        if (includes.has(name)) {
+          continue;
+        }
+        const content = await fs
+          .readFile(join(baseDir, name))
+          .catch(() => undefined);
+        if (content) {
+          includes.set(name, content);
+          pending.push(content);
+        }
+      }
+    }
+
+    return this.parse(data, {
+      ...options,
+      readInclude: name => includes.get(name),
+    });
+  }
+
+  /**
+   * 列出文件中的 #include 路径
+   * @param data 文件数据
+   * @returns 规范化后的路径（使用 / 分隔）
+   */
+  static findIncludes(data: Buffer | string): string[] {
+    const text = typeof data === 'string' ? data : data.toString('latin1');
+    return text
+      .split(/\r?\n/)
+      .map(line => this.parseIncludeName(line.trim()))
+      .filter((name): name is string => name !== undefined);
+  }
+
+  /**
+   * 解析节中的一行
+   * @param project 解析结果
+   * @param symbolic 值不是数值字面量的 #define
+   * @param section 当前节名（大写）
+   * @param line 去掉首尾空白的行
+   */
+  private static parseLine(
+    project: HHPProject,
+    symbolic: Map<string, string>,
+    section: string,
+    line: string,
+  ): void {
+    switch (section) {
+      case 'OPTIONS': {
+        const [key, value] = this.splitKeyValue(line);
+        if (key) {
+          project.rawOptions[key] = value;
+          this.applyOption(project.options, key, value);
+        }
+        break;
+      }
+      case 'FILES':
+        project.files.push(this.normalizePath(line));
+        break;
+      case 'WINDOWS': {
+        const [name, value] = this.splitKeyValue(line);
+        if (name) {
+          project.windows.push(this.parseWindow(name, value));
+        }
+        break;
+      }
+      case 'ALIAS': {
+        const [name, value] = this.splitKeyValue(line);
+        if (name && value) {
+          project.alias[name] = this.normalizePath(value);
+        }
+        break;
+      }
+      case 'MAP':
+        this.parseMapLine(project.map, symbolic, line);
+        break;
+      case 'INFOTYPES':
+        project.infoTypes.push(line);
+        break;
+      default:
+        // [MERGE FILES]、[TEXT POPUPS] 等节暂不需要
+        break;
+    }
+  }
+
+  /**
+   * 解析 [MAP] 中的 #define 行，忽略头文件中的其他预处理指令和注释。
+   * 资源头文件中常见的符号值、表达式只记录下来，不作为上下文 ID
+   * @param map 上下文 ID 映射
+   * @param symbolic 值不是数值字面量的 #define
+   * @param line 行内容
+   */
+  private static parseMapLine(
+    map: Record<string, number>,
+    symbolic: Map<string, string>,
+    line: string,
+  ): void {
+    const define = DEFINE_PATTERN.exec(
+      line.replace(/\/\/.*$|\/\*.*?\*\//g, '').trim(),
+    );
+    if (!define) {
+      return;
+    }
+
+    const [, name, value] = define;
+    const id = this.parseContextId(value!.trim());
+    if (id === undefined) {
+      symbolic.set(name!, value!.trim());
+    } else {
+      map[name!] = id;
+      symbolic.delete(name!);
+    }
+  }
+
+  /**
+   * 解析上下文 ID 字面量，例如 1000、0x3E9UL、(-1)
+   * @param value #define 的值
+   * @returns 按 DWORD 存储的上下文 ID，不是数值字面量或超出范围时为 undefined
+   */
+  private static parseContextId(value: string): number | undefined {
+    let literal = value;
+    while (/^\(.*\)$/.test(literal)) {
+      literal = literal.slice(1, -1).trim();
+    }
+
+    const match = CONTEXT_ID_PATTERN.exec(literal);
+    if (!match) {
+      return undefined;
+    }
+
+    const magnitude = Number(match[2]);
+    const id = match[1] === '-' ? -magnitude : magnitude;
+    if (id < -0x80000000 || id > 0xffffffff) {
+      return undefined;
+    }
+    return id >>> 0;
+  }
+
+  /**
+   * 把 [OPTIONS] 中的已知选项写入类型化的选项
+   * @param options 类型化的选项
+   * @param key 选项名
+   * @param value 选项值
+   */
+  private static applyOption(
+    options: HHPOptions,
+    key: string,
+    value: string,
+  ): void {
+    switch (key.toLowerCase()) {
+      case 'compiled file':
+        options.compiledFile = this.normalizePath(value);
+        break;
+      case 'contents file':
+        options.contentsFile = this.normalizePath(value);
+        break;
+      case 'index file':
+        options.indexFile = this.normalizePath(value);
+        break;
+      case 'default topic':
+        options.defaultTopic = this.normalizePath(value);
+        break;
+      case 'default window':
+        options.defaultWindow = value;
+        break;
+      case 'default font':
+        options.defaultFont = value;
+        break;
+      case 'title':
+        options.title = value;
+        break;
+      case 'language': {
+        const lcid = this.parseLanguage(value);
+        if (lcid !== undefined) {
+          options.language = lcid;
+        }
+        break;
+      }
+      case 'binary toc':
+        options.binaryTOC = this.parseYesNo(value);
+        break;
+      case 'binary index':
+        options.binaryIndex = this.parseYesNo(value);
+        break;
+      case 'full-text search':
+        options.fullTextSearch = this.parseYesNo(value);
+        break;
+      default:
+        break;
+    }
+  }
+
+  /**
+   * 解析 Yes/No 选项值
+   * @param value 选项值
+   * @returns 是否为 Yes
+   */
+  private static parseYesNo(value: string): boolean {
+    return value.toLowerCase() === 'yes';
+  }
+
+  /**
+   * 解析窗口定义：逗号分隔的字段，字段可以带引号，[] 中的坐标视为一个字段
+   * @param name 窗口名
+   * @param value 字段列表
+   * @returns 窗口定义
+   */
+  private static parseWindow(name: string, value: string): HHPWindow {
+    const fields: string[] = [];
+    let current = '';
+    let quoted = false;
+    let bracket = false;
+
+    for (const char of value) {
+      if (char === '"') {
+        quoted = !quoted;
+      } else if (!quoted && (char === '[' || char === ']')) {
+        bracket = char === '[';
+        current += char;
+      } else if (char === ',' && !quoted && !bracket) {
+        fields.push(current.trim());
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    fields.push(current.trim());
+
+    // 前五个字段依次为标题、目录文件、索引文件、默认主题和主页
+    const [title, contentsFile, indexFile, defaultTopic, homePage] = fields;
+    return {
+      name,
+      ...(title && { title }),
+      ...(contentsFile && { contentsFile: this.normalizePath(contentsFile) }),
+      ...(indexFile && { indexFile: this.normalizePath(indexFile) }),
+      ...(defaultTopic && { defaultTopic: this.normalizePath(defaultTopic) }),
+      ...(homePage && { homePage: this.normalizePath(homePage) }),
+      fields,
+    };
+  }
+
+  /**
+   * 解析 Language 选项，例如 "0x804 Chinese (China)"
+   * @param value 选项值
+   * @returns LCID，无法识别时为 undefined
+   */
+  private static parseLanguage(value: string): number | undefined {
+    const match = /^(0x[0-9a-f]+|\d+)/i.exec(value.trim());
+    return match ? Number(match[1]) : undefined;
+  }
+
+  /**
+   * 确定项目文件的字符集：按 Language 选项对应的代码页，没有时为 windows-1252
+   * @param data 文件数据或文本
+   * @returns 字符集名称
+   */
+  private static detectEncoding(data: Buffer | string): string {
+    const text = typeof data === 'string' ? data : data.toString('latin1');
+    const language = LANGUAGE_PATTERN.exec(text);
+    return Codepage.charsetForLCID(language ? Number(language[1]) : 0x409);
+  }
+
+  /**
+   * 解码文件内容：合法的 UTF-8 按 UTF-8 解码，否则按项目字符集解码
+   * @param data 文件数据或文本
+   * @param encoding 项目字符集
+   * @returns 文本
+   */
+  private static decode(data: Buffer | string, encoding: string): string {
+    return typeof data === 'string'
+      ? data
+      : Codepage.decodeName(data, encoding).replace(/^\uFEFF/, '');
+  }
+
+  /**
+   * 读取 #include 行中的文件名
+   * @param line 去掉首尾空白的行
+   * @returns 规范化后的路径，不是 #include 行时为 undefined
+   */
+  private static parseIncludeName(line: string): string | undefined {
+    const match = INCLUDE_PATTERN.exec(line);
+    return match ? this.normalizePath(match[1]!) : undefined;
+  }
+
+  /**
+   * 分割 key=value 行（只按第一个 = 分割）
+   * @param line 行内容
+   * @returns 去掉首尾空白的键和值
+   */
+  private static splitKeyValue(line: string): [string, string] {
+    const index = line.indexOf('=');
+    if (index === -1) {
+      return [line.trim(), ''];
+    }
+    return [line.slice(0, index).trim(), line.slice(index + 1).trim()];
+  }
+
+  /**
+   * 规范化项目中的路径：反斜杠改为 /，去掉开头的 ./ 和 /
+   * @param path 路径
+   * @returns 规范化后的路径
+   */
+  private static normalizePath(path: string): string {
+    return path
+      .trim()
+      .replace(/\\/g, '/')
+      .replace(/^(\.\/|\/)+/, '');
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * 项目文件模块
+ * 解析 HTML Help Workshop 的项目文件（.hhp）
+ */
+
+export { HHPParser } from './hhp-parser';
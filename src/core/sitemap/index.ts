@@ -0,0 +1,6 @@
+/**
+ * 站点地图模块
+ * 解析 HTML Help 的目录（.hhc）和索引（.hhk）文件
+ */
+
+export { SitemapParser } from './sitemap-parser';
@@ -0,0 +1,323 @@
+import type {
+  IndexEntry,
+  IndexTopic,
+  SitemapDocument,
+  SitemapNode,
+  SitemapParam,
+  SitemapParseOptions,
+  TOCEntry,
+} from '../types';
+import { Codepage } from '../../utils/encoding/codepage';
+
+/**
+ * 常见的 HTML 命名实体
+ */
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  hellip: '…',
+  ndash: '–',
+  mdash: '—',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+};
+
+const TAG_PATTERN = /<!--[\s\S]*?(?:-->|$)|<(\/?)([A-Za-z]+)\b([^>]*)>/g;
+const ATTRIBUTE_PATTERN =
+  /([A-Za-z_][\w-]*)\s*=\s*(?:"([^"]*)"?|'([^']*)'?|([^\s>]+))/g;
+
+/**
+ * 正在收集参数的 <OBJECT>
+ */
+interface OpenObject {
+  sitemap: boolean;
+  params: SitemapParam[];
+}
+
+/**
+ * 站点地图（.hhc/.hhk）解析器
+ * 站点地图是 HTML Help Workshop 生成的松散 HTML：<LI> 常不闭合，
+ * <OBJECT> 也可能缺少结束标签，因此按标签流容错解析，不依赖完整的文档结构
+ */
+export class SitemapParser {
+  /**
+   * 解析站点地图文档
+   * @param data 文件数据或已解码的文本
+   * @param options 解析选项
+   * @returns 站点地图文档
+   */
+  static parse(
+    data: Buffer | string,
+    options: SitemapParseOptions = {},
+  ): SitemapDocument {
+    const html = typeof data === 'string' ? data : this.decode(data, options);
+    const document: SitemapDocument = { properties: [], items: [] };
+    const lists: SitemapNode[][] = [document.items];
+    let current: OpenObject | null = null;
+
+    // 结束当前 <OBJECT>，缺少 </OBJECT> 时由下一个结构标签隐式结束
+    const closeObject = (): void => {
+      if (!current) {
+        return;
+      }
+
+      if (current.sitemap) {
+        lists[lists.length - 1].push({ params: current.params, children: [] });
+      } else {
+        document.properties.push(...current.params);
+      }
+      current = null;
+    };
+
+    for (const match of html.matchAll(TAG_PATTERN)) {
+      if (!match[2]) {
+        continue; // 注释
+      }
+
+      const closing = match[1] === '/';
+      const tag = match[2].toLowerCase();
+      const attributes = this.parseAttributes(match[3]);
+
+      switch (tag) {
+        case 'object':
+          closeObject();
+          if (!closing) {
+            current = {
+              sitemap: attributes.type?.toLowerCase() === 'text/sitemap',
+              params: [],
+            };
+          }
+          break;
+        case 'param':
+          if (current && attributes.name !== undefined) {
+            current.params.push({
+              name: attributes.name,
+              value: attributes.value ?? '',
+            });
+          }
+          break;
+        case 'li':
+          closeObject();
+          break;
+        case 'ul':
+          closeObject();
+          if (closing) {
+            if (lists.length > 1) {
+              lists.pop();
+            }
+          } else {
+            // 嵌套列表属于上一项；列表前没有项时继续使用当前列表
+            const list = lists[lists.length - 1];
+            const parent = list[list.length - 1];
+            lists.push(parent ? parent.children : list);
+          }
+          break;
+        default:
+          break;
+      }
+    }
+    closeObject();
+
+    return document;
+  }
+
+  /**
+   * 解析目录文件（.hhc）
+   * @param data 文件数据或已解码的文本
+   * @param options 解析选项
+   * @returns 目录树
+   */
+  static parseTOC(
+    data: Buffer | string,
+    options: SitemapParseOptions = {},
+  ): TOCEntry[] {
+    return this.toTOC(this.parse(data, options).items);
+  }
+
+  /**
+   * 解析索引文件（.hhk）
+   * @param data 文件数据或已解码的文本
+   * @param options 解析选项
+   * @returns 索引条目
+   */
+  static parseIndex(
+    data: Buffer | string,
+    options: SitemapParseOptions = {},
+  ): IndexEntry[] {
+    return this.toIndex(this.parse(data, options).items);
+  }
+
+  /**
+   * 将站点地图项转换为目录项
+   * @param nodes 站点地图项
+   * @param level 层级
+   * @returns 目录项
+   */
+  static toTOC(nodes: SitemapNode[], level: number = 0): TOCEntry[] {
+    const entries: TOCEntry[] = [];
+
+    for (const node of nodes) {
+      const entry: TOCEntry = {
+        name: this.getParam(node, 'name') ?? '',
+        local: this.getParam(node, 'local') ?? '',
+        level,
+      };
+
+      const imageNumber = parseInt(this.getParam(node, 'imagenumber') ?? '');
+      if (!isNaN(imageNumber)) {
+        entry.imageNumber = imageNumber;
+      }
+
+      const merge = this.getParam(node, 'merge');
+      if (merge) {
+        entry.merge = merge;
+      }
+
+      const children = this.toTOC(node.children, level + 1);
+      if (children.length > 0) {
+        entry.children = children;
+      }
+
+      if (entry.name || entry.local || entry.merge || entry.children) {
+        entries.push(entry);
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * 将站点地图项转换为索引条目
+   * 第一个 Name 是关键词，之后的 Name/Local 成对出现，表示关键词指向的各个主题；
+   * 只有 Local 时主题标题沿用关键词
+   * @param nodes 站点地图项
+   * @returns 索引条目
+   */
+  static toIndex(nodes: SitemapNode[]): IndexEntry[] {
+    const entries: IndexEntry[] = [];
+
+    for (const node of nodes) {
+      let keyword: string | undefined;
+      let pending: IndexTopic | undefined;
+      const topics: IndexTopic[] = [];
+      let seeAlso: string | undefined;
+
+      for (const param of node.params) {
+        const name = param.name.toLowerCase();
+        if (name === 'name') {
+          if (keyword === undefined) {
+            keyword = param.value;
+          } else {
+            pending = { name: param.value, local: '' };
+          }
+        } else if (name === 'local') {
+          if (pending) {
+            pending.local = param.value;
+            topics.push(pending);
+            pending = undefined;
+          } else {
+            topics.push({ name: keyword ?? '', local: param.value });
+          }
+        } else if (name === 'see also') {
+          seeAlso = param.value;
+        }
+      }
+
+      if (keyword === undefined) {
+        continue;
+      }
+
+      const entry: IndexEntry = {
+        name: keyword,
+        local: topics[0]?.local ?? '',
+      };
+      if (topics.length > 0) {
+        entry.topics = topics;
+      }
+      if (seeAlso) {
+        entry.seeAlso = seeAlso;
+      }
+
+      const children = this.toIndex(node.children);
+      if (children.length > 0) {
+        entry.children = children;
+      }
+
+      entries.push(entry);
+    }
+
+    return entries;
+  }
+
+  /**
+   * 解码站点地图文件
+   * 优先使用文档 <meta> 中声明的 charset，其次是调用方给出的编码；
+   * 都没有时按 UTF-8 解码，不是合法 UTF-8 时按 windows-1252 解码
+   * @param data 文件数据
+   * @param options 解析选项
+   * @returns 文档文本
+   */
+  static decode(data: Buffer, options: SitemapParseOptions = {}): string {
+    return Codepage.decodeHTML(data, options.encoding);
+  }
+
+  /**
+   * 获取第一个同名参数（参数名不区分大小写）
+   * @param node 站点地图项
+   * @param name 小写的参数名
+   * @returns 参数值
+   */
+  private static getParam(node: SitemapNode, name: string): string | undefined {
+    return node.params.find(param => param.name.toLowerCase() === name)?.value;
+  }
+
+  /**
+   * 解析标签属性
+   * @param source 标签名之后的属性文本
+   * @returns 小写属性名到解码后属性值的映射
+   */
+  private static parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+
+    for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+      attributes[match[1].toLowerCase()] = this.decodeEntities(
+        match[2] ?? match[3] ?? match[4] ?? '',
+      );
+    }
+
+    return attributes;
+  }
+
+  /**
+   * 解码 HTML 实体
+   * @param value 属性值
+   * @returns 解码后的文本
+   */
+  static decodeEntities(value: string): string {
+    return value.replace(
+      /&(#x[0-9a-f]+|#\d+|[a-z]+\d*);?/gi,
+      (entity, body: string) => {
+        if (body[0] === '#') {
+          const code =
+            body[1] === 'x' || body[1] === 'X'
+              ? parseInt(body.slice(2), 16)
+              : parseInt(body.slice(1), 10);
+          return code > 0 && code <= 0x10ffff
+            ? String.fromCodePoint(code)
+            : entity;
+        }
+
+        return NAMED_ENTITIES[body.toLowerCase()] ?? entity;
+      },
+    );
+  }
+}
@@ -11,11 +11,11 @@ export interface ITSFHeader {
   unknown1: number;
   timestamp: number;
   languageId: number;
-  unknown2: number;
-  unknown3: number;
-  directoryOffset: number;
-  directoryLength: number;
-  unknown4: number;
+  headerSectionOffset: number; // 头部段 0 偏移
+  headerSectionLength: number; // 头部段 0 长度
+  directoryOffset: number; // 头部段 1（ITSP + 目录块）偏移
+  directoryLength: number; // 头部段 1 长度
+  contentOffset: number; // 内容段 0 偏移
 }
 
 export interface ITSPHeader {
@@ -27,9 +27,11 @@ export interface ITSPHeader {
   density: number;
   depth: number;
   rootIndex: number;
-  firstPMGI: number;
-  lastPMGI: number;
+  firstPMGI: number; // 第一个 PMGL 块编号
+  lastPMGI: number; // 最后一个 PMGL 块编号
   unknown2: number;
+  chunkCount: number; // 目录块总数
+  languageId: number;
 }
 
 export interface LZXCHeader {
@@ -50,6 +52,14 @@ export interface DirectoryEntry {
   section: number;
 }
 
+export interface PMGLChunkHeader {
+  signature: string; // 'PMGL'
+  freeSpace: number; // 块末尾空闲区（含 quickref）长度
+  unknown: number;
+  prevChunk: number; // 上一个 PMGL 块编号，-1 表示无
+  nextChunk: number; // 下一个 PMGL 块编号，-1 表示无
+}
+
 export interface ResetTable {
   version: number;
   blockCount: number;
@@ -62,8 +72,8 @@ export interface ResetTable {
 }
 
 export interface ResetTableEntry {
-  compressedLength: number;
-  uncompressedLength: number;
+  compressedOffset: number; // 该块在压缩流中的偏移
+  uncompressedOffset: number; // 该块在解压后数据中的偏移
 }
 
 export interface CHMFile {
@@ -80,16 +90,48 @@ export interface CHMHeader {
   lzxc: LZXCHeader;
 }
 
+export interface DirectoryIndex {
+  source: ByteSource; // 目录块所在的数据源
+  offset: number; // 第一个目录块在数据源中的偏移
+  chunkSize: number;
+  density: number; // quickref 密度
+  rootIndex: number; // 根 PMGI 块编号，-1 表示没有索引块
+  firstPMGL: number;
+  chunkCount: number;
+  encoding: string; // 名称不是合法 UTF-8 时使用的字符集（来自 LCID）
+}
+
 export interface CHMDirectory {
   entries: Map<string, DirectoryEntry>;
   rootPath: string;
+  index?: DirectoryIndex; // 用于按需查找的目录块索引
+  lazy?: boolean; // 为 true 时 entries 尚未展开
+}
+
+export interface ParseOptions {
+  lazyDirectory?: boolean; // 不展开目录，按需通过 PMGI 索引查找
+  loadTopics?: boolean; // 同时解析主题表
+}
+
+export interface ContentSection {
+  index: number; // DirectoryEntry.section 对应的编号
+  name: string; // NameList 中的名称，例如 MSCompressed
+  transforms: string[]; // Transform/List 中的变换 GUID
+  offset: number; // 内容流在文件中的偏移
+  length: number; // 内容流长度
+  lzxc?: LZXCHeader; // LZX 变换的控制数据
+  resetTable?: ResetTable; // LZX 变换的重置表，quickParse 时不解析
 }
 
 export interface ParsedCHM {
   header: CHMHeader;
   directory: CHMDirectory;
+  sections: ContentSection[]; // 按编号排列的内容段
   resetTable: ResetTable;
-  contentOffset: number;
+  contentOffset: number; // 内容段 0 在文件中的偏移
+  compressedOffset: number; // MSCompressed/Content 在文件中的偏移
+  compressedLength: number; // MSCompressed/Content 的长度
+  topics?: TopicEntry[]; // 仅在 ParseOptions.loadTopics 时解析
 }
 
 export interface ExtractOptions {
@@ -102,6 +144,8 @@ export interface ExtractOptions {
 export interface PackOptions {
   inputDir: string;
   outputPath: string;
+  projectFile?: string; // .hhp 项目文件，指定时按项目编译
+  language?: number; // LCID，省略时使用项目语言或按标题推断
   title?: string;
   defaultTopic?: string;
   compression?: boolean;
@@ -114,19 +158,38 @@ export interface HuffmanTree {
   symbols: number[];
   codes: number[];
   lengths: number[];
+  table?: HuffmanDecodeTable; // 查表解码用的表，首次解码时生成
+}
+
+export interface HuffmanDecodeTable {
+  tableBits: number; // 主表的索引位数
+  maxLength: number; // 最长码长，即每次解码预览的位数
+  // 主表及其后的溢出子表：> 0 为 (符号 << 5) | 码长，
+  // < 0 为 ~((子表偏移 << 5) | 子表索引位数)，0 表示无效的码
+  entries: Int32Array;
+}
+
+export interface HuffmanCodeTable {
+  codes: number[]; // 按符号索引的码值
+  lengths: number[]; // 按符号索引的码长，0 表示符号未使用
+}
+
+export interface PretreeCode {
+  symbol: number; // 预树符号：0-16 为码长差值，17-19 为游程
+  extraBits: number;
+  extraValue: number;
 }
 
 export interface HuffmanDecoder {
-  literalTree: HuffmanTree;
-  matchTree: HuffmanTree;
-  lengthTree: HuffmanTree;
+  literalTree: HuffmanTree; // 主树：字面量 + 匹配头
+  matchTree: HuffmanTree; // 对齐偏移树（仅 ALIGNED 块）
+  lengthTree: HuffmanTree; // 长度树
 }
 
 export interface LZXBlock {
   type: number;
   uncompressedSize: number;
-  alignedOffset?: number;
-  data: Buffer;
+  remaining: number;
 }
 
 export interface LZXWindow {
@@ -146,6 +209,12 @@ export interface BitReader {
   hasMore(): boolean;
 }
 
+export interface ByteSource {
+  readonly size: number;
+  read(offset: number, length: number): Buffer;
+  close?(): void;
+}
+
 export interface CompressionStats {
   originalSize: number;
   compressedSize: number;
@@ -160,25 +229,171 @@ export interface CHMMetadata {
   comments?: string;
   keywords?: string;
   language?: string;
+  lcid?: number;
   defaultTopic?: string;
+  defaultWindow?: string;
   homePage?: string;
   toc?: string;
   index?: string;
+  compilerVersion?: string;
+  binaryTOC?: boolean;
+  binaryIndex?: boolean;
+  fullTextSearch?: boolean;
   createdTime?: Date;
   modifiedTime?: Date;
 }
 
+export interface SystemFile {
+  version: number;
+  contentsFile?: string; // 代码 0：.hhc 目录文件
+  indexFile?: string; // 代码 1：.hhk 索引文件
+  defaultTopic?: string; // 代码 2
+  title?: string; // 代码 3
+  lcid?: number; // 代码 4
+  dbcs?: boolean; // 代码 4
+  fullTextSearch?: boolean; // 代码 4
+  hasKLinks?: boolean; // 代码 4
+  hasALinks?: boolean; // 代码 4
+  timestamp?: Date; // 代码 4：编译时间
+  defaultWindow?: string; // 代码 5
+  compiledFile?: string; // 代码 6：编译输出文件名（不含扩展名）
+  binaryIndex?: boolean; // 代码 7
+  compilerVersion?: string; // 代码 9
+  binaryTOC?: boolean; // 代码 11
+  defaultFont?: string; // 代码 16
+}
+
 export interface TOCEntry {
   name: string;
   local: string;
   level: number;
   children?: TOCEntry[];
+  imageNumber?: number; // 目录图标编号
+  merge?: string; // 合并的其他 CHM 目录
 }
 
 export interface IndexEntry {
   name: string;
   local: string;
   keywords?: string[];
+  topics?: IndexTopic[]; // 关键词指向的全部主题
+  seeAlso?: string; // 参见的其他关键词
+  children?: IndexEntry[]; // 子关键词
+}
+
+export interface IndexTopic {
+  name: string;
+  local: string;
+}
+
+/**
+ * 站点地图（.hhc/.hhk）中的 <OBJECT> 参数
+ */
+export interface SitemapParam {
+  name: string;
+  value: string;
+}
+
+/**
+ * 站点地图中的一个 <LI> 项
+ */
+export interface SitemapNode {
+  params: SitemapParam[];
+  children: SitemapNode[];
+}
+
+/**
+ * 解析后的站点地图文档
+ */
+export interface SitemapDocument {
+  properties: SitemapParam[]; // 非 text/sitemap 的 <OBJECT>（如 text/site properties）
+  items: SitemapNode[];
+}
+
+export interface SitemapParseOptions {
+  encoding?: string; // 文档未声明 charset 时使用的编码
+}
+
+/**
+ * HTML Help Workshop 项目（.hhp）[OPTIONS] 节中编译器使用的选项
+ */
+export interface HHPOptions {
+  compiledFile?: string;
+  contentsFile?: string;
+  indexFile?: string;
+  defaultTopic?: string;
+  defaultWindow?: string;
+  defaultFont?: string;
+  title?: string;
+  language?: number; // LCID
+  binaryTOC?: boolean;
+  binaryIndex?: boolean;
+  fullTextSearch?: boolean;
+}
+
+/**
+ * [WINDOWS] 节中的窗口定义
+ */
+export interface HHPWindow {
+  name: string;
+  title?: string;
+  contentsFile?: string;
+  indexFile?: string;
+  defaultTopic?: string;
+  homePage?: string;
+  fields: string[]; // 等号右侧的全部字段（已去掉引号）
+}
+
+/**
+ * 解析后的 .hhp 项目
+ */
+export interface HHPProject {
+  options: HHPOptions;
+  rawOptions: Record<string, string>; // [OPTIONS] 中的全部键值，键保持原样
+  files: string[]; // [FILES] 中的文件，相对于项目目录，使用 / 分隔
+  windows: HHPWindow[];
+  alias: Record<string, string>; // [ALIAS]：上下文名称到主题文件
+  map: Record<string, number>; // [MAP]：上下文名称到数字上下文 ID
+  infoTypes: string[]; // [INFOTYPES] 中的原始行
+}
+
+export interface HHPParseOptions {
+  encoding?: string; // 文件不是合法 UTF-8 时使用的编码，默认按 Language 选项确定
+  // 读取 #include 文件（路径相对于项目目录），文件不存在时返回 undefined
+  readInclude?: (path: string) => Buffer | string | undefined;
+}
+
+export interface TopicEntry {
+  index: number; // #TOPICS 中的主题编号
+  title: string; // #STRINGS 中的标题，没有时为空字符串
+  local: string; // CHM 内的文件路径
+  url?: string; // #URLSTR 中记录的外部 URL
+}
+
+/**
+ * #IVB 中的上下文 ID 映射项（来自项目的 [MAP] 和 [ALIAS]）
+ */
+export interface ContextMapEntry {
+  id: number; // 数字上下文 ID
+  local: string; // #STRINGS 中的目标主题路径
+}
+
+/**
+ * 全文索引（$FIftiMain）中的词条
+ */
+export interface FullTextWord {
+  word: string;
+  inTitle: boolean; // 词出现在标题中（否则为正文）
+  documentCount: number; // 包含该词的主题数
+}
+
+/**
+ * 全文索引的查询结果
+ */
+export interface FullTextMatch {
+  topic: TopicEntry;
+  inTitle: boolean;
+  locations: number[]; // 词在主题中的位置（按词计数）
 }
 
 export interface CHMInfo {
@@ -200,6 +415,7 @@ export interface CHMBasicInfo {
     itsp: string;
     lzxc: string;
   };
+  metadata: CHMMetadata;
   statistics: string;
   fileCount: number;
   totalSize: number;
@@ -220,6 +436,7 @@ export interface PackCommandOptions {
   output: string;
   title?: string;
   defaultTopic?: string;
+  language?: string;
   compression: boolean;
   verbose: boolean;
 }
@@ -242,7 +459,16 @@ export interface CHMOptions {
 export interface LZXConfig {
   windowSize?: number;
   resetInterval?: number;
-  compressionLevel?: number;
+  compressionLevel?: number; // 1（最快）- 9（压缩率最高）
+  intelFileSize?: number; // Intel E8 预处理的翻译大小，0 表示不使用（CHM 默认）
+}
+
+/**
+ * LZ 匹配查找结果
+ */
+export interface LZMatch {
+  distance: number;
+  length: number;
 }
 
 /**
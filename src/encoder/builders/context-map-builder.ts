@@ -0,0 +1,73 @@
+import { StringTableBuilder } from './string-table-builder';
+
+const IVB_ENTRY_SIZE = 8;
+const URL_SCHEME_PATTERN = /^[a-z][a-z0-9+.-]+:/i;
+
+/**
+ * 上下文映射构建器
+ * 把项目的 [MAP]（名称到数字 ID）和 [ALIAS]（名称到主题文件）合并为 #IVB，
+ * 格式与 ContextMap 读取的格式相同：DWORD 数据长度，
+ * 之后每项为 DWORD 上下文 ID、DWORD 目标主题路径在 #STRINGS 中的偏移
+ */
+export class ContextMapBuilder {
+  /**
+   * 构建 #IVB
+   * 只写入同时出现在 [MAP] 和 [ALIAS] 中的名称，按上下文 ID 排序
+   * @param map 上下文名称到数字 ID
+   * @param alias 上下文名称到主题文件
+   * @param strings #STRINGS 构建器，主题路径写入其中
+   * @param files 打包的文件列表，[ALIAS] 的目标必须在其中
+   * @returns #IVB 数据，没有可写入的项时为 undefined
+   */
+  static build(
+    map: Record<string, number>,
+    alias: Record<string, string>,
+    strings: StringTableBuilder,
+    files: string[],
+  ): Buffer | undefined {
+    this.checkTargets(alias, files);
+
+    const entries = Object.entries(map)
+      .filter(([name]) => alias[name] !== undefined)
+      .sort(([, a], [, b]) => a - b);
+    if (entries.length === 0) {
+      return undefined;
+    }
+
+    const data = Buffer.alloc(4 + entries.length * IVB_ENTRY_SIZE);
+    data.writeUInt32LE(entries.length * IVB_ENTRY_SIZE, 0);
+
+    entries.forEach(([name, id], index) => {
+      const offset = 4 + index * IVB_ENTRY_SIZE;
+      data.writeUInt32LE(id, offset);
+      data.writeUInt32LE(strings.add(alias[name]!), offset + 4);
+    });
+
+    return data;
+  }
+
+  /**
+   * 检查 [ALIAS] 的目标文件是否被打包，路径不区分大小写，忽略 # 之后的锚点
+   * 带协议的地址（例如 http:、mk:@MSITStore:）不检查
+   * @param alias 上下文名称到主题文件
+   * @param files 打包的文件列表
+   */
+  private static checkTargets(
+    alias: Record<string, string>,
+    files: string[],
+  ): void {
+    const packed = new Set(
+      files.map(file => file.replace(/\\/g, '/').toLowerCase()),
+    );
+
+    for (const [name, target] of Object.entries(alias)) {
+      if (URL_SCHEME_PATTERN.test(target)) {
+        continue;
+      }
+      const file = target.replace(/#.*$/, '').replace(/^\//, '');
+      if (!packed.has(file.toLowerCase())) {
+        throw new Error(`[ALIAS] 引用的文件未包含在项目中: ${name}=${target}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { CHM_INTERNAL_FILES, LZX_TRANSFORM_GUID } from '../../constants';
+
+/**
+ * ::DataSpace 存储构建器
+ * 负责生成描述内容段的内部文件，这些文件本身存放在未压缩的内容段 0 中
+ */
+export class DataSpaceBuilder {
+  // 段 0 为未压缩段，段 1 为 LZX 压缩段
+  private static readonly SECTION_NAMES = ['Uncompressed', 'MSCompressed'];
+
+  /**
+   * 创建 MSCompressed 段的全部存储文件
+   * @param options 压缩段数据
+   * @returns 内部文件名到文件内容的映射（按写入顺序排列）
+   */
+  static createFiles(options: {
+    controlData: Buffer;
+    resetTable: Buffer;
+    content: Buffer;
+    uncompressedLength: number;
+  }): Map<string, Buffer> {
+    return new Map([
+      [CHM_INTERNAL_FILES.nameList, this.serializeNameList(this.SECTION_NAMES)],
+      [
+        CHM_INTERNAL_FILES.spanInfo,
+        this.serializeSpanInfo(options.uncompressedLength),
+      ],
+      [
+        CHM_INTERNAL_FILES.transformList,
+        this.serializeTransformList([LZX_TRANSFORM_GUID]),
+      ],
+      [CHM_INTERNAL_FILES.resetTable, options.resetTable],
+      [CHM_INTERNAL_FILES.controlData, options.controlData],
+      [CHM_INTERNAL_FILES.content, options.content],
+    ]);
+  }
+
+  /**
+   * 序列化 NameList：WORD 文件长度（以 WORD 为单位）、WORD 段数，
+   * 之后每段为 WORD 字符数、UTF-16LE 名称和结尾的 0
+   * @param names 段名数组
+   * @returns NameList 数据
+   */
+  static serializeNameList(names: string[]): Buffer {
+    const length =
+      4 + names.reduce((sum, name) => sum + 4 + name.length * 2, 0);
+    const buffer = Buffer.alloc(length);
+
+    buffer.writeUInt16LE(length / 2, 0);
+    buffer.writeUInt16LE(names.length, 2);
+
+    let offset = 4;
+    for (const name of names) {
+      buffer.writeUInt16LE(name.length, offset);
+      buffer.write(name, offset + 2, 'utf16le');
+      offset += 4 + name.length * 2;
+    }
+
+    return buffer;
+  }
+
+  /**
+   * 序列化 SpanInfo：QWORD 段的未压缩长度
+   * @param uncompressedLength 未压缩长度
+   * @returns SpanInfo 数据
+   */
+  static serializeSpanInfo(uncompressedLength: number): Buffer {
+    const buffer = Buffer.alloc(8);
+    buffer.writeBigUInt64LE(BigInt(uncompressedLength), 0);
+    return buffer;
+  }
+
+  /**
+   * 序列化 Transform/List：UTF-16LE 编码的 GUID 序列
+   * @param guids 变换 GUID 数组
+   * @returns Transform/List 数据
+   */
+  static serializeTransformList(guids: string[]): Buffer {
+    return Buffer.from(guids.join(''), 'utf16le');
+  }
+}
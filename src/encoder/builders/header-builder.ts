@@ -4,12 +4,30 @@ import type {
   LZXCHeader,
   DirectoryEntry,
 } from '../../core/types';
+import { EncInt } from '../../utils/io/encint';
+
+/**
+ * 已编码的目录块条目
+ */
+interface DirectoryRecord {
+  name: string;
+  data: Buffer;
+}
 
 /**
  * CHM 头部构建器
  * 负责创建和序列化 CHM 文件头部
  */
 export class CHMHeaderBuilder {
+  // ITSF 和 ITSP 头部中的固定 GUID
+  private static readonly ITSF_GUIDS = [
+    '{7C01FD10-7BAA-11D0-9E0C-00A0C922E6EC}',
+    '{7C01FD11-7BAA-11D0-9E0C-00A0C922E6EC}',
+  ] as const;
+  private static readonly ITSP_GUID = '{5D02926A-212E-11D0-9DF9-00A0C922E6EC}';
+  private static readonly PMGL_HEADER_LENGTH = 0x14;
+  private static readonly PMGI_HEADER_LENGTH = 0x08;
+
   /**
    * 创建 ITSF 头部
    * @param options 头部选项
@@ -18,6 +36,7 @@ export class CHMHeaderBuilder {
   static createITSFHeader(options: {
     directoryOffset: number;
     directoryLength: number;
+    contentOffset?: number;
     languageId?: number;
     timestamp?: number;
   }): ITSFHeader {
@@ -25,14 +44,16 @@ export class CHMHeaderBuilder {
       signature: 'ITSF',
       version: 3,
       headerLength: 96,
-      unknown1: 0,
+      unknown1: 1,
       timestamp: options.timestamp || Math.floor(Date.now() / 1000),
       languageId: options.languageId || 0x409, // 默认英语
-      unknown2: 0,
-      unknown3: 0,
+      headerSectionOffset: 96,
+      headerSectionLength: 0x18,
       directoryOffset: options.directoryOffset,
       directoryLength: options.directoryLength,
-      unknown4: 0,
+      contentOffset:
+        options.contentOffset ??
+        options.directoryOffset + options.directoryLength,
     };
   }
 
@@ -46,6 +67,7 @@ export class CHMHeaderBuilder {
       chunkSize?: number;
       density?: number;
       depth?: number;
+      languageId?: number;
     } = {},
   ): ITSPHeader {
     return {
@@ -56,10 +78,12 @@ export class CHMHeaderBuilder {
       chunkSize: options.chunkSize || 4096,
       density: options.density || 2,
       depth: options.depth || 2,
-      rootIndex: 0,
+      rootIndex: -1,
       firstPMGI: 0,
       lastPMGI: 0,
-      unknown2: 0,
+      unknown2: -1,
+      chunkCount: 1,
+      languageId: options.languageId || 0x409,
     };
   }
 
@@ -92,32 +116,22 @@ export class CHMHeaderBuilder {
    */
   static serializeITSFHeader(header: ITSFHeader): Buffer {
     const buffer = Buffer.alloc(96);
-    let offset = 0;
-
-    // 写入签名
-    buffer.write(header.signature, offset, 4, 'ascii');
-    offset += 4;
-
-    // 写入其他字段
-    buffer.writeUInt32LE(header.version, offset);
-    offset += 4;
-    buffer.writeUInt32LE(header.headerLength, offset);
-    offset += 4;
-    buffer.writeUInt32LE(header.unknown1, offset);
-    offset += 4;
-    buffer.writeUInt32LE(header.timestamp, offset);
-    offset += 4;
-    buffer.writeUInt32LE(header.languageId, offset);
-    offset += 4;
-    buffer.writeUInt32LE(header.unknown2, offset);
-    offset += 4;
-    buffer.writeUInt32LE(header.unknown3, offset);
-    offset += 4;
-    buffer.writeUInt32LE(header.directoryOffset, offset);
-    offset += 4;
-    buffer.writeUInt32LE(header.directoryLength, offset);
-    offset += 4;
-    buffer.writeUInt32LE(header.unknown4, offset);
+
+    buffer.write(header.signature, 0, 4, 'ascii');
+    buffer.writeUInt32LE(header.version, 4);
+    buffer.writeUInt32LE(header.headerLength, 8);
+    buffer.writeUInt32LE(header.unknown1, 12);
+    buffer.writeUInt32LE(header.timestamp >>> 0, 16);
+    buffer.writeUInt32LE(header.languageId, 20);
+    this.writeGUID(buffer, this.ITSF_GUIDS[0], 24);
+    this.writeGUID(buffer, this.ITSF_GUIDS[1], 40);
+
+    // 头部段表
+    buffer.writeBigUInt64LE(BigInt(header.headerSectionOffset), 56);
+    buffer.writeBigUInt64LE(BigInt(header.headerSectionLength), 64);
+    buffer.writeBigUInt64LE(BigInt(header.directoryOffset), 72);
+    buffer.writeBigUInt64LE(BigInt(header.directoryLength), 80);
+    buffer.writeBigUInt64LE(BigInt(header.contentOffset), 88);
 
     return buffer;
   }
@@ -129,105 +143,288 @@ export class CHMHeaderBuilder {
    */
   static serializeITSPHeader(header: ITSPHeader): Buffer {
     const buffer = Buffer.alloc(84);
-    let offset = 0;
-
-    buffer.write(header.signature, offset, 4, 'ascii');
-    offset += 4;
-    buffer.writeUInt32LE(header.version, offset);
-    offset += 4;
-    buffer.writeUInt32LE(header.headerLength, offset);
-    offset += 4;
-    buffer.writeUInt32LE(header.unknown1, offset);
-    offset += 4;
-    buffer.writeUInt32LE(header.chunkSize, offset);
-    offset += 4;
-    buffer.writeUInt32LE(header.density, offset);
-    offset += 4;
-    buffer.writeUInt32LE(header.depth, offset);
-    offset += 4;
-    buffer.writeUInt32LE(header.rootIndex, offset);
-    offset += 4;
-    buffer.writeUInt32LE(header.firstPMGI, offset);
-    offset += 4;
-    buffer.writeUInt32LE(header.lastPMGI, offset);
-    offset += 4;
-    buffer.writeUInt32LE(header.unknown2, offset);
+
+    buffer.write(header.signature, 0, 4, 'ascii');
+    buffer.writeUInt32LE(header.version, 4);
+    buffer.writeUInt32LE(header.headerLength, 8);
+    buffer.writeUInt32LE(header.unknown1, 12);
+    buffer.writeUInt32LE(header.chunkSize, 16);
+    buffer.writeUInt32LE(header.density, 20);
+    buffer.writeUInt32LE(header.depth, 24);
+    buffer.writeInt32LE(header.rootIndex, 28);
+    buffer.writeInt32LE(header.firstPMGI, 32);
+    buffer.writeInt32LE(header.lastPMGI, 36);
+    buffer.writeInt32LE(header.unknown2, 40);
+    buffer.writeUInt32LE(header.chunkCount, 44);
+    buffer.writeUInt32LE(header.languageId, 48);
+    this.writeGUID(buffer, this.ITSP_GUID, 52);
+    buffer.writeUInt32LE(header.headerLength, 68);
+    buffer.writeInt32LE(-1, 72);
+    buffer.writeInt32LE(-1, 76);
+    buffer.writeInt32LE(-1, 80);
 
     return buffer;
   }
 
   /**
-   * 序列化 LZXC 头部
+   * 序列化 LZXC 头部（ControlData 格式，版本 2 以 0x8000 为单位）
    * @param header LZXC 头部
    * @returns 序列化后的数据
    */
   static serializeLZXCHeader(header: LZXCHeader): Buffer {
-    const buffer = Buffer.alloc(40);
-    let offset = 0;
-
-    buffer.write(header.signature, offset, 4, 'ascii');
-    offset += 4;
-    buffer.writeUInt32LE(header.version, offset);
-    offset += 4;
-    buffer.writeUInt32LE(header.resetInterval, offset);
-    offset += 4;
-    buffer.writeUInt32LE(header.windowSize, offset);
-    offset += 4;
-    buffer.writeUInt32LE(header.cacheSize, offset);
-    offset += 4;
-    buffer.writeUInt32LE(header.unknown, offset);
+    const buffer = Buffer.alloc(28);
+    const unit = header.version === 2 ? 0x8000 : 1;
+
+    buffer.writeUInt32LE(6, 0); // 签名之后的 DWORD 数量
+    buffer.write(header.signature, 4, 4, 'ascii');
+    buffer.writeUInt32LE(header.version, 8);
+    buffer.writeUInt32LE(Math.floor(header.resetInterval / unit), 12);
+    buffer.writeUInt32LE(Math.floor(header.windowSize / unit), 16);
+    buffer.writeUInt32LE(Math.floor(header.cacheSize / unit), 20);
+    buffer.writeUInt32LE(header.unknown, 24);
 
     return buffer;
   }
 
   /**
-   * 序列化目录条目
+   * 写入 GUID（前三段为小端序）
+   * @param buffer 目标缓冲区
+   * @param guid GUID 字符串
+   * @param offset 写入偏移
+   */
+  private static writeGUID(buffer: Buffer, guid: string, offset: number): void {
+    const hex = guid.replace(/[{}-]/g, '');
+    buffer.writeUInt32LE(parseInt(hex.substring(0, 8), 16), offset);
+    buffer.writeUInt16LE(parseInt(hex.substring(8, 12), 16), offset + 4);
+    buffer.writeUInt16LE(parseInt(hex.substring(12, 16), 16), offset + 6);
+    Buffer.from(hex.substring(16), 'hex').copy(buffer, offset + 8);
+  }
+
+  /**
+   * 序列化目录：按名称排序后把 ENCINT 条目装入 PMGL 块，
+   * 叶子块多于一个时逐层建立 PMGI 索引，直到只剩一个根块
    * @param entries 目录条目数组
-   * @returns 序列化后的目录数据
+   * @param options ITSP 头部选项
+   * @returns ITSP 头部和目录数据（ITSP 头部及其后的全部目录块）
    */
-  static serializeDirectory(entries: DirectoryEntry[]): Buffer {
-    const entrySize = 32;
-    const buffer = Buffer.alloc(entries.length * entrySize);
-    let offset = 0;
-
-    for (const entry of entries) {
-      // 写入文件名长度
-      const nameBuffer = Buffer.from(entry.name, 'utf-8');
-      buffer.writeUInt16LE(nameBuffer.length, offset);
-      offset += 2;
-
-      // 写入文件名
-      nameBuffer.copy(buffer, offset);
-      offset += Math.min(nameBuffer.length, 24); // 最大 24 字节文件名
-
-      // 填充剩余字节
-      while (offset % entrySize !== 26) {
-        buffer.writeUInt8(0, offset);
-        offset++;
+  static serializeDirectory(
+    entries: DirectoryEntry[],
+    options: {
+      chunkSize?: number;
+      density?: number;
+      languageId?: number;
+    } = {},
+  ): { header: ITSPHeader; data: Buffer } {
+    const header = this.createITSPHeader(options);
+    const { chunkSize, density } = header;
+    const chunks: Buffer[] = [];
+
+    // 叶子块：prev/next 链接相邻块
+    const records = this.sortDirectoryEntries(entries).map(entry => ({
+      name: entry.name,
+      data: Buffer.concat([
+        this.encodeEntryName(entry.name),
+        EncInt.encode(entry.section),
+        EncInt.encode(entry.offset),
+        EncInt.encode(entry.length),
+      ]),
+    }));
+    const leaves = this.groupRecords(
+      records,
+      chunkSize - this.PMGL_HEADER_LENGTH,
+      density,
+    );
+    leaves.forEach((group, i) => {
+      const chunk = this.writeChunk(
+        'PMGL',
+        this.PMGL_HEADER_LENGTH,
+        group,
+        chunkSize,
+        density,
+      );
+      chunk.writeInt32LE(i - 1, 12);
+      chunk.writeInt32LE(i + 1 < leaves.length ? i + 1 : -1, 16);
+      chunks.push(chunk);
+    });
+
+    // 索引块：每个条目指向一个子块，名称为子块的第一个条目名称
+    let children = leaves.map((group, i) => ({
+      name: group[0]?.name ?? '',
+      chunkIndex: i,
+    }));
+    let depth = 1;
+    while (children.length > 1) {
+      const groups = this.groupRecords(
+        children.map(child => ({
+          name: child.name,
+          data: Buffer.concat([
+            this.encodeEntryName(child.name),
+            EncInt.encode(child.chunkIndex),
+          ]),
+        })),
+        chunkSize - this.PMGI_HEADER_LENGTH,
+        density,
+      );
+      children = groups.map(group => {
+        chunks.push(
+          this.writeChunk(
+            'PMGI',
+            this.PMGI_HEADER_LENGTH,
+            group,
+            chunkSize,
+            density,
+          ),
+        );
+        return { name: group[0]!.name, chunkIndex: chunks.length - 1 };
+      });
+      depth++;
+    }
+
+    header.depth = depth;
+    header.rootIndex = depth > 1 ? chunks.length - 1 : -1;
+    header.firstPMGI = 0;
+    header.lastPMGI = leaves.length - 1;
+    header.chunkCount = chunks.length;
+
+    return {
+      header,
+      data: Buffer.concat([this.serializeITSPHeader(header), ...chunks]),
+    };
+  }
+
+  /**
+   * 按目录的排序规则排列条目：先不区分大小写比较，相同时再区分大小写
+   * @param entries 目录条目数组
+   * @returns 排序后的新数组
+   */
+  private static sortDirectoryEntries(
+    entries: DirectoryEntry[],
+  ): DirectoryEntry[] {
+    const compare = (a: string, b: string): number =>
+      a < b ? -1 : a > b ? 1 : 0;
+    const sorted = entries
+      .slice()
+      .sort(
+        (a, b) =>
+          compare(a.name.toLowerCase(), b.name.toLowerCase()) ||
+          compare(a.name, b.name),
+      );
+
+    for (let i = 1; i < sorted.length; i++) {
+      if (sorted[i]!.name === sorted[i - 1]!.name) {
+        throw new Error(`目录条目重复: ${sorted[i]!.name}`);
+      }
+    }
+
+    return sorted;
+  }
+
+  /**
+   * 把已编码的条目按顺序分组，使每组连同 quickref 区能放入一个块
+   * @param records 已编码的条目
+   * @param capacity 块头部之后的可用空间
+   * @param density quickref 密度
+   * @returns 条目分组，没有条目时返回一个空组
+   */
+  private static groupRecords(
+    records: DirectoryRecord[],
+    capacity: number,
+    density: number,
+  ): DirectoryRecord[][] {
+    const interval = 1 + (1 << density);
+    const groups: DirectoryRecord[][] = [];
+    let current: DirectoryRecord[] = [];
+    let used = 0;
+
+    for (const record of records) {
+      if (record.data.length + 2 > capacity) {
+        throw new Error(`目录条目过长，无法放入目录块: ${record.name}`);
       }
 
-      // 写入其他属性
-      buffer.writeUInt8(entry.isCompressed ? 1 : 0, offset);
-      offset += 1;
-      buffer.writeUInt8(entry.section, offset);
-      offset += 1;
-      buffer.writeUInt32LE(entry.offset, offset);
-      offset += 4;
+      // quickref 区：条目数 WORD 加上每 interval 个条目一个偏移
+      const quickRefSize = 2 + 2 * Math.floor(current.length / interval);
+      if (used + record.data.length + quickRefSize > capacity) {
+        groups.push(current);
+        current = [];
+        used = 0;
+      }
 
-      // 确保偏移对齐到条目边界
-      offset = Math.ceil(offset / entrySize) * entrySize;
+      current.push(record);
+      used += record.data.length;
     }
 
+    groups.push(current);
+    return groups;
+  }
+
+  /**
+   * 写入一个目录块：头部签名、空闲区长度、条目和末尾的 quickref 区
+   * @param signature 块签名
+   * @param headerLength 块头部长度
+   * @param records 块内条目
+   * @param chunkSize 块大小
+   * @param density quickref 密度
+   * @returns 块数据
+   */
+  private static writeChunk(
+    signature: 'PMGL' | 'PMGI',
+    headerLength: number,
+    records: DirectoryRecord[],
+    chunkSize: number,
+    density: number,
+  ): Buffer {
+    const chunk = Buffer.alloc(chunkSize);
+    const interval = 1 + (1 << density);
+    const quickRef: number[] = [];
+    let offset = headerLength;
+
+    records.forEach((record, i) => {
+      // quickref 偏移相对于第一个条目
+      if (i > 0 && i % interval === 0) {
+        quickRef.push(offset - headerLength);
+      }
+      record.data.copy(chunk, offset);
+      offset += record.data.length;
+    });
+
+    chunk.write(signature, 0, 4, 'ascii');
+    chunk.writeUInt32LE(chunkSize - offset, 4);
+    quickRef.forEach((value, i) => {
+      chunk.writeUInt16LE(value, chunkSize - 4 - i * 2);
+    });
+    chunk.writeUInt16LE(records.length, chunkSize - 2);
+
+    return chunk;
+  }
+
+  /**
+   * 编码条目名称：ENCINT 长度加 UTF-8 名称
+   * @param name 条目名称
+   * @returns 编码后的数据
+   */
+  private static encodeEntryName(name: string): Buffer {
+    const nameBuffer = Buffer.from(name, 'utf-8');
+    return Buffer.concat([EncInt.encode(nameBuffer.length), nameBuffer]);
+  }
+
+  /**
+   * 序列化头部段 0：固定标记 0x01FE 和整个文件的长度
+   * @param fileSize 文件总长度
+   * @returns 序列化后的数据
+   */
+  static serializeHeaderSection(fileSize: number): Buffer {
+    const buffer = Buffer.alloc(0x18);
+    buffer.writeUInt32LE(0x01fe, 0);
+    buffer.writeBigUInt64LE(BigInt(fileSize), 8);
     return buffer;
   }
 
   /**
-   * 计算头部总大小
-   * @param resetTableSize 重置表大小
+   * 计算目录之前的头部总大小
    * @returns 头部总大小
    */
-  static calculateHeaderSize(resetTableSize: number): number {
-    return 96 + 84 + 40 + resetTableSize; // ITSF + ITSP + LZXC + resetTable
+  static calculateHeaderSize(): number {
+    return 96 + 0x18; // ITSF + 头部段 0
   }
 
   /**
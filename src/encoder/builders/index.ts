@@ -4,4 +4,9 @@
  */
 
 export { CHMHeaderBuilder } from './header-builder';
+export { DataSpaceBuilder } from './dataspace-builder';
 export { TOCBuilder } from './toc-builder';
+export { StringTableBuilder } from './string-table-builder';
+export { SystemFileBuilder } from './system-file-builder';
+export { TopicTableBuilder } from './topic-table-builder';
+export { ContextMapBuilder } from './context-map-builder';
@@ -0,0 +1,86 @@
+import { Codepage } from '../../utils/encoding/codepage';
+
+/**
+ * 内部字符串表构建器
+ * 生成 #STRINGS、#URLSTR 这类由以 null 结尾的字符串组成、通过偏移引用的文件。
+ * 偏移 0 处是一个空字符串；相同的字符串只写入一次
+ */
+export class StringTableBuilder {
+  private chunks: Buffer[];
+  private offsets: Map<string, number>;
+  private length: number;
+  readonly encoding: string;
+  private blockSize: number;
+
+  /**
+   * @param encoding 字符串的字符集
+   * @param blockSize 块大小，字符串不跨越块边界（0 表示不分块）
+   */
+  constructor(encoding: string = 'utf-8', blockSize: number = 0) {
+    this.chunks = [Buffer.alloc(1)];
+    this.offsets = new Map([['', 0]]);
+    this.length = 1;
+    this.encoding = encoding;
+    this.blockSize = blockSize;
+  }
+
+  /**
+   * 添加字符串
+   * @param text 字符串
+   * @returns 字符串在表中的偏移
+   */
+  add(text: string): number {
+    const existing = this.offsets.get(text);
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    const offset = this.append(this.encode(text));
+    this.offsets.set(text, offset);
+    return offset;
+  }
+
+  /**
+   * 编码以 null 结尾的字符串，代码页中不存在的字符会导致错误
+   * @param text 字符串
+   * @returns 编码后的数据
+   */
+  encode(text: string): Buffer {
+    if (!Codepage.canEncode(text, this.encoding)) {
+      throw new Error(`字符串无法按 ${this.encoding} 编码: ${text}`);
+    }
+
+    return Buffer.concat([
+      Codepage.encode(text, this.encoding),
+      Buffer.alloc(1),
+    ]);
+  }
+
+  /**
+   * 追加一条原始记录，必要时先用 0 填充到下一个块
+   * @param record 记录数据
+   * @returns 记录在表中的偏移
+   */
+  append(record: Buffer): number {
+    if (this.blockSize > 0 && record.length <= this.blockSize) {
+      const used = this.length % this.blockSize;
+      if (used + record.length > this.blockSize) {
+        this.chunks.push(Buffer.alloc(this.blockSize - used));
+        this.length += this.blockSize - used;
+      }
+    }
+
+    const offset = this.length;
+    this.chunks.push(record);
+    this.length += record.length;
+    return offset;
+  }
+
+  /**
+   * 生成字符串表数据
+   * @returns 文件数据
+   */
+  toBuffer(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
+}
@@ -0,0 +1,137 @@
+import type { SystemFile } from '../../core/types';
+import { Codepage } from '../../utils/encoding/codepage';
+
+/**
+ * #SYSTEM 记录代码（只列出编码器写入的记录）
+ */
+enum SystemCode {
+  ContentsFile = 0,
+  IndexFile = 1,
+  DefaultTopic = 2,
+  Title = 3,
+  LocaleInfo = 4,
+  DefaultWindow = 5,
+  CompiledFile = 6,
+  CompilerVersion = 9,
+  DefaultFont = 16,
+}
+
+// FILETIME 起点（1601-01-01）与 Unix 纪元之间的毫秒数
+const FILETIME_EPOCH_OFFSET = 11644473600000n;
+
+/**
+ * #SYSTEM 文件构建器
+ * 输出格式与 SystemFileParser 读取的格式相同：DWORD 版本号，
+ * 之后是若干条 WORD 代码、WORD 数据长度、数据的记录。
+ * 二进制目录和二进制索引（代码 7、11）需要对应的内部文件，不写入
+ */
+export class SystemFileBuilder {
+  private static readonly VERSION = 3;
+  private static readonly DEFAULT_LCID = 0x409;
+
+  /**
+   * 构建 #SYSTEM 文件
+   * @param system #SYSTEM 信息，未提供的字段不写入
+   * @param encoding 字符串的字符集，省略时按 LCID 确定
+   * @returns 文件数据
+   */
+  static build(system: SystemFile, encoding?: string): Buffer {
+    const lcid = system.lcid ?? this.DEFAULT_LCID;
+    const charset = encoding ?? Codepage.charsetForLCID(lcid);
+    const records: Buffer[] = [];
+
+    const strings: Array<[SystemCode, string | undefined]> = [
+      [SystemCode.ContentsFile, system.contentsFile],
+      [SystemCode.IndexFile, system.indexFile],
+      [SystemCode.DefaultTopic, system.defaultTopic],
+      [SystemCode.Title, system.title],
+    ];
+    for (const [code, value] of strings) {
+      if (value !== undefined) {
+        records.push(this.createStringRecord(code, value, charset));
+      }
+    }
+
+    records.push(
+      this.createRecord(SystemCode.LocaleInfo, this.createLocaleInfo(system)),
+    );
+
+    const trailing: Array<[SystemCode, string | undefined]> = [
+      [SystemCode.DefaultWindow, system.defaultWindow],
+      [SystemCode.CompiledFile, system.compiledFile],
+      [SystemCode.CompilerVersion, system.compilerVersion],
+      [SystemCode.DefaultFont, system.defaultFont],
+    ];
+    for (const [code, value] of trailing) {
+      if (value !== undefined) {
+        records.push(this.createStringRecord(code, value, charset));
+      }
+    }
+
+    const version = Buffer.alloc(4);
+    version.writeUInt32LE(system.version || this.VERSION, 0);
+    return Buffer.concat([version, ...records]);
+  }
+
+  /**
+   * 创建代码 4 的区域信息：LCID、DBCS、全文搜索、KLinks、ALinks 标志、
+   * 编译时间（FILETIME）和两个保留 DWORD
+   * @param system #SYSTEM 信息
+   * @returns 记录数据
+   */
+  private static createLocaleInfo(system: SystemFile): Buffer {
+    const data = Buffer.alloc(36);
+    data.writeUInt32LE(system.lcid ?? this.DEFAULT_LCID, 0);
+    data.writeUInt32LE(system.dbcs ? 1 : 0, 4);
+    data.writeUInt32LE(system.fullTextSearch ? 1 : 0, 8);
+    data.writeUInt32LE(system.hasKLinks ? 1 : 0, 12);
+    data.writeUInt32LE(system.hasALinks ? 1 : 0, 16);
+
+    if (system.timestamp) {
+      const filetime =
+        (BigInt(system.timestamp.getTime()) + FILETIME_EPOCH_OFFSET) * 10000n;
+      data.writeBigUInt64LE(filetime, 20);
+    }
+
+    return data;
+  }
+
+  /**
+   * 创建以 null 结尾的字符串记录，代码页中不存在的字符会导致错误
+   * @param code 记录代码
+   * @param value 字符串
+   * @param charset 字符集
+   * @returns 记录数据
+   */
+  private static createStringRecord(
+    code: SystemCode,
+    value: string,
+    charset: string,
+  ): Buffer {
+    if (!Codepage.canEncode(value, charset)) {
+      throw new Error(`#SYSTEM 字符串无法按 ${charset} 编码: ${value}`);
+    }
+
+    return this.createRecord(
+      code,
+      Buffer.concat([Codepage.encode(value, charset), Buffer.alloc(1)]),
+    );
+  }
+
+  /**
+   * 创建记录：WORD 代码、WORD 数据长度、数据
+   * @param code 记录代码
+   * @param data 记录数据
+   * @returns 记录
+   */
+  private static createRecord(code: SystemCode, data: Buffer): Buffer {
+    if (data.length > 0xffff) {
+      throw new Error(`#SYSTEM 记录过长: 代码 ${code}`);
+    }
+
+    const header = Buffer.alloc(4);
+    header.writeUInt16LE(code, 0);
+    header.writeUInt16LE(data.length, 2);
+    return Buffer.concat([header, data]);
+  }
+}
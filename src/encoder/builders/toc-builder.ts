@@ -1,6 +1,6 @@
 import { promises as fs } from 'fs';
 import { extname, basename, join } from 'path';
-import type { TOCEntry, IndexEntry } from '../../core/types';
+import type { TOCEntry, IndexEntry, TopicEntry } from '../../core/types';
 
 /**
  * TOC (Table of Contents) 构建器
@@ -70,14 +70,39 @@ export class TOCBuilder {
     return this.indexEntries;
   }
 
+  /**
+   * 从文件列表构建主题表条目
+   * @param files 文件列表
+   * @param inputDir 输入目录
+   * @returns 按文件顺序编号的主题，标题取自 <title> 或第一个 <h1>
+   */
+  async buildTopics(files: string[], inputDir: string): Promise<TopicEntry[]> {
+    const htmlFiles = files.filter(file =>
+      ['.htm', '.html'].includes(extname(file).toLowerCase()),
+    );
+
+    const topics: TopicEntry[] = [];
+    for (const file of htmlFiles) {
+      topics.push({
+        index: topics.length,
+        title: (await this.extractTitle(join(inputDir, file))) ?? '',
+        local: file.replace(/\\/g, '/'),
+      });
+    }
+
+    return topics;
+  }
+
   /**
    * 生成 HHC (HTML Help Contents) 文件
+   * 文件以 UTF-8 写入，通过 <meta> 声明字符集，读取时不按 CHM 语言的代码页解码
    * @returns HHC 文件内容
    */
   generateHHC(): string {
     const content = `<!DOCTYPE HTML PUBLIC "-//IETF//DTD HTML//EN">
 <HTML>
 <HEAD>
+<meta http-equiv="Content-Type" content="text/html; charset=utf-8">
 <meta name="GENERATOR" content="chmkit">
 <!-- Sitemap 1.0 -->
 </HEAD><BODY>
@@ -93,13 +118,14 @@ ${this.renderTOCEntries(this.entries)}
   }
 
   /**
-   * 生成 HHK (HTML Help Index) 文件
+   * 生成 HHK (HTML Help Index) 文件（UTF-8，同样声明字符集）
    * @returns HHK 文件内容
    */
   generateHHK(): string {
     const content = `<!DOCTYPE HTML PUBLIC "-//IETF//DTD HTML//EN">
 <HTML>
 <HEAD>
+<meta http-equiv="Content-Type" content="text/html; charset=utf-8">
 <meta name="GENERATOR" content="chmkit">
 <!-- Sitemap 1.0 -->
 </HEAD><BODY>
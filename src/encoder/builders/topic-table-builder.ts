@@ -0,0 +1,93 @@
+import type { TopicEntry } from '../../core/types';
+import { StringTableBuilder } from './string-table-builder';
+
+const TOPIC_ENTRY_SIZE = 16;
+const URL_TABLE_ENTRY_SIZE = 12;
+const URL_TABLE_BLOCK_SIZE = 0x1000;
+const URL_TABLE_BLOCK_ENTRIES = 341; // 每块 341 项，末尾 4 字节填充
+const NO_STRING = 0xffffffff;
+const TOPIC_FLAGS = 2; // 主题不在 #TOCIDX 中
+
+/**
+ * 主题表构建器
+ * 生成 #TOPICS、#URLTBL 和 #URLSTR，格式与 TopicTable 读取的格式相同：
+ * #TOPICS 每 16 字节一项：DWORD #TOCIDX 偏移、DWORD #STRINGS 标题偏移、
+ * DWORD #URLTBL 偏移、WORD 目录标志、WORD 未知；
+ * #URLTBL 每 12 字节一项：DWORD 编号、DWORD 主题编号、DWORD #URLSTR 偏移；
+ * #URLSTR 记录为 DWORD URL 偏移、DWORD 框架名偏移、以 null 结尾的本地路径
+ */
+export class TopicTableBuilder {
+  /**
+   * 构建主题表
+   * @param topics 主题数组，主题编号即数组下标
+   * @param strings #STRINGS 构建器，标题写入其中
+   * @returns #TOPICS、#URLTBL 和 #URLSTR 数据
+   */
+  static build(
+    topics: TopicEntry[],
+    strings: StringTableBuilder,
+  ): { topics: Buffer; urlTable: Buffer; urlStrings: Buffer } {
+    const topicTable = Buffer.alloc(topics.length * TOPIC_ENTRY_SIZE);
+    const urlTable = Buffer.alloc(this.getURLTableOffset(topics.length));
+    const urlStrings = new StringTableBuilder(strings.encoding);
+
+    topics.forEach((topic, index) => {
+      const urlTableOffset = this.getURLTableOffset(index);
+      const urlStringOffset = this.appendURLString(urlStrings, topic);
+
+      urlTable.writeUInt32LE(index, urlTableOffset);
+      urlTable.writeUInt32LE(index, urlTableOffset + 4);
+      urlTable.writeUInt32LE(urlStringOffset, urlTableOffset + 8);
+
+      const offset = index * TOPIC_ENTRY_SIZE;
+      topicTable.writeUInt32LE(0, offset);
+      topicTable.writeUInt32LE(
+        topic.title ? strings.add(topic.title) : NO_STRING,
+        offset + 4,
+      );
+      topicTable.writeUInt32LE(urlTableOffset, offset + 8);
+      topicTable.writeUInt16LE(TOPIC_FLAGS, offset + 12);
+    });
+
+    return {
+      topics: topicTable,
+      urlTable,
+      urlStrings: urlStrings.toBuffer(),
+    };
+  }
+
+  /**
+   * 计算 #URLTBL 项的偏移（按 4KB 块排列）
+   * @param index 项编号
+   * @returns 项偏移；编号为项数时即表的长度
+   */
+  private static getURLTableOffset(index: number): number {
+    const block = Math.floor(index / URL_TABLE_BLOCK_ENTRIES);
+    const entry = index % URL_TABLE_BLOCK_ENTRIES;
+    return block * URL_TABLE_BLOCK_SIZE + entry * URL_TABLE_ENTRY_SIZE;
+  }
+
+  /**
+   * 写入主题的 #URLSTR 记录
+   * @param urlStrings #URLSTR 构建器
+   * @param topic 主题
+   * @returns 记录偏移
+   */
+  private static appendURLString(
+    urlStrings: StringTableBuilder,
+    topic: TopicEntry,
+  ): number {
+    // 外部 URL 先写入，由记录头部引用
+    const header = Buffer.alloc(8);
+    if (topic.url) {
+      header.writeUInt32LE(urlStrings.add(topic.url), 0);
+    }
+
+    return urlStrings.append(
+      Buffer.concat([
+        header,
+        urlStrings.encode(topic.local.replace(/^\/+/, '')),
+      ]),
+    );
+  }
+}
@@ -1,10 +1,23 @@
 import { promises as fs } from 'fs';
-import { join } from 'path';
-import type { PackOptions, DirectoryEntry } from '../core/types';
+import { basename, extname, join } from 'path';
+import type {
+  PackOptions,
+  DirectoryEntry,
+  TopicEntry,
+  HHPProject,
+} from '../core/types';
+import { HHPParser } from '../core/project/hhp-parser';
 import { LZXEncoder } from './lzx-encoder';
 import { TOCBuilder } from './builders/toc-builder';
 import { DirectoryScanner } from './directory-scanner';
 import { CHMHeaderBuilder } from './builders/header-builder';
+import { DataSpaceBuilder } from './builders/dataspace-builder';
+import { SystemFileBuilder } from './builders/system-file-builder';
+import { TopicTableBuilder } from './builders/topic-table-builder';
+import { StringTableBuilder } from './builders/string-table-builder';
+import { ContextMapBuilder } from './builders/context-map-builder';
+import { Codepage } from '../utils/encoding/codepage';
+import { CHM_SYSTEM_FILES, VERSION } from '../constants';
 import { CHMFileWriter } from './chm-file-writer';
 
 /**
@@ -12,10 +25,34 @@ import { CHMFileWriter } from './chm-file-writer';
  * 负责将目录结构编码为 CHM 文件格式
  */
 export class CHMEncoder {
+  private static readonly CONTENTS_FILE = 'Table of Contents.hhc';
+  private static readonly INDEX_FILE = 'Index.hhk';
+  private static readonly DEFAULT_LANGUAGE_ID = 0x409; // 英语（美国）
+  // 推断语言时依次尝试的 LCID，每个代表一种 ANSI 代码页
+  private static readonly LANGUAGE_CANDIDATES = [
+    0x409, // windows-1252
+    0x405, // windows-1250
+    0x419, // windows-1251
+    0x408, // windows-1253
+    0x41f, // windows-1254
+    0x40d, // windows-1255
+    0x401, // windows-1256
+    0x425, // windows-1257
+    0x42a, // windows-1258
+    0x41e, // windows-874
+    0x804, // gbk
+    0x404, // big5
+    0x411, // shift_jis
+    0x412, // euc-kr
+  ];
+  private static readonly STRINGS_BLOCK_SIZE = 0x1000;
+
   private lzxEncoder: LZXEncoder;
   private tocBuilder: TOCBuilder;
   private files: Map<string, Buffer> = new Map();
+  private uncompressedFiles: Map<string, Buffer> = new Map();
   private directoryEntries: DirectoryEntry[] = [];
+  private languageId: number = CHMEncoder.DEFAULT_LANGUAGE_ID;
 
   constructor() {
     this.lzxEncoder = new LZXEncoder();
@@ -24,40 +61,55 @@ export class CHMEncoder {
 
   /**
    * 编码目录为 CHM 文件
+   * 指定项目文件时只打包项目列出的文件，并使用项目声明的目录、索引和选项
    * @param options 打包选项
    */
   async encode(options: PackOptions): Promise<void> {
-    // 1. 扫描输入目录
-    const fileList = await DirectoryScanner.scanDirectory(options.inputDir);
+    const project = options.projectFile
+      ? await HHPParser.parseFile(options.projectFile)
+      : undefined;
+
+    // 1. 扫描输入目录，或按项目列出文件
+    const fileList = project
+      ? await this.resolveProjectFiles(project, options.inputDir)
+      : await DirectoryScanner.scanDirectory(options.inputDir);
 
     // 2. 读取所有文件
     await this.loadFiles(options.inputDir, fileList);
 
-    // 3. 生成 TOC 和索引
-    await this.generateTOCAndIndex(fileList, options.inputDir);
+    // 3. 生成 TOC 和索引（项目自带站点地图文件时不生成）
+    if (!project) {
+      await this.generateTOCAndIndex(fileList, options.inputDir);
+    }
+
+    // 4. 生成 #SYSTEM 和主题表
+    await this.generateSystemFiles(options, fileList, project);
 
-    // 4. 压缩文件内容
+    // 5. 压缩文件内容（内容段 1）
     const compressedData = await this.compressFiles();
 
-    // 5. 构建目录条目
-    this.buildDirectoryEntries(compressedData);
+    // 6. 构建目录条目
+    this.buildDirectoryEntries();
 
-    // 6. 构建头部
-    const headers = this.buildHeaders(compressedData);
+    // 7. 构建内容段 0（#SYSTEM 和 ::DataSpace 存储文件）
+    const content = this.buildUncompressedSection(compressedData);
 
-    // 7. 序列化目录
+    // 8. 序列化目录（ITSP 头部及 PMGL/PMGI 块）
     const directory = CHMHeaderBuilder.serializeDirectory(
       this.directoryEntries,
+      { languageId: this.languageId },
     );
 
-    // 8. 写入 CHM 文件
+    // 9. 构建头部
+    const headers = this.buildHeaders(directory.data.length, content.length);
+
+    // 10. 写入 CHM 文件
     await CHMFileWriter.writeCHMFile(
       options.outputPath,
       {
         headers,
-        resetTable: compressedData.resetTable,
-        directory,
-        content: compressedData.content,
+        directory: directory.data,
+        content,
       },
       options,
     );
@@ -76,6 +128,67 @@ export class CHMEncoder {
     }
   }
 
+  /**
+   * 列出项目要打包的文件：[FILES] 中的文件（支持 * 和 ? 通配符）
+   * 以及项目声明的目录和索引文件
+   * @param project 项目
+   * @param inputDir 项目目录
+   * @returns 相对于项目目录的文件列表
+   */
+  private async resolveProjectFiles(
+    project: HHPProject,
+    inputDir: string,
+  ): Promise<string[]> {
+    const patterns = [
+      ...project.files,
+      project.options.contentsFile,
+      project.options.indexFile,
+    ].filter((file): file is string => file !== undefined);
+
+    const files = new Set<string>();
+    let available: string[] | undefined;
+
+    for (const pattern of patterns) {
+      if (!/[*?]/.test(pattern)) {
+        const stats = await fs
+          .stat(join(inputDir, pattern))
+          .catch(() => undefined);
+        if (!stats?.isFile()) {
+          throw new Error(`项目中列出的文件不存在: ${pattern}`);
+        }
+        files.add(pattern);
+        continue;
+      }
+
+      if (!available) {
+        available = (await DirectoryScanner.scanDirectory(inputDir)).map(file =>
+          file.replace(/\\/g, '/'),
+        );
+      }
+      const matcher = this.createWildcardMatcher(pattern);
+      for (const file of available) {
+        if (matcher.test(file)) {
+          files.add(file);
+        }
+      }
+    }
+
+    return Array.from(files);
+  }
+
+  /**
+   * 把 [FILES] 中的通配符转换为正则表达式，通配符不匹配目录分隔符
+   * @param pattern 通配符路径
+   * @returns 不区分大小写的正则表达式
+   */
+  private createWildcardMatcher(pattern: string): RegExp {
+    const source = pattern
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '[^/]*')
+      .replace(/\?/g, '[^/]');
+    return new RegExp(`^${source}$`, 'i');
+  }
+
   /**
    * 生成 TOC 和索引
    * @param fileList 文件列表
@@ -94,120 +207,241 @@ export class CHMEncoder {
     const hhkContent = this.tocBuilder.generateHHK();
 
     // 添加到文件列表
-    this.files.set('Table of Contents.hhc', Buffer.from(hhcContent, 'utf-8'));
-    this.files.set('Index.hhk', Buffer.from(hhkContent, 'utf-8'));
+    this.files.set(CHMEncoder.CONTENTS_FILE, Buffer.from(hhcContent, 'utf-8'));
+    this.files.set(CHMEncoder.INDEX_FILE, Buffer.from(hhkContent, 'utf-8'));
   }
 
   /**
-   * 压缩所有文件
-   * @returns 压缩后的数据
+   * 生成 #SYSTEM、主题表和上下文映射
+   * #SYSTEM 放在内容段 0，#TOPICS、#URLTBL、#URLSTR、#IVB 和 #STRINGS
+   * 随页面一起压缩
+   * @param options 打包选项
+   * @param fileList 文件列表
+   * @param project 项目，命令行选项优先于项目选项
    */
-  private async compressFiles(): Promise<{
-    content: Buffer;
-    resetTable: Buffer;
-    totalUncompressed: number;
-    totalCompressed: number;
-  }> {
-    const allContent: Buffer[] = [];
-    let totalUncompressed = 0;
+  private async generateSystemFiles(
+    options: PackOptions,
+    fileList: string[],
+    project?: HHPProject,
+  ): Promise<void> {
+    const topics = await this.tocBuilder.buildTopics(
+      fileList,
+      options.inputDir,
+    );
+    const defaultTopic =
+      options.defaultTopic ??
+      project?.options.defaultTopic ??
+      this.findDefaultTopic(topics);
+    const title =
+      options.title ??
+      project?.options.title ??
+      topics.find(topic => topic.local === defaultTopic)?.title;
+    const contentsFile = project
+      ? project.options.contentsFile
+      : CHMEncoder.CONTENTS_FILE;
+    const indexFile = project
+      ? project.options.indexFile
+      : CHMEncoder.INDEX_FILE;
+    const compiledFile = basename(
+      options.outputPath,
+      extname(options.outputPath),
+    );
 
-    // 合并所有文件内容
-    for (const [filename, content] of this.files) {
-      // 添加文件名长度 + 文件名 + 内容长度 + 内容
-      const filenameBuffer = Buffer.from(filename, 'utf-8');
-      const filenameLength = Buffer.alloc(4);
-      filenameLength.writeUInt32LE(filenameBuffer.length, 0);
+    // 字符串按语言的代码页存储：指定的语言优先，其次是项目语言，
+    // 都没有时选择能表示全部标题和路径的代码页
+    this.languageId =
+      options.language ??
+      project?.options.language ??
+      this.detectLanguage([
+        title ?? '',
+        defaultTopic ?? '',
+        compiledFile,
+        ...topics.flatMap(topic => [topic.title, topic.local]),
+      ]);
 
-      const contentLength = Buffer.alloc(4);
-      contentLength.writeUInt32LE(content.length, 0);
+    const encoding = Codepage.charsetForLCID(this.languageId);
+    this.uncompressedFiles.set(
+      CHM_SYSTEM_FILES.system,
+      SystemFileBuilder.build(
+        {
+          version: 3,
+          ...(contentsFile && { contentsFile }),
+          ...(indexFile && { indexFile }),
+          ...(defaultTopic && { defaultTopic }),
+          ...(title && { title }),
+          ...(project?.options.defaultFont && {
+            defaultFont: project.options.defaultFont,
+          }),
+          lcid: this.languageId,
+          timestamp: new Date(),
+          compiledFile,
+          compilerVersion: `chmkit ${VERSION}`,
+        },
+        encoding,
+      ),
+    );
 
-      allContent.push(filenameLength);
-      allContent.push(filenameBuffer);
-      allContent.push(contentLength);
-      allContent.push(content);
+    const strings = new StringTableBuilder(
+      encoding,
+      CHMEncoder.STRINGS_BLOCK_SIZE,
+    );
+    const tables = TopicTableBuilder.build(topics, strings);
+    const contextMap =
+      project &&
+      ContextMapBuilder.build(project.map, project.alias, strings, fileList);
 
-      totalUncompressed += content.length;
+    // files 中的名称不含开头的 /，构建目录条目时补上
+    this.files.set(CHM_SYSTEM_FILES.topics.slice(1), tables.topics);
+    this.files.set(CHM_SYSTEM_FILES.urlTable.slice(1), tables.urlTable);
+    this.files.set(CHM_SYSTEM_FILES.urlStrings.slice(1), tables.urlStrings);
+    if (contextMap) {
+      this.files.set(CHM_SYSTEM_FILES.contextMap.slice(1), contextMap);
     }
+    this.files.set(CHM_SYSTEM_FILES.strings.slice(1), strings.toBuffer());
+  }
 
-    const combinedContent = Buffer.concat(allContent);
+  /**
+   * 推断 CHM 语言：选择第一个能无损编码全部字符串的代码页。
+   * 含假名时优先日语，含谚文时优先韩语，否则汉字优先按简体中文处理
+   * @param texts 需要写入字符串表的文本
+   * @returns LCID
+   */
+  private detectLanguage(texts: string[]): number {
+    const text = texts.join('');
+    const preferred = /[\u3040-\u30ff]/.test(text)
+      ? [0x411]
+      : /[\uac00-\ud7af]/.test(text)
+        ? [0x412]
+        : [];
+
+    const lcid = [...preferred, ...CHMEncoder.LANGUAGE_CANDIDATES].find(
+      candidate => Codepage.canEncode(text, Codepage.charsetForLCID(candidate)),
+    );
+    if (lcid === undefined) {
+      throw new Error(
+        '标题或路径中的字符无法用同一个代码页表示，请通过 language 选项指定语言',
+      );
+    }
+
+    return lcid;
+  }
 
-    // 压缩合并后的内容
+  /**
+   * 选择默认主题：优先使用根目录下的 index/default 页面，否则使用第一个页面
+   * @param topics 主题数组
+   * @returns 默认主题的本地路径，没有页面时为 undefined
+   */
+  private findDefaultTopic(topics: TopicEntry[]): string | undefined {
+    const preferred = topics.find(topic =>
+      /^(index|default)\.html?$/i.test(topic.local),
+    );
+    return (preferred ?? topics[0])?.local;
+  }
+
+  /**
+   * 压缩所有文件：文件内容按顺序拼接为内容段 1 后整体压缩
+   * @returns 压缩后的数据
+   */
+  private async compressFiles(): Promise<{
+    content: Buffer;
+    resetTable: Buffer;
+    totalUncompressed: number;
+    totalCompressed: number;
+  }> {
+    const combinedContent = Buffer.concat(Array.from(this.files.values()));
     const compressed = this.lzxEncoder.compress(combinedContent);
 
     return {
       content: compressed.compressedData,
       resetTable: compressed.resetTable,
-      totalUncompressed,
+      totalUncompressed: combinedContent.length,
       totalCompressed: compressed.compressedSize,
     };
   }
 
   /**
-   * 构建目录条目
-   * @param compressedData 压缩后的数据
+   * 构建内容段 1 中各文件的目录条目，偏移为文件在未压缩段中的位置
    */
-  private buildDirectoryEntries(compressedData: {
-    content: Buffer;
-    resetTable: Buffer;
-    totalUncompressed: number;
-    totalCompressed: number;
-  }): void {
-    void compressedData; // 防止 linter 警告，将来会使用此参数
+  private buildDirectoryEntries(): void {
     this.directoryEntries = [];
     let currentOffset = 0;
 
-    // 为每个文件创建目录条目
     for (const [filename, content] of this.files) {
-      const entry: DirectoryEntry = {
-        name: filename,
+      this.directoryEntries.push({
+        name: `/${filename.replace(/\\/g, '/')}`,
         isCompressed: true,
         offset: currentOffset,
-        length: content.length, // 这里应该是压缩后的长度，简化处理
-        uncompressedLength: content.length,
-        section: 0,
-      };
-
-      this.directoryEntries.push(entry);
+        length: content.length,
+        section: 1,
+      });
       currentOffset += content.length;
     }
   }
 
   /**
-   * 构建头部
+   * 构建内容段 0：依次存放 #SYSTEM 和 ::DataSpace 存储文件并加入目录条目
    * @param compressedData 压缩数据
-   * @returns 头部数组
+   * @returns 内容段 0 数据
    */
-  private buildHeaders(compressedData: {
+  private buildUncompressedSection(compressedData: {
     content: Buffer;
     resetTable: Buffer;
     totalUncompressed: number;
     totalCompressed: number;
-  }): Buffer[] {
-    // 计算目录偏移：ITSF(96) + ITSP(84) + LZXC(40) + resetTable
-    const directoryOffset = CHMHeaderBuilder.calculateHeaderSize(
-      compressedData.resetTable.length,
-    );
-    const directoryLength = this.directoryEntries.length * 32; // 每个条目 32 字节
-
-    // 创建头部
-    const itsfHeader = CHMHeaderBuilder.createITSFHeader({
-      directoryOffset,
-      directoryLength,
-    });
-
-    const itspHeader = CHMHeaderBuilder.createITSPHeader();
-
+  }): Buffer {
     const lzxConfig = this.lzxEncoder.getConfig();
     const lzxcHeader = CHMHeaderBuilder.createLZXCHeader({
       resetInterval: lzxConfig.resetInterval,
       windowSize: lzxConfig.windowSize,
     });
 
-    // 序列化头部
+    const files = new Map([
+      ...this.uncompressedFiles,
+      ...DataSpaceBuilder.createFiles({
+        controlData: CHMHeaderBuilder.serializeLZXCHeader(lzxcHeader),
+        resetTable: compressedData.resetTable,
+        content: compressedData.content,
+        uncompressedLength: compressedData.totalUncompressed,
+      }),
+    ]);
+
+    let offset = 0;
+    for (const [name, data] of files) {
+      this.directoryEntries.push({
+        name,
+        isCompressed: false,
+        offset,
+        length: data.length,
+        section: 0,
+      });
+      offset += data.length;
+    }
+
+    return Buffer.concat(Array.from(files.values()));
+  }
+
+  /**
+   * 构建头部：ITSF 头部和头部段 0，目录紧随其后，之后是内容段 0
+   * @param directoryLength 目录长度（ITSP 头部加全部目录块）
+   * @param contentLength 内容段 0 长度
+   * @returns 头部数组
+   */
+  private buildHeaders(
+    directoryLength: number,
+    contentLength: number,
+  ): Buffer[] {
+    const directoryOffset = CHMHeaderBuilder.calculateHeaderSize();
+    const itsfHeader = CHMHeaderBuilder.createITSFHeader({
+      directoryOffset,
+      directoryLength,
+      languageId: this.languageId,
+    });
+
     return [
       CHMHeaderBuilder.serializeITSFHeader(itsfHeader),
-      CHMHeaderBuilder.serializeITSPHeader(itspHeader),
-      CHMHeaderBuilder.serializeLZXCHeader(lzxcHeader),
+      CHMHeaderBuilder.serializeHeaderSection(
+        itsfHeader.contentOffset + contentLength,
+      ),
     ];
   }
 }
@@ -17,7 +17,6 @@ export class CHMFileWriter {
     outputPath: string,
     sections: {
       headers: Buffer[];
-      resetTable: Buffer;
       directory: Buffer;
       content: Buffer;
     },
@@ -28,18 +27,13 @@ export class CHMFileWriter {
 
     const buffers: Buffer[] = [];
 
-    // 1. 添加所有头部
+    // 1. 添加 ITSF 头部和头部段 0
     buffers.push(...sections.headers);
 
-    // 2. 添加重置表
-    if (sections.resetTable.length > 0) {
-      buffers.push(sections.resetTable);
-    }
-
-    // 3. 添加目录信息
+    // 2. 添加目录（头部段 1）
     buffers.push(sections.directory);
 
-    // 4. 添加压缩内容
+    // 3. 添加内容段 0
     buffers.push(sections.content);
 
     // 合并所有数据并写入文件
@@ -117,7 +111,6 @@ export class CHMFileWriter {
     outputPath: string,
     sections: {
       headers: Buffer[];
-      resetTable: Buffer;
       directory: Buffer;
       content: Buffer;
     },
@@ -128,7 +121,6 @@ export class CHMFileWriter {
 
     const allBuffers = [
       ...sections.headers,
-      sections.resetTable,
       sections.directory,
       sections.content,
     ].filter(buf => buf.length > 0);
@@ -170,13 +162,11 @@ export class CHMFileWriter {
    */
   static estimateFileSize(sections: {
     headers: Buffer[];
-    resetTable: Buffer;
     directory: Buffer;
     content: Buffer;
   }): number {
     return (
       sections.headers.reduce((sum, buf) => sum + buf.length, 0) +
-      sections.resetTable.length +
       sections.directory.length +
       sections.content.length
     );
@@ -191,7 +181,6 @@ export class CHMFileWriter {
   static async createTempCHMFile(
     sections: {
       headers: Buffer[];
-      resetTable: Buffer;
       directory: Buffer;
       content: Buffer;
     },
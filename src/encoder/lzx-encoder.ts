@@ -1,18 +1,127 @@
-import type { LZXConfig } from '../core/types';
+import type { HuffmanCodeTable, LZMatch, LZXConfig } from '../core/types';
+import { LZXBitWriter } from '../utils/io/lzx-bit-writer';
+import { Huffman } from '../utils/compression/huffman';
+import { IntelE8 } from '../core/lzx/intel-e8';
+import { HashChainMatchFinder } from './match-finder';
+
+/**
+ * LZX 块类型常量
+ */
+enum LZXBlockType {
+  VERBATIM = 1, // 逐字块
+  ALIGNED = 2, // 对齐块
+}
+
+/**
+ * 编码后的符号：字面量或匹配
+ */
+interface LZXToken {
+  symbol: number; // 主树符号，< 256 为字面量
+  lengthSymbol: number; // 长度树符号，不需要时为 -1
+  extraBits: number; // 位置槽的额外位数
+  extraValue: number; // 额外位的值
+}
+
+/**
+ * 跨块保留的编码状态，在每个重置点清空
+ */
+interface EncoderState {
+  mainLengths: number[];
+  lengthLengths: number[];
+  repeatedOffsets: [number, number, number];
+}
+
+/**
+ * 压缩级别对应的匹配查找参数
+ */
+interface LevelOptions {
+  maxChainLength: number; // 每个位置最多检查的候选数
+  niceLength: number; // 足够长、不再继续查找的匹配长度
+  lazy: boolean; // 是否使用惰性匹配
+}
+
+/**
+ * 压缩级别 1-9：1 为贪心匹配、最快，9 为惰性匹配并深度查找
+ */
+const LEVEL_OPTIONS: LevelOptions[] = [
+  { maxChainLength: 4, niceLength: 8, lazy: false },
+  { maxChainLength: 8, niceLength: 16, lazy: false },
+  { maxChainLength: 16, niceLength: 32, lazy: false },
+  { maxChainLength: 16, niceLength: 32, lazy: true },
+  { maxChainLength: 32, niceLength: 64, lazy: true },
+  { maxChainLength: 64, niceLength: 128, lazy: true },
+  { maxChainLength: 128, niceLength: 257, lazy: true },
+  { maxChainLength: 512, niceLength: 257, lazy: true },
+  { maxChainLength: 4096, niceLength: 257, lazy: true },
+];
 
 /**
  * LZX 编码器
- * 实现 Microsoft LZX 压缩算法
+ * 输出与 LZXDecoder、hh.exe 兼容的 LZX 位流：每个 32KB 帧一个逐字块或对齐块，
+ * 码长以预树差值的形式传输；每个重置间隔开始时清空码长和重复偏移，
+ * 匹配不会引用重置点之前的数据，因此可以从任意重置点开始解码
  */
 export class LZXEncoder {
   private windowSize: number;
   private resetInterval: number;
   private compressionLevel: number;
+  private intelFileSize: number;
+  private positionSlots: number;
+  private levelOptions: LevelOptions;
+
+  // LZX 常量
+  private static readonly NUM_CHARS = 256;
+  private static readonly PRETREE_NUM_ELEMENTS = 20;
+  private static readonly ALIGNED_NUM_ELEMENTS = 8;
+  private static readonly NUM_PRIMARY_LENGTHS = 7;
+  private static readonly NUM_SECONDARY_LENGTHS = 249;
+  private static readonly MIN_MATCH = 2;
+  private static readonly MAX_MATCH = 257;
+  private static readonly TOO_FAR = 0x1000;
+  private static readonly FRAME_SIZE = 0x8000;
+  private static readonly MAX_CODE_LENGTH = 16;
+  private static readonly MAX_PRETREE_LENGTH = 15;
+  private static readonly MAX_ALIGNED_LENGTH = 7;
+
+  // 窗口位数 (15-21) 对应的位置槽数量
+  private static readonly POSITION_SLOTS: Record<number, number> = {
+    15: 30,
+    16: 32,
+    17: 34,
+    18: 36,
+    19: 38,
+    20: 42,
+    21: 50,
+  };
+
+  // 每个位置槽的额外位数和基础偏移
+  private static readonly EXTRA_BITS: number[] = LZXEncoder.buildExtraBits();
+  private static readonly POSITION_BASE: number[] =
+    LZXEncoder.buildPositionBase();
 
   constructor(config: LZXConfig = {}) {
     this.windowSize = config.windowSize || 0x8000; // 32KB 默认窗口大小
     this.resetInterval = config.resetInterval || 0x8000; // 重置间隔
     this.compressionLevel = config.compressionLevel || 6;
+    this.intelFileSize = config.intelFileSize || 0;
+
+    const slots = LZXEncoder.POSITION_SLOTS[Math.log2(this.windowSize)];
+    if (!slots) {
+      throw new Error(`无效的 LZX 窗口大小: ${this.windowSize}`);
+    }
+    this.positionSlots = slots;
+
+    const levelOptions = LEVEL_OPTIONS[this.compressionLevel - 1];
+    if (!levelOptions) {
+      throw new Error(`无效的 LZX 压缩级别: ${this.compressionLevel}`);
+    }
+    this.levelOptions = levelOptions;
+
+    if (this.resetInterval % LZXEncoder.FRAME_SIZE !== 0) {
+      throw new Error(
+        `LZX 重置间隔必须是 ${LZXEncoder.FRAME_SIZE} 的整数倍: ${this.resetInterval}`,
+      );
+    }
   }
 
   /**
@@ -26,182 +135,548 @@ export class LZXEncoder {
     uncompressedSize: number;
     compressedSize: number;
   } {
-    const input = new Uint8Array(inputBuffer);
-    const output: number[] = [];
-    const resetTable: Array<{
-      compressedLength: number;
-      uncompressedLength: number;
-    }> = [];
+    const input = new Uint8Array(this.translateCalls(inputBuffer));
+    const writer = new LZXBitWriter(Math.max(input.length, 0x1000));
+    const frameOffsets: number[] = [];
+    const finder = new HashChainMatchFinder(
+      input,
+      this.windowSize,
+      this.levelOptions.maxChainLength,
+      this.levelOptions.niceLength,
+    );
+    let state = this.createState();
+    let resetStart = 0;
 
-    let position = 0;
+    for (
+      let frameStart = 0;
+      frameStart < input.length;
+      frameStart += LZXEncoder.FRAME_SIZE
+    ) {
+      // 每帧从 16 位边界开始，重置表记录每帧在压缩流中的偏移
+      frameOffsets.push(writer.length);
 
-    while (position < input.length) {
-      const blockSize = Math.min(this.resetInterval, input.length - position);
-      const blockData = input.slice(position, position + blockSize);
+      if (frameStart % this.resetInterval === 0) {
+        state = this.createState();
+        resetStart = frameStart;
 
-      // 压缩当前块
-      const compressedBlock = this.compressBlock(blockData);
-
-      // 记录重置表条目
-      resetTable.push({
-        uncompressedLength: blockSize,
-        compressedLength: compressedBlock.length,
-      });
+        // 流头部：Intel E8 预处理标志和翻译大小
+        if (this.intelFileSize > 0) {
+          writer.write(1, 1);
+          writer.write(this.intelFileSize >>> 16, 16);
+          writer.write(this.intelFileSize & 0xffff, 16);
+        } else {
+          writer.write(0, 1);
+        }
+      }
 
-      // 添加到输出
-      output.push(...compressedBlock);
-      position += blockSize;
+      const frameEnd = Math.min(
+        frameStart + LZXEncoder.FRAME_SIZE,
+        input.length,
+      );
+      const tokens = this.parseFrame(
+        finder,
+        input,
+        frameStart,
+        frameEnd,
+        resetStart,
+        state,
+      );
+      this.writeBlock(writer, tokens, frameEnd - frameStart, state);
+      writer.align();
     }
 
-    // 生成重置表
-    const resetTableBuffer = this.generateResetTable(resetTable);
+    const compressedData = writer.toBuffer();
+    const resetTable = this.generateResetTable(
+      frameOffsets.length > 0 ? frameOffsets : [0],
+      input.length,
+      compressedData.length,
+    );
 
     return {
-      compressedData: Buffer.from(output),
-      resetTable: resetTableBuffer,
+      compressedData,
+      resetTable,
       uncompressedSize: input.length,
-      compressedSize: output.length,
+      compressedSize: compressedData.length,
     };
   }
 
   /**
-   * 压缩单个块
-   * @param block 要压缩的块数据
-   * @returns 压缩后的块数据
+   * 按帧应用 Intel E8 调用翻译
+   * @param input 输入数据
+   * @returns 翻译后的副本，未启用时为原数据
    */
-  private compressBlock(block: Uint8Array): number[] {
-    // 简化的 LZX 压缩实现
-    // 在实际应用中，这里需要实现完整的 LZX 算法
-    const output: number[] = [];
+  private translateCalls(input: Buffer): Buffer {
+    if (this.intelFileSize === 0) {
+      return input;
+    }
 
-    // LZX 块头 - 简化版本
-    output.push(0x03); // 块类型：压缩块
+    const translated = Buffer.from(input);
+    for (let start = 0; start < input.length; start += LZXEncoder.FRAME_SIZE) {
+      IntelE8.encode(
+        translated.subarray(start, start + LZXEncoder.FRAME_SIZE),
+        start,
+        this.intelFileSize,
+      );
+    }
+    return translated;
+  }
+
+  /**
+   * 把一帧数据解析为字面量和匹配
+   * 惰性匹配时，若下一位置的匹配更长，则当前位置输出字面量
+   * @param finder 匹配查找器
+   * @param data 输入数据
+   * @param start 帧起始位置
+   * @param end 帧结束位置（不含），匹配不会越过帧边界
+   * @param resetStart 当前重置间隔的起始位置，匹配不会引用它之前的数据
+   * @param state 编码状态（更新重复偏移）
+   * @returns 符号序列
+   */
+  private parseFrame(
+    finder: HashChainMatchFinder,
+    data: Uint8Array,
+    start: number,
+    end: number,
+    resetStart: number,
+    state: EncoderState,
+  ): LZXToken[] {
+    const tokens: LZXToken[] = [];
+    const offsets = state.repeatedOffsets;
+    const { lazy, niceLength } = this.levelOptions;
+    const find = (position: number): LZMatch =>
+      position < end
+        ? this.findMatch(finder, data, position, end, resetStart, offsets)
+        : { distance: 0, length: 0 };
 
-    // 添加未压缩大小（24位）
-    const uncompressedSize = block.length;
-    output.push(uncompressedSize & 0xff);
-    output.push((uncompressedSize >> 8) & 0xff);
-    output.push((uncompressedSize >> 16) & 0xff);
+    let position = start;
+    let current = find(position);
 
-    // 简化压缩：查找重复序列
-    let i = 0;
-    while (i < block.length) {
-      const bestMatch = this.findBestMatch(block, i);
+    while (position < end) {
+      if (current.length === 0) {
+        tokens.push(this.encodeLiteral(data[position]!));
+        current = find(++position);
+        continue;
+      }
 
-      if (bestMatch.length >= 3) {
-        // 输出匹配
-        this.outputMatch(output, bestMatch.distance, bestMatch.length);
-        i += bestMatch.length;
-      } else {
-        // 输出字面量
-        this.outputLiteral(output, block[i] || 0);
-        i++;
+      if (lazy && current.length < niceLength) {
+        // 重复偏移的匹配编码很短，只有明显更长时才放弃
+        const next = find(position + 1);
+        const bonus = offsets.includes(current.distance) ? 1 : 0;
+        if (next.length > current.length + bonus) {
+          tokens.push(this.encodeLiteral(data[position]!));
+          position++;
+          current = next;
+          continue;
+        }
       }
+
+      tokens.push(this.encodeMatch(current.distance, current.length, offsets));
+      position += current.length;
+      current = find(position);
     }
 
-    return output;
+    return tokens;
   }
 
   /**
-   * 查找最佳匹配
-   * @param data 数据
+   * 查找当前位置的最佳匹配
+   * 重复偏移的编码代价最低，长度相近时优先使用
+   * @param finder 匹配查找器
+   * @param data 输入数据
    * @param position 当前位置
-   * @returns 最佳匹配信息
+   * @param end 帧结束位置（不含）
+   * @param resetStart 当前重置间隔的起始位置
+   * @param offsets 重复偏移队列 R0/R1/R2
+   * @returns 最佳匹配，没有可用匹配时长度为 0
    */
-  private findBestMatch(
+  private findMatch(
+    finder: HashChainMatchFinder,
     data: Uint8Array,
     position: number,
-  ): { distance: number; length: number } {
-    let bestDistance = 0;
-    let bestLength = 0;
-
-    const searchStart = Math.max(0, position - this.windowSize);
-    const maxLength = Math.min(258, data.length - position);
-
-    for (let i = searchStart; i < position; i++) {
-      let length = 0;
-      while (
-        length < maxLength &&
-        i + length < position &&
-        data[i + length] === data[position + length]
-      ) {
-        length++;
-      }
+    end: number,
+    resetStart: number,
+    offsets: [number, number, number],
+  ): LZMatch {
+    const maxLength = Math.min(LZXEncoder.MAX_MATCH, end - position);
+    const windowStart = Math.max(resetStart, position - (this.windowSize - 3));
 
-      if (length > bestLength) {
-        bestLength = length;
-        bestDistance = position - i;
+    const repeat: LZMatch = { distance: 0, length: 0 };
+    for (const offset of offsets) {
+      if (position - offset < windowStart) {
+        continue;
+      }
+      const length = HashChainMatchFinder.matchLength(
+        data,
+        position - offset,
+        position,
+        maxLength,
+      );
+      if (length > repeat.length) {
+        repeat.length = length;
+        repeat.distance = offset;
       }
     }
 
-    return { distance: bestDistance, length: bestLength };
+    const match = finder.findMatch(position, windowStart, maxLength);
+    if (
+      repeat.length >= LZXEncoder.MIN_MATCH &&
+      repeat.length + 1 >= match.length
+    ) {
+      return repeat;
+    }
+
+    // 偏移很远的 3 字节匹配不比 3 个字面量短
+    if (match.length === 3 && match.distance > LZXEncoder.TOO_FAR) {
+      return { distance: 0, length: 0 };
+    }
+    return match;
   }
 
   /**
-   * 输出匹配数据
-   * @param output 输出数组
-   * @param distance 距离
-   * @param length 长度
+   * 编码字面量
+   * @param literal 字面量字节
+   * @returns 符号
    */
-  private outputMatch(
-    output: number[],
-    distance: number,
+  private encodeLiteral(literal: number): LZXToken {
+    return { symbol: literal, lengthSymbol: -1, extraBits: 0, extraValue: 0 };
+  }
+
+  /**
+   * 编码匹配并更新重复偏移队列
+   * @param offset 匹配偏移
+   * @param length 匹配长度 (2-257)
+   * @param offsets 重复偏移队列 R0/R1/R2
+   * @returns 符号
+   */
+  private encodeMatch(
+    offset: number,
     length: number,
+    offsets: [number, number, number],
+  ): LZXToken {
+    let slot: number;
+    let extraBits = 0;
+    let extraValue = 0;
+
+    if (offset === offsets[0]) {
+      slot = 0;
+    } else if (offset === offsets[1]) {
+      slot = 1;
+      offsets[1] = offsets[0];
+      offsets[0] = offset;
+    } else if (offset === offsets[2]) {
+      slot = 2;
+      offsets[2] = offsets[0];
+      offsets[0] = offset;
+    } else {
+      // 位置槽 3 及以上编码的是偏移加 2
+      const formatted = offset + 2;
+      slot = LZXEncoder.findPositionSlot(formatted);
+      extraBits = LZXEncoder.EXTRA_BITS[slot]!;
+      extraValue = formatted - LZXEncoder.POSITION_BASE[slot]!;
+      offsets[2] = offsets[1];
+      offsets[1] = offsets[0];
+      offsets[0] = offset;
+    }
+
+    const lengthHeader = Math.min(
+      length - LZXEncoder.MIN_MATCH,
+      LZXEncoder.NUM_PRIMARY_LENGTHS,
+    );
+
+    return {
+      symbol: LZXEncoder.NUM_CHARS + ((slot << 3) | lengthHeader),
+      lengthSymbol:
+        lengthHeader === LZXEncoder.NUM_PRIMARY_LENGTHS
+          ? length - LZXEncoder.MIN_MATCH - LZXEncoder.NUM_PRIMARY_LENGTHS
+          : -1,
+      extraBits,
+      extraValue,
+    };
+  }
+
+  /**
+   * 写入一个逐字块或对齐块，选择编码较短的一种
+   * @param writer 位写入器
+   * @param tokens 符号序列
+   * @param size 块的未压缩大小
+   * @param state 编码状态（更新码长）
+   */
+  private writeBlock(
+    writer: LZXBitWriter,
+    tokens: LZXToken[],
+    size: number,
+    state: EncoderState,
   ): void {
-    // 简化的匹配编码
-    // 位 0: 1 (表示这是匹配)
-    // 位 1-8: 长度 - 3
-    // 位 9-24: 距离
-    const code = 0x80 | ((length - 3) & 0x7f);
-    output.push(code);
-    output.push(distance & 0xff);
-    output.push((distance >> 8) & 0xff);
+    const mainFrequencies = new Array<number>(
+      LZXEncoder.NUM_CHARS + this.positionSlots * 8,
+    ).fill(0);
+    const lengthFrequencies = new Array<number>(
+      LZXEncoder.NUM_SECONDARY_LENGTHS,
+    ).fill(0);
+    const alignedFrequencies = new Array<number>(
+      LZXEncoder.ALIGNED_NUM_ELEMENTS,
+    ).fill(0);
+
+    for (const token of tokens) {
+      mainFrequencies[token.symbol]!++;
+      if (token.lengthSymbol >= 0) {
+        lengthFrequencies[token.lengthSymbol]!++;
+      }
+      if (token.extraBits >= 3) {
+        alignedFrequencies[token.extraValue & 7]!++;
+      }
+    }
+
+    const mainLengths = LZXEncoder.buildCodeLengths(
+      mainFrequencies,
+      LZXEncoder.MAX_CODE_LENGTH,
+    );
+    const lengthLengths = LZXEncoder.buildCodeLengths(
+      lengthFrequencies,
+      LZXEncoder.MAX_CODE_LENGTH,
+    );
+    const alignedLengths = LZXEncoder.buildCodeLengths(
+      alignedFrequencies,
+      LZXEncoder.MAX_ALIGNED_LENGTH,
+    );
+
+    // 对齐块用对齐树替代每个偏移的低 3 位，另需 24 位传输对齐树
+    let alignedCost = LZXEncoder.ALIGNED_NUM_ELEMENTS * 3;
+    let verbatimCost = 0;
+    alignedFrequencies.forEach((frequency, symbol) => {
+      alignedCost += frequency * alignedLengths[symbol]!;
+      verbatimCost += frequency * 3;
+    });
+    const aligned = alignedCost < verbatimCost;
+
+    // 块头：3 位类型和 24 位未压缩大小
+    writer.write(aligned ? LZXBlockType.ALIGNED : LZXBlockType.VERBATIM, 3);
+    writer.write(size >>> 8, 16);
+    writer.write(size & 0xff, 8);
+
+    if (aligned) {
+      for (const length of alignedLengths) {
+        writer.write(length, 3);
+      }
+    }
+
+    // 主树分两段传输：字面量部分和匹配部分
+    this.writeTreeDelta(
+      writer,
+      state.mainLengths,
+      mainLengths,
+      0,
+      LZXEncoder.NUM_CHARS,
+    );
+    this.writeTreeDelta(
+      writer,
+      state.mainLengths,
+      mainLengths,
+      LZXEncoder.NUM_CHARS,
+      mainLengths.length,
+    );
+    this.writeTreeDelta(
+      writer,
+      state.lengthLengths,
+      lengthLengths,
+      0,
+      lengthLengths.length,
+    );
+    state.mainLengths = mainLengths;
+    state.lengthLengths = lengthLengths;
+
+    const mainCodes = Huffman.createCodeTable(mainLengths);
+    const lengthCodes = Huffman.createCodeTable(lengthLengths);
+    const alignedCodes = Huffman.createCodeTable(alignedLengths);
+
+    for (const token of tokens) {
+      LZXEncoder.writeSymbol(writer, mainCodes, token.symbol);
+      if (token.symbol < LZXEncoder.NUM_CHARS) {
+        continue;
+      }
+
+      if (token.lengthSymbol >= 0) {
+        LZXEncoder.writeSymbol(writer, lengthCodes, token.lengthSymbol);
+      }
+
+      if (aligned && token.extraBits >= 3) {
+        // 高位逐字写入，低 3 位使用对齐偏移树
+        writer.write(token.extraValue >>> 3, token.extraBits - 3);
+        LZXEncoder.writeSymbol(writer, alignedCodes, token.extraValue & 7);
+      } else {
+        writer.write(token.extraValue, token.extraBits);
+      }
+    }
   }
 
   /**
-   * 输出字面量数据
-   * @param output 输出数组
-   * @param literal 字面量字节
+   * 通过预树写入 [first, last) 范围内码长相对上一块的差值
+   * @param writer 位写入器
+   * @param previous 上一块的码长
+   * @param current 当前块的码长
+   * @param first 起始索引
+   * @param last 结束索引（不含）
    */
-  private outputLiteral(output: number[], literal: number): void {
-    // 简化的字面量编码
-    // 位 0: 0 (表示这是字面量)
-    // 位 1-8: 字面量值
-    output.push(literal & 0x7f);
+  private writeTreeDelta(
+    writer: LZXBitWriter,
+    previous: number[],
+    current: number[],
+    first: number,
+    last: number,
+  ): void {
+    const codes = Huffman.encodeTreeDelta(previous, current, first, last);
+    const frequencies = new Array<number>(LZXEncoder.PRETREE_NUM_ELEMENTS).fill(
+      0,
+    );
+    for (const code of codes) {
+      frequencies[code.symbol]!++;
+    }
+
+    const pretreeLengths = LZXEncoder.buildCodeLengths(
+      frequencies,
+      LZXEncoder.MAX_PRETREE_LENGTH,
+    );
+    for (const length of pretreeLengths) {
+      writer.write(length, 4);
+    }
+
+    const pretreeCodes = Huffman.createCodeTable(pretreeLengths);
+    for (const code of codes) {
+      LZXEncoder.writeSymbol(writer, pretreeCodes, code.symbol);
+      writer.write(code.extraValue, code.extraBits);
+    }
   }
 
   /**
-   * 生成重置表
-   * @param entries 重置表条目
+   * 创建重置点处的初始编码状态
+   * @returns 编码状态
+   */
+  private createState(): EncoderState {
+    return {
+      mainLengths: new Array<number>(
+        LZXEncoder.NUM_CHARS + this.positionSlots * 8,
+      ).fill(0),
+      lengthLengths: new Array<number>(LZXEncoder.NUM_SECONDARY_LENGTHS).fill(
+        0,
+      ),
+      repeatedOffsets: [1, 1, 1],
+    };
+  }
+
+  /**
+   * 生成重置表（版本 2，每个 32KB 帧一个 8 字节的压缩偏移）
+   * @param frameOffsets 每帧在压缩流中的偏移
+   * @param uncompressedLength 未压缩总长度
+   * @param compressedLength 压缩后总长度
    * @returns 重置表缓冲区
    */
   private generateResetTable(
-    entries: Array<{ compressedLength: number; uncompressedLength: number }>,
+    frameOffsets: number[],
+    uncompressedLength: number,
+    compressedLength: number,
   ): Buffer {
-    const buffer = Buffer.alloc(16 + entries.length * 8);
-    let offset = 0;
-
-    // 重置表头部
-    buffer.writeUInt32LE(2, offset); // 版本
-    offset += 4;
-    buffer.writeUInt32LE(entries.length, offset); // 块数量
-    offset += 4;
-    buffer.writeUInt32LE(8, offset); // 条目大小
-    offset += 4;
-    buffer.writeUInt32LE(16, offset); // 表偏移量
-    offset += 4;
-
-    // 重置表条目
-    for (const entry of entries) {
-      buffer.writeUInt32LE(entry.compressedLength, offset);
-      offset += 4;
-      buffer.writeUInt32LE(entry.uncompressedLength, offset);
-      offset += 4;
-    }
+    const headerSize = 0x28;
+    const buffer = Buffer.alloc(headerSize + frameOffsets.length * 8);
+
+    buffer.writeUInt32LE(2, 0); // 版本
+    buffer.writeUInt32LE(frameOffsets.length, 4); // 条目数量
+    buffer.writeUInt32LE(8, 8); // 条目大小
+    buffer.writeUInt32LE(headerSize, 12); // 条目偏移
+    buffer.writeBigUInt64LE(BigInt(uncompressedLength), 16);
+    buffer.writeBigUInt64LE(BigInt(compressedLength), 24);
+    buffer.writeBigUInt64LE(BigInt(LZXEncoder.FRAME_SIZE), 32);
+
+    frameOffsets.forEach((offset, i) => {
+      buffer.writeBigUInt64LE(BigInt(offset), headerSize + i * 8);
+    });
 
     return buffer;
   }
 
+  /**
+   * 根据符号频率构建限长码长
+   * 使用的符号少于两个时补足两个，保证每棵树都是完整的前缀码
+   * （部分解码器不接受不完整的码表）
+   * @param frequencies 符号频率
+   * @param maxLength 最大码长
+   * @returns 码长数组
+   */
+  private static buildCodeLengths(
+    frequencies: number[],
+    maxLength: number,
+  ): number[] {
+    const weights = frequencies.slice();
+    for (let i = 0, used = weights.filter(w => w > 0).length; used < 2; i++) {
+      if (weights[i] === 0) {
+        weights[i] = 1;
+        used++;
+      }
+    }
+
+    return Huffman.buildCodeLengths(weights, maxLength);
+  }
+
+  /**
+   * 写入一个符号的 Huffman 码
+   * @param writer 位写入器
+   * @param table 码表
+   * @param symbol 符号
+   */
+  private static writeSymbol(
+    writer: LZXBitWriter,
+    table: HuffmanCodeTable,
+    symbol: number,
+  ): void {
+    const length = table.lengths[symbol]!;
+    if (length === 0) {
+      throw new Error(`LZX 符号没有对应的霍夫曼码: ${symbol}`);
+    }
+    writer.write(table.codes[symbol]!, length);
+  }
+
+  /**
+   * 查找格式化偏移所在的位置槽
+   * @param formatted 格式化偏移（偏移加 2）
+   * @returns 位置槽
+   */
+  private static findPositionSlot(formatted: number): number {
+    let slot = 3;
+    while (LZXEncoder.POSITION_BASE[slot + 1]! <= formatted) {
+      slot++;
+    }
+    return slot;
+  }
+
+  /**
+   * 构建位置槽额外位数表
+   * @returns 额外位数表
+   */
+  private static buildExtraBits(): number[] {
+    const extraBits: number[] = [];
+    for (let i = 0, bits = 0; i < 51; i += 2) {
+      extraBits[i] = bits;
+      extraBits[i + 1] = bits;
+      if (i !== 0 && bits < 17) {
+        bits++;
+      }
+    }
+    return extraBits;
+  }
+
+  /**
+   * 构建位置槽基础偏移表
+   * @returns 基础偏移表
+   */
+  private static buildPositionBase(): number[] {
+    const positionBase: number[] = [];
+    const extraBits = LZXEncoder.buildExtraBits();
+    for (let i = 0, base = 0; i < 51; i++) {
+      positionBase[i] = base;
+      base += 1 << extraBits[i]!;
+    }
+    return positionBase;
+  }
+
   /**
    * 获取编码器配置
    */
@@ -210,6 +685,7 @@ export class LZXEncoder {
       windowSize: this.windowSize,
       resetInterval: this.resetInterval,
       compressionLevel: this.compressionLevel,
+      intelFileSize: this.intelFileSize,
     };
   }
 }
@@ -0,0 +1,155 @@
+import type { LZMatch } from '../core/types';
+
+const HASH_BITS = 16;
+const HASH_SIZE = 1 << HASH_BITS;
+const HASH_BYTES = 3;
+const NO_POSITION = -1;
+
+/**
+ * 哈希链匹配查找器
+ * 以 3 字节前缀的哈希为键，把相同哈希的位置串成由近及远的链表。
+ * prev 表按窗口大小循环使用，窗口之外的位置会被新位置覆盖，
+ * 因此链上的位置只在不早于窗口起点时有效
+ */
+export class HashChainMatchFinder {
+  private data: Uint8Array;
+  private head: Int32Array;
+  private prev: Int32Array;
+  private windowMask: number;
+  private maxChainLength: number;
+  private niceLength: number;
+  private nextInsert: number; // 下一个待插入哈希链的位置
+
+  /**
+   * @param data 输入数据
+   * @param windowSize 窗口大小（2 的幂）
+   * @param maxChainLength 每次查找最多检查的候选位置数
+   * @param niceLength 找到不短于该长度的匹配时停止查找
+   */
+  constructor(
+    data: Uint8Array,
+    windowSize: number,
+    maxChainLength: number,
+    niceLength: number,
+  ) {
+    this.data = data;
+    this.head = new Int32Array(HASH_SIZE).fill(NO_POSITION);
+    this.prev = new Int32Array(windowSize).fill(NO_POSITION);
+    this.windowMask = windowSize - 1;
+    this.maxChainLength = maxChainLength;
+    this.niceLength = niceLength;
+    this.nextInsert = 0;
+  }
+
+  /**
+   * 查找当前位置的最长匹配，并把当前位置之前的数据加入哈希链
+   * @param position 当前位置
+   * @param windowStart 可引用的最早位置
+   * @param maxLength 最大匹配长度
+   * @returns 最长匹配，相同长度时偏移最小；没有不短于 3 字节的匹配时长度为 0
+   */
+  findMatch(position: number, windowStart: number, maxLength: number): LZMatch {
+    this.insertUntil(position);
+
+    const best: LZMatch = { distance: 0, length: 0 };
+    if (maxLength < HASH_BYTES || position + HASH_BYTES > this.data.length) {
+      return best;
+    }
+
+    const data = this.data;
+    const niceLength = Math.min(this.niceLength, maxLength);
+    let candidate = this.head[this.hash(position)]!;
+
+    for (
+      let chain = this.maxChainLength;
+      chain > 0 && candidate >= windowStart && candidate < position;
+      chain--
+    ) {
+      // 先比较当前最长匹配之后的字节，快速排除不可能更长的候选
+      if (
+        data[candidate + best.length] === data[position + best.length] &&
+        data[candidate] === data[position]
+      ) {
+        const length = HashChainMatchFinder.matchLength(
+          data,
+          candidate,
+          position,
+          maxLength,
+        );
+        if (length > best.length) {
+          best.length = length;
+          best.distance = position - candidate;
+          if (length >= niceLength) {
+            break;
+          }
+        }
+      }
+
+      const next = this.prev[candidate & this.windowMask]!;
+      if (next >= candidate) {
+        break; // 被覆盖的过期链接
+      }
+      candidate = next;
+    }
+
+    if (best.length < HASH_BYTES) {
+      best.length = 0;
+      best.distance = 0;
+    }
+    return best;
+  }
+
+  /**
+   * 计算两个位置的公共前缀长度（源位置可以与目标区域重叠）
+   * @param data 数据
+   * @param source 源位置
+   * @param position 当前位置
+   * @param maxLength 最大长度
+   * @returns 匹配长度
+   */
+  static matchLength(
+    data: Uint8Array,
+    source: number,
+    position: number,
+    maxLength: number,
+  ): number {
+    let length = 0;
+    while (
+      length < maxLength &&
+      data[source + length] === data[position + length]
+    ) {
+      length++;
+    }
+    return length;
+  }
+
+  /**
+   * 把 [nextInsert, position) 范围内的位置加入哈希链
+   * @param position 结束位置（不含）
+   */
+  private insertUntil(position: number): void {
+    const last = Math.min(position, this.data.length - HASH_BYTES + 1);
+
+    for (let i = this.nextInsert; i < last; i++) {
+      const hash = this.hash(i);
+      this.prev[i & this.windowMask] = this.head[hash]!;
+      this.head[hash] = i;
+    }
+
+    this.nextInsert = Math.max(this.nextInsert, position);
+  }
+
+  /**
+   * 计算 3 字节前缀的哈希
+   * @param position 位置
+   * @returns 哈希值
+   */
+  private hash(position: number): number {
+    const data = this.data;
+    const value =
+      (data[position]! << 16) |
+      (data[position + 1]! << 8) |
+      data[position + 2]!;
+    return Math.imul(value, 0x9e3779b1) >>> (32 - HASH_BITS);
+  }
+}
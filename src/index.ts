@@ -3,7 +3,16 @@ export * from './core/types';
 
 // 导出工具类
 export { BitReader } from './utils/io/bit-reader';
+export { LZXBitReader } from './utils/io/lzx-bit-reader';
+export { LZXBitWriter } from './utils/io/lzx-bit-writer';
+export { EncInt } from './utils/io/encint';
+export {
+  BufferByteSource,
+  Uint8ArrayByteSource,
+  FileByteSource,
+} from './utils/io/byte-source';
 export { Huffman } from './utils/compression/huffman';
+export { Codepage } from './utils/encoding/codepage';
 
 // 导出核心功能
 export { CHMParser } from './core/parser/chm-parser';
@@ -19,6 +28,15 @@ export { LZXCHeaderParser } from './core/headers/lzxc-header';
 export { DirectoryParser } from './core/directory/directory-parser';
 export { SlidingWindow } from './core/lzx/sliding-window';
 export { ResetTableProcessor } from './core/lzx/reset-table';
+export { SystemFileParser } from './core/internal/system-file';
+export { TopicTable } from './core/internal/topic-table';
+export { ContextMap } from './core/internal/context-map';
+export { BinaryTOCReader } from './core/internal/binary-toc';
+export { BinaryIndexReader } from './core/internal/binary-index';
+export type { BinaryIndexKind } from './core/internal/binary-index';
+export { FullTextIndex } from './core/internal/full-text-index';
+export { SitemapParser } from './core/sitemap/sitemap-parser';
+export { HHPParser } from './core/project/hhp-parser';
 
 // 导出编码器功能
 export { CHMEncoder } from './encoder/chm-encoder';
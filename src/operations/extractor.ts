@@ -1,9 +1,7 @@
-import { readFileSync } from 'fs';
-import { BitReader } from '../utils/io/bit-reader';
 import { FileReconstructor } from '../core/files/file-reconstructor';
 import { CHMFileManager } from '../core/files/file-manager';
 import { ParserOperations } from './parser';
-import type { ExtractOptions } from '../core/types';
+import type { ByteSource, ExtractOptions } from '../core/types';
 
 /**
  * CHM 文件提取操作
@@ -22,57 +20,70 @@ export class ExtractorOperations {
     options: Partial<ExtractOptions> = {},
   ): Promise<{ files: string[]; totalFiles: number; errors: string[] }> {
     try {
-      // 解析 CHM 文件
-      const parsedCHM = await ParserOperations.parse(filePath);
+      return await ParserOperations.withSource(filePath, source =>
+        this.extractFromSource(source, options),
+      );
+    } catch (error) {
+      throw new Error(
+        `CHM 文件提取失败: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
 
-      // 创建文件重组器和管理器
-      const fileBuffer = readFileSync(filePath);
-      const reader = new BitReader(fileBuffer);
-      const reconstructor = new FileReconstructor(parsedCHM);
-      const fileManager = new CHMFileManager(parsedCHM);
+  /**
+   * 从数据源提取 CHM 文件内容
+   * @param source 数据源
+   * @param options 提取选项
+   * @returns 提取结果
+   */
+  private static extractFromSource(
+    source: ByteSource,
+    options: Partial<ExtractOptions>,
+  ): { files: string[]; totalFiles: number; errors: string[] } {
+    // 解析 CHM 文件
+    const parsedCHM = ParserOperations.parseSource(source);
 
-      // 获取文件列表
-      let fileList = fileManager.getFileList();
+    // 创建文件重组器和管理器
+    const reconstructor = new FileReconstructor(parsedCHM);
+    const fileManager = new CHMFileManager(parsedCHM);
 
-      // 应用过滤器
-      if (options.filter) {
-        fileList = fileList.filter(options.filter);
-      }
+    // 获取文件列表
+    let fileList = fileManager.getFileList();
 
-      const extractedFiles: string[] = [];
-      const errors: string[] = [];
+    // 应用过滤器
+    if (options.filter) {
+      fileList = fileList.filter(options.filter);
+    }
 
-      // 重组并提取文件
-      for (const fileName of fileList) {
-        try {
-          const file = reconstructor.reconstructFile(fileName, reader);
+    const extractedFiles: string[] = [];
+    const errors: string[] = [];
 
-          // 这里应该写入文件到 outputDir
-          // 简化实现：仅记录成功提取的文件
-          extractedFiles.push(fileName);
+    // 重组并提取文件
+    for (const fileName of fileList) {
+      try {
+        const file = reconstructor.reconstructFile(fileName, source);
 
-          if (options.verbose) {
-            console.log(`已提取: ${fileName} (${file.data.length} 字节)`);
-          }
-        } catch (error) {
-          const errorMsg = `提取文件 ${fileName} 失败: ${error instanceof Error ? error.message : String(error)}`;
-          errors.push(errorMsg);
+        // 这里应该写入文件到 outputDir
+        // 简化实现：仅记录成功提取的文件
+        extractedFiles.push(fileName);
 
-          if (options.verbose) {
-            console.error(errorMsg);
-          }
+        if (options.verbose) {
+          console.log(`已提取: ${fileName} (${file.data.length} 字节)`);
         }
-      }
+      } catch (error) {
+        const errorMsg = `提取文件 ${fileName} 失败: ${error instanceof Error ? error.message : String(error)}`;
+        errors.push(errorMsg);
 
-      return {
-        files: extractedFiles,
-        totalFiles: fileList.length,
-        errors,
-      };
-    } catch (error) {
-      throw new Error(
-        `CHM 文件提取失败: ${error instanceof Error ? error.message : String(error)}`,
-      );
+        if (options.verbose) {
+          console.error(errorMsg);
+        }
+      }
     }
+
+    return {
+      files: extractedFiles,
+      totalFiles: fileList.length,
+      errors,
+    };
   }
 }
@@ -1,7 +1,7 @@
-import { readFileSync } from 'fs';
-import { BitReader } from '../utils/io/bit-reader';
 import { FileReconstructor } from '../core/files/file-reconstructor';
 import { CHMFileManager } from '../core/files/file-manager';
+import { InternalFileReader } from '../core/internal/internal-file-reader';
+import { Codepage } from '../utils/encoding/codepage';
 import { ParserOperations } from './parser';
 
 /**
@@ -16,13 +16,37 @@ export class FileManagerOperations {
    */
   static async readFile(chmPath: string, filePath: string): Promise<Buffer> {
     try {
-      const parsedCHM = await ParserOperations.parse(chmPath);
-      const fileBuffer = readFileSync(chmPath);
-      const reader = new BitReader(fileBuffer);
-      const reconstructor = new FileReconstructor(parsedCHM);
+      return await ParserOperations.withSource(chmPath, source => {
+        const parsedCHM = ParserOperations.parseSource(source);
+        const reconstructor = new FileReconstructor(parsedCHM);
+
+        const file = reconstructor.reconstructFile(filePath, source);
+        return file.data;
+      });
+    } catch (error) {
+      throw new Error(
+        `读取文件失败: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
 
-      const file = reconstructor.reconstructFile(filePath, reader);
-      return file.data;
+  /**
+   * 读取 CHM 文件中的文本文件（如 HTML 页面）
+   * 页面 <meta> 中声明的 charset 优先，否则按 CHM 语言（LCID）的代码页解码
+   * @param chmPath CHM 文件路径
+   * @param filePath 文件路径
+   * @returns 文件文本
+   */
+  static async readText(chmPath: string, filePath: string): Promise<string> {
+    try {
+      return await ParserOperations.withSource(chmPath, source => {
+        const parsedCHM = ParserOperations.parseSource(source);
+        const reconstructor = new FileReconstructor(parsedCHM);
+
+        const file = reconstructor.reconstructFile(filePath, source);
+        const encoding = new InternalFileReader(parsedCHM, source).encoding;
+        return Codepage.decodeHTML(file.data, encoding);
+      });
     } catch (error) {
       throw new Error(
         `读取文件失败: ${error instanceof Error ? error.message : String(error)}`,
@@ -38,9 +62,11 @@ export class FileManagerOperations {
    */
   static async exists(chmPath: string, filePath: string): Promise<boolean> {
     try {
-      const parsedCHM = await ParserOperations.parse(chmPath);
-      const fileManager = new CHMFileManager(parsedCHM);
-      return fileManager.fileExists(filePath);
+      return await ParserOperations.withSource(chmPath, source => {
+        const parsedCHM = ParserOperations.parseSource(source);
+        const fileManager = new CHMFileManager(parsedCHM);
+        return fileManager.findFileEntry(filePath) !== null;
+      });
     } catch (error) {
       return false;
     }
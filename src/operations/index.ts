@@ -4,3 +4,4 @@ export { ExtractorOperations } from './extractor';
 export { PackerOperations } from './packer';
 export { InfoOperations } from './info';
 export { FileManagerOperations } from './file-manager';
+export { NavigationOperations } from './navigation';
@@ -1,9 +1,20 @@
 import { CHMFileManager } from '../core/files/file-manager';
+import { FileReconstructor } from '../core/files/file-reconstructor';
 import { ITSFHeaderParser } from '../core/headers/itsf-header';
 import { ITSPHeaderParser } from '../core/headers/itsp-header';
 import { LZXCHeaderParser } from '../core/headers/lzxc-header';
 import { CHMStatisticsGenerator } from '../core/parser/statistics-generator';
+import { SystemFileParser } from '../core/internal/system-file';
 import { ParserOperations } from './parser';
+import { NavigationOperations } from './navigation';
+import { CHM_SYSTEM_FILES } from '../constants';
+import type {
+  ByteSource,
+  CHMBasicInfo,
+  CHMInfo,
+  CHMMetadata,
+  ParsedCHM,
+} from '../core/types';
 
 /**
  * CHM 文件信息获取操作
@@ -14,52 +25,102 @@ export class InfoOperations {
    * @param filePath CHM 文件路径
    * @returns CHM 文件信息
    */
-  static async getInfo(filePath: string): Promise<{
-    header: {
-      itsf: string;
-      itsp: string;
-      lzxc: string;
-    };
-    statistics: string;
-    fileCount: number;
-    totalSize: number;
-    compressionRatio: number;
-  }> {
+  static async getInfo(filePath: string): Promise<CHMBasicInfo> {
     try {
-      // 解析 CHM 文件
-      const parsedCHM = await ParserOperations.parse(filePath);
+      return await ParserOperations.withSource(filePath, source => {
+        // 解析 CHM 文件
+        const parsedCHM = ParserOperations.parseSource(source);
 
-      // 创建文件管理器获取统计信息
-      const fileManager = new CHMFileManager(parsedCHM);
-      const fileList = fileManager.getFileList();
+        // 创建文件管理器获取统计信息
+        const fileManager = new CHMFileManager(parsedCHM);
+        const fileList = fileManager.getFileList();
 
-      // 计算总大小
-      let totalSize = 0;
-      let compressedSize = 0;
+        // 计算总大小
+        let totalSize = 0;
+        let compressedSize = 0;
 
-      for (const [, entry] of parsedCHM.directory.entries) {
-        totalSize += entry.uncompressedLength ?? entry.length;
-        compressedSize += entry.length;
-      }
+        for (const [, entry] of fileManager.getEntries()) {
+          totalSize += entry.uncompressedLength ?? entry.length;
+          compressedSize += entry.length;
+        }
 
-      const compressionRatio =
-        totalSize > 0 ? (compressedSize / totalSize) * 100 : 0;
+        const compressionRatio =
+          totalSize > 0 ? (compressedSize / totalSize) * 100 : 0;
 
-      return {
-        header: {
-          itsf: ITSFHeaderParser.getSummary(parsedCHM.header.itsf),
-          itsp: ITSPHeaderParser.getSummary(parsedCHM.header.itsp),
-          lzxc: LZXCHeaderParser.getSummary(parsedCHM.header.lzxc),
-        },
-        statistics: CHMStatisticsGenerator.getStatistics(parsedCHM),
-        fileCount: fileList.length,
-        totalSize,
-        compressionRatio,
-      };
+        return {
+          header: {
+            itsf: ITSFHeaderParser.getSummary(parsedCHM.header.itsf),
+            itsp: ITSPHeaderParser.getSummary(parsedCHM.header.itsp),
+            lzxc: LZXCHeaderParser.getSummary(parsedCHM.header.lzxc),
+          },
+          metadata: this.readMetadata(parsedCHM, source),
+          statistics: CHMStatisticsGenerator.getStatistics(parsedCHM),
+          fileCount: fileList.length,
+          totalSize,
+          compressionRatio,
+        };
+      });
     } catch (error) {
       throw new Error(
         `获取 CHM 文件信息失败: ${error instanceof Error ? error.message : String(error)}`,
       );
     }
   }
+
+  /**
+   * 获取 CHM 文件完整信息，包括目录和索引
+   * @param filePath CHM 文件路径
+   * @returns CHM 文件完整信息
+   */
+  static async getDetails(filePath: string): Promise<CHMInfo> {
+    try {
+      return await ParserOperations.withSource(filePath, source => {
+        const parsedCHM = ParserOperations.parseSource(source);
+        const fileManager = new CHMFileManager(parsedCHM);
+        const files = fileManager.getFileList();
+
+        let totalSize = 0;
+        let compressedSize = 0;
+        for (const [, entry] of fileManager.getEntries()) {
+          totalSize += entry.uncompressedLength ?? entry.length;
+          compressedSize += entry.length;
+        }
+
+        return {
+          metadata: this.readMetadata(parsedCHM, source),
+          toc: NavigationOperations.readTOC(parsedCHM, source),
+          index: NavigationOperations.readIndex(parsedCHM, source),
+          files,
+          totalSize,
+          compressedSize,
+          filesCount: files.length,
+        };
+      });
+    } catch (error) {
+      throw new Error(
+        `获取 CHM 文件信息失败: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * 从 #SYSTEM 文件读取元数据
+   * @param parsedCHM 解析后的 CHM 结构
+   * @param source 数据源
+   * @returns CHM 元数据，缺少 #SYSTEM 时为空对象
+   */
+  static readMetadata(parsedCHM: ParsedCHM, source: ByteSource): CHMMetadata {
+    const fileManager = new CHMFileManager(parsedCHM);
+    if (!fileManager.findFileEntry(CHM_SYSTEM_FILES.system)) {
+      return {};
+    }
+
+    const reconstructor = new FileReconstructor(parsedCHM);
+    const system = reconstructor.reconstructFile(
+      CHM_SYSTEM_FILES.system,
+      source,
+    );
+
+    return SystemFileParser.toMetadata(SystemFileParser.parse(system.data));
+  }
 }
@@ -0,0 +1,229 @@
+import { CHMFileManager } from '../core/files/file-manager';
+import { TopicTable } from '../core/internal/topic-table';
+import { ContextMap } from '../core/internal/context-map';
+import { BinaryTOCReader } from '../core/internal/binary-toc';
+import { BinaryIndexReader } from '../core/internal/binary-index';
+import { FullTextIndex } from '../core/internal/full-text-index';
+import { InternalFileReader } from '../core/internal/internal-file-reader';
+import { SystemFileParser } from '../core/internal/system-file';
+import { SitemapParser } from '../core/sitemap/sitemap-parser';
+import { ParserOperations } from './parser';
+import { CHM_SYSTEM_FILES } from '../constants';
+import type {
+  ByteSource,
+  FullTextMatch,
+  IndexEntry,
+  ParsedCHM,
+  SystemFile,
+  TOCEntry,
+  TopicEntry,
+} from '../core/types';
+
+/**
+ * CHM 导航数据读取操作
+ */
+export class NavigationOperations {
+  /**
+   * 获取 CHM 文件的主题表
+   * @param chmPath CHM 文件路径
+   * @returns 按编号排列的主题数组
+   */
+  static async getTopics(chmPath: string): Promise<TopicEntry[]> {
+    try {
+      return await ParserOperations.withSource(chmPath, source => {
+        const parsedCHM = ParserOperations.parseSource(source);
+        return TopicTable.load(parsedCHM, source).getTopics();
+      });
+    } catch (error) {
+      throw new Error(
+        `读取主题表失败: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * 通过 #IVB 把数字上下文 ID 解析为主题路径
+   * @param chmPath CHM 文件路径
+   * @param id 数字上下文 ID
+   * @returns 目标主题路径，没有映射时为 undefined
+   */
+  static async resolveContextId(
+    chmPath: string,
+    id: number,
+  ): Promise<string | undefined> {
+    try {
+      return await ParserOperations.withSource(chmPath, source => {
+        const parsedCHM = ParserOperations.parseSource(source);
+        return ContextMap.load(parsedCHM, source).resolve(id);
+      });
+    } catch (error) {
+      throw new Error(
+        `解析上下文 ID 失败: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * 获取 CHM 文件的目录
+   * @param chmPath CHM 文件路径
+   * @returns 目录树
+   */
+  static async getTOC(chmPath: string): Promise<TOCEntry[]> {
+    try {
+      return await ParserOperations.withSource(chmPath, source => {
+        const parsedCHM = ParserOperations.parseSource(source);
+        return this.readTOC(parsedCHM, source);
+      });
+    } catch (error) {
+      throw new Error(
+        `读取目录失败: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * 获取 CHM 文件的索引
+   * @param chmPath CHM 文件路径
+   * @returns 索引条目
+   */
+  static async getIndex(chmPath: string): Promise<IndexEntry[]> {
+    try {
+      return await ParserOperations.withSource(chmPath, source => {
+        const parsedCHM = ParserOperations.parseSource(source);
+        return this.readIndex(parsedCHM, source);
+      });
+    } catch (error) {
+      throw new Error(
+        `读取索引失败: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * 通过 CHM 自带的全文索引（$FIftiMain）查询单个词
+   * @param chmPath CHM 文件路径
+   * @param word 要查询的词
+   * @returns 包含该词的主题及词的位置
+   */
+  static async searchIndex(
+    chmPath: string,
+    word: string,
+  ): Promise<FullTextMatch[]> {
+    try {
+      return await ParserOperations.withSource(chmPath, source => {
+        const parsedCHM = ParserOperations.parseSource(source);
+        const index = FullTextIndex.load(parsedCHM, source);
+        if (!index) {
+          throw new Error('CHM 文件不包含全文索引');
+        }
+
+        return index.search(word);
+      });
+    } catch (error) {
+      throw new Error(
+        `全文索引查询失败: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * 读取目录
+   * 优先解析 .hhc 站点地图，没有站点地图时使用二进制目录（#TOCIDX）
+   * @param parsedCHM 解析后的 CHM 结构
+   * @param source 数据源
+   * @returns 目录树，没有目录时为空数组
+   */
+  static readTOC(parsedCHM: ParsedCHM, source: ByteSource): TOCEntry[] {
+    const reader = new InternalFileReader(parsedCHM, source);
+    const system = this.readSystem(reader);
+    const sitemap = this.findSitemap(parsedCHM, system?.contentsFile, '.hhc');
+
+    if (sitemap) {
+      return SitemapParser.parseTOC(reader.read(sitemap)!, {
+        encoding: reader.encoding,
+      });
+    }
+
+    return BinaryTOCReader.load(parsedCHM, source) ?? [];
+  }
+
+  /**
+   * 读取索引
+   * 优先解析 .hhk 站点地图，没有站点地图时使用二进制关键词索引（$WWKeywordLinks）
+   * @param parsedCHM 解析后的 CHM 结构
+   * @param source 数据源
+   * @returns 索引条目，没有索引时为空数组
+   */
+  static readIndex(parsedCHM: ParsedCHM, source: ByteSource): IndexEntry[] {
+    const reader = new InternalFileReader(parsedCHM, source);
+    const system = this.readSystem(reader);
+    const sitemap = this.findSitemap(parsedCHM, system?.indexFile, '.hhk');
+
+    if (sitemap) {
+      return SitemapParser.parseIndex(reader.read(sitemap)!, {
+        encoding: reader.encoding,
+      });
+    }
+
+    return BinaryIndexReader.load(parsedCHM, source, 'keyword') ?? [];
+  }
+
+  /**
+   * 获取 CHM 文件的关联索引（A-link，$WWAssociativeLinks）
+   * @param chmPath CHM 文件路径
+   * @returns 关联索引条目，没有时为空数组
+   */
+  static async getAssociativeIndex(chmPath: string): Promise<IndexEntry[]> {
+    try {
+      return await ParserOperations.withSource(chmPath, source => {
+        const parsedCHM = ParserOperations.parseSource(source);
+        return BinaryIndexReader.load(parsedCHM, source, 'associative') ?? [];
+      });
+    } catch (error) {
+      throw new Error(
+        `读取关联索引失败: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * 读取 #SYSTEM 文件
+   * @param reader 内部文件读取器
+   * @returns #SYSTEM 信息，文件不存在时为 undefined
+   */
+  private static readSystem(
+    reader: InternalFileReader,
+  ): SystemFile | undefined {
+    const data = reader.read(CHM_SYSTEM_FILES.system);
+    return data ? SystemFileParser.parse(data) : undefined;
+  }
+
+  /**
+   * 查找站点地图文件
+   * 优先使用 #SYSTEM 中声明的文件名，其次是目录中第一个同扩展名的文件
+   * @param parsedCHM 解析后的 CHM 结构
+   * @param declared #SYSTEM 中声明的文件名
+   * @param extension 文件扩展名
+   * @returns CHM 内的文件路径，没有时为 null
+   */
+  private static findSitemap(
+    parsedCHM: ParsedCHM,
+    declared: string | undefined,
+    extension: string,
+  ): string | null {
+    const fileManager = new CHMFileManager(parsedCHM);
+
+    if (declared) {
+      const fileName = declared.startsWith('/') ? declared : `/${declared}`;
+      if (fileManager.findFileEntry(fileName)) {
+        return fileName;
+      }
+    }
+
+    return (
+      fileManager
+        .getFilesByType(extension)
+        .find(fileName => !/^\/[#$]/.test(fileName)) ?? null
+    );
+  }
+}
@@ -1,3 +1,4 @@
+import { dirname, extname } from 'path';
 import type { PackOptions } from '../core/types';
 
 /**
@@ -6,24 +7,30 @@ import type { PackOptions } from '../core/types';
 export class PackerOperations {
   /**
    * 打包目录为 CHM 文件
-   * @param inputDir 输入目录
+   * 输入为 .hhp 文件时按项目编译，项目中的路径相对于项目所在目录
+   * @param input 输入目录或 .hhp 项目文件路径
    * @param outputPath 输出 CHM 文件路径
    * @param options 打包选项
    * @returns 打包结果
    */
   static async pack(
-    inputDir: string,
+    input: string,
     outputPath: string,
     options: Partial<PackOptions> = {},
   ): Promise<{ success: boolean; message: string }> {
     try {
       const { CHMEncoder } = await import('../encoder/chm-encoder');
 
+      const projectFile =
+        extname(input).toLowerCase() === '.hhp' ? input : options.projectFile;
+
       const packOptions: PackOptions = {
-        inputDir,
+        inputDir: projectFile ? dirname(projectFile) : input,
         outputPath,
+        ...(projectFile && { projectFile }),
         compression: options.compression ?? true,
         verbose: options.verbose ?? false,
+        ...(options.language !== undefined && { language: options.language }),
         ...(options.title && { title: options.title }),
         ...(options.defaultTopic && { defaultTopic: options.defaultTopic }),
       };
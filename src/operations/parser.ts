@@ -1,8 +1,8 @@
-import { readFileSync } from 'fs';
-import { BitReader } from '../utils/io/bit-reader';
+import { FileByteSource } from '../utils/io/byte-source';
 import { CHMParserFactory } from '../core/parser/parser-factory';
 import { CHMParserValidator } from '../core/parser/parser-validator';
-import type { ParsedCHM } from '../core/types';
+import { DirectoryParser } from '../core/directory/directory-parser';
+import type { ByteSource, ParsedCHM, ParseOptions } from '../core/types';
 
 /**
  * CHM 文件解析操作
@@ -11,17 +11,39 @@ export class ParserOperations {
   /**
    * 解析 CHM 文件
    * @param filePath CHM 文件路径
+   * @param options 解析选项
    * @returns 解析后的 CHM 对象
    */
-  static async parse(filePath: string): Promise<ParsedCHM> {
-    try {
-      // 读取文件
-      const fileBuffer = readFileSync(filePath);
-      const reader = new BitReader(fileBuffer);
+  static async parse(
+    filePath: string,
+    options: ParseOptions = {},
+  ): Promise<ParsedCHM> {
+    return this.withSource(filePath, source => {
+      const parsedCHM = this.parseSource(source, options);
+
+      // 文件关闭后延迟目录仍需可查找，只复制目录块
+      if (parsedCHM.directory.lazy) {
+        DirectoryParser.detach(parsedCHM.directory);
+      }
 
+      return parsedCHM;
+    });
+  }
+
+  /**
+   * 从数据源解析 CHM 文件
+   * @param source 数据源
+   * @param options 解析选项
+   * @returns 解析后的 CHM 对象
+   */
+  static parseSource(
+    source: ByteSource,
+    options: ParseOptions = {},
+  ): ParsedCHM {
+    try {
       // 创建解析器并解析
       const parser = CHMParserFactory.create();
-      const parsedCHM = parser.parse(reader);
+      const parsedCHM = parser.parse(source, options);
 
       // 验证解析结果
       if (!CHMParserValidator.validate(parsedCHM)) {
@@ -35,4 +57,22 @@ export class ParserOperations {
       );
     }
   }
+
+  /**
+   * 打开 CHM 文件数据源并在操作结束后关闭
+   * @param filePath CHM 文件路径
+   * @param action 使用数据源的操作
+   * @returns 操作结果
+   */
+  static async withSource<T>(
+    filePath: string,
+    action: (source: ByteSource) => T | Promise<T>,
+  ): Promise<T> {
+    const source = FileByteSource.open(filePath);
+    try {
+      return await action(source);
+    } finally {
+      source.close();
+    }
+  }
 }
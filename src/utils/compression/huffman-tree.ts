@@ -1,5 +1,21 @@
-import type { HuffmanTree } from '../../core/types';
-import { BitReader } from '../io/bit-reader';
+import type {
+  HuffmanTree,
+  HuffmanCodeTable,
+  HuffmanDecodeTable,
+  BitReader,
+} from '../../core/types';
+
+const PRIMARY_TABLE_BITS = 10;
+
+/**
+ * 包合并算法中的项：叶子或由两个项合并成的包
+ */
+interface PackageItem {
+  weight: number;
+  leaf: number; // 叶子在已排序叶子数组中的索引，包为 -1
+  left?: PackageItem;
+  right?: PackageItem;
+}
 
 /**
  * 通用 Huffman 树操作类
@@ -51,8 +67,161 @@ export class HuffmanTreeOperations {
     };
   }
 
+  /**
+   * 由码长生成按符号索引的 Canonical 码表（用于编码）
+   * @param lengths 码长数组
+   * @returns 码表
+   */
+  static createCodeTable(lengths: number[]): HuffmanCodeTable {
+    const tree = this.createCanonicalTree(lengths);
+    const codes = new Array<number>(lengths.length).fill(0);
+
+    tree.symbols.forEach((symbol, i) => {
+      codes[symbol] = tree.codes[i]!;
+    });
+
+    return { codes, lengths: lengths.slice() };
+  }
+
+  /**
+   * 根据符号频率构建码长不超过上限的最优码长
+   * 普通 Huffman 码长满足上限时直接使用，否则用包合并算法求限长最优解
+   * @param frequencies 符号频率，0 表示符号未使用
+   * @param maxLength 最大码长
+   * @returns 码长数组；只有一个符号使用时其码长为 1
+   */
+  static buildCodeLengths(frequencies: number[], maxLength: number): number[] {
+    const leaves = frequencies
+      .map((weight, symbol) => ({ weight, symbol }))
+      .filter(leaf => leaf.weight > 0)
+      .sort((a, b) => a.weight - b.weight || a.symbol - b.symbol);
+    const lengths = new Array<number>(frequencies.length).fill(0);
+
+    if (leaves.length === 0) {
+      return lengths;
+    }
+
+    if (leaves.length === 1) {
+      lengths[leaves[0]!.symbol] = 1;
+      return lengths;
+    }
+
+    if (leaves.length > 2 ** maxLength) {
+      throw new Error(
+        `${leaves.length} 个符号无法使用不超过 ${maxLength} 位的码长编码`,
+      );
+    }
+
+    const weights = leaves.map(leaf => leaf.weight);
+    let depths = this.buildHuffmanDepths(weights);
+    if (Math.max(...depths) > maxLength) {
+      depths = this.buildPackageMergeDepths(weights, maxLength);
+    }
+
+    leaves.forEach((leaf, i) => {
+      lengths[leaf.symbol] = depths[i]!;
+    });
+    return lengths;
+  }
+
+  /**
+   * 构建不限长度的 Huffman 码长（双队列合并）
+   * @param weights 按升序排列的叶子权重
+   * @returns 各叶子的深度
+   */
+  private static buildHuffmanDepths(weights: number[]): number[] {
+    const count = weights.length;
+    const nodeWeights = weights.slice();
+    const parents = new Array<number>(count * 2 - 1).fill(0);
+
+    // 内部节点按生成顺序权重不减，每次从叶子和内部节点两个队列头部取最小者
+    let leaf = 0;
+    let internal = count;
+    for (let node = count; node < count * 2 - 1; node++) {
+      let weight = 0;
+      for (let k = 0; k < 2; k++) {
+        const child =
+          leaf < count &&
+          (internal >= node || nodeWeights[leaf]! <= nodeWeights[internal]!)
+            ? leaf++
+            : internal++;
+        parents[child] = node;
+        weight += nodeWeights[child]!;
+      }
+      nodeWeights[node] = weight;
+    }
+
+    const depths = new Array<number>(count * 2 - 1).fill(0);
+    for (let node = count * 2 - 3; node >= 0; node--) {
+      depths[node] = depths[parents[node]!]! + 1;
+    }
+
+    return depths.slice(0, count);
+  }
+
+  /**
+   * 包合并算法构建限长码长
+   * 从最深一层开始，把上一层的项两两打包并与叶子合并排序，重复 maxLength - 1 次；
+   * 最终列表中前 2n - 2 项包含某个叶子的次数就是它的码长
+   * @param weights 按升序排列的叶子权重
+   * @param maxLength 最大码长
+   * @returns 各叶子的码长
+   */
+  private static buildPackageMergeDepths(
+    weights: number[],
+    maxLength: number,
+  ): number[] {
+    const leaves: PackageItem[] = weights.map((weight, leaf) => ({
+      weight,
+      leaf,
+    }));
+    let items = leaves;
+
+    for (let level = 1; level < maxLength; level++) {
+      const packages: PackageItem[] = [];
+      for (let i = 0; i + 1 < items.length; i += 2) {
+        packages.push({
+          weight: items[i]!.weight + items[i + 1]!.weight,
+          leaf: -1,
+          left: items[i],
+          right: items[i + 1],
+        });
+      }
+
+      // 合并两个有序列表，权重相同时叶子在前
+      const merged: PackageItem[] = [];
+      let i = 0;
+      let j = 0;
+      while (i < leaves.length || j < packages.length) {
+        if (
+          j >= packages.length ||
+          (i < leaves.length && leaves[i]!.weight <= packages[j]!.weight)
+        ) {
+          merged.push(leaves[i++]!);
+        } else {
+          merged.push(packages[j++]!);
+        }
+      }
+      items = merged;
+    }
+
+    const depths = new Array<number>(weights.length).fill(0);
+    const pending = items.slice(0, weights.length * 2 - 2);
+    while (pending.length > 0) {
+      const item = pending.pop()!;
+      if (item.leaf >= 0) {
+        depths[item.leaf]!++;
+      } else {
+        pending.push(item.left!, item.right!);
+      }
+    }
+
+    return depths;
+  }
+
   /**
    * 解码单个符号
+   * 预览最长码长的位数后查表，再跳过实际码长，每个符号只访问读取器两次
    * @param reader 位读取器
    * @param tree Huffman 树
    * @param maxCodeLength 最大码长
@@ -63,30 +232,97 @@ export class HuffmanTreeOperations {
     tree: HuffmanTree,
     maxCodeLength: number = 16,
   ): number {
-    let code = 0;
-    let length = 0;
+    if (!reader.hasMore()) {
+      throw new Error('Unexpected end of stream while decoding Huffman symbol');
+    }
+
+    let table = tree.table;
+    if (!table) {
+      table = this.createDecodeTable(tree);
+      tree.table = table;
+    }
+    if (table.maxLength === 0 || table.maxLength > maxCodeLength) {
+      throw new Error('Invalid Huffman code');
+    }
 
-    // 逐位读取直到找到匹配的码
-    while (length < maxCodeLength) {
-      if (!reader.hasMore()) {
-        throw new Error(
-          'Unexpected end of stream while decoding Huffman symbol',
+    const bits = reader.peek(table.maxLength);
+    const { entries, tableBits, maxLength } = table;
+    let entry = entries[bits >>> (maxLength - tableBits)]!;
+
+    if (entry < 0) {
+      const link = ~entry;
+      const subBits = link & 0x1f;
+      const index =
+        (bits >>> (maxLength - tableBits - subBits)) & ((1 << subBits) - 1);
+      entry = entries[(link >>> 5) + index]!;
+    }
+
+    if (entry <= 0) {
+      throw new Error('Invalid Huffman code');
+    }
+
+    reader.skip(entry & 0x1f);
+    return entry >>> 5;
+  }
+
+  /**
+   * 创建查表解码用的表
+   * 码长不超过主表位数的码在主表中占据 2^(主表位数 - 码长) 项；
+   * 更长的码按前缀分组，每组放在一个溢出子表中，子表位数由组内最长码长决定
+   * @param tree Huffman 树
+   * @returns 解码表
+   */
+  static createDecodeTable(tree: HuffmanTree): HuffmanDecodeTable {
+    const maxLength = tree.lengths.length > 0 ? Math.max(...tree.lengths) : 0;
+    const tableBits = Math.min(maxLength, PRIMARY_TABLE_BITS);
+
+    // 统计每个前缀下最长的码，确定子表的位数
+    const subBits = new Map<number, number>();
+    tree.codes.forEach((code, i) => {
+      const length = tree.lengths[i]!;
+      if (length > tableBits) {
+        const prefix = code >>> (length - tableBits);
+        subBits.set(
+          prefix,
+          Math.max(subBits.get(prefix) ?? 0, length - tableBits),
         );
       }
+    });
 
-      const bit = reader.read(1);
-      code = (code << 1) | bit;
-      length++;
+    let size = 1 << tableBits;
+    const subOffsets = new Map<number, number>();
+    for (const [prefix, bits] of subBits) {
+      subOffsets.set(prefix, size);
+      size += 1 << bits;
+    }
 
-      // 查找匹配的码
-      for (let i = 0; i < tree.codes.length; i++) {
-        if (tree.lengths[i] === length && tree.codes[i] === code) {
-          return tree.symbols[i]!;
-        }
-      }
+    const entries = new Int32Array(size);
+    for (const [prefix, offset] of subOffsets) {
+      entries[prefix] = ~((offset << 5) | subBits.get(prefix)!);
     }
 
-    throw new Error('Invalid Huffman code');
+    tree.codes.forEach((code, i) => {
+      const length = tree.lengths[i]!;
+      const entry = (tree.symbols[i]! << 5) | length;
+
+      let start: number;
+      let count: number;
+      if (length <= tableBits) {
+        start = code << (tableBits - length);
+        count = 1 << (tableBits - length);
+      } else {
+        const prefix = code >>> (length - tableBits);
+        const bits = subBits.get(prefix)!;
+        const rest = code & ((1 << (length - tableBits)) - 1);
+        start =
+          subOffsets.get(prefix)! + (rest << (bits - (length - tableBits)));
+        count = 1 << (bits - (length - tableBits));
+      }
+
+      entries.fill(entry, start, start + count);
+    });
+
+    return { tableBits, maxLength, entries };
   }
 
   /**
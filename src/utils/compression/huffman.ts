@@ -1,7 +1,13 @@
-import type { HuffmanTree, HuffmanDecoder } from '../../core/types';
-import { BitReader } from '../io/bit-reader';
+import type {
+  HuffmanTree,
+  HuffmanCodeTable,
+  HuffmanDecoder,
+  BitReader,
+  PretreeCode,
+} from '../../core/types';
 import { HuffmanTreeOperations } from './huffman-tree';
 import { LZXHuffmanDecoder } from './lzx-huffman-decoder';
+import { LZXHuffmanEncoder } from './lzx-huffman-encoder';
 
 /**
  * Huffman 解码器门面类
@@ -17,6 +23,45 @@ export class Huffman {
     return HuffmanTreeOperations.createCanonicalTree(lengths);
   }
 
+  /**
+   * 由码长生成按符号索引的编码表
+   * @param lengths 码长数组
+   * @returns 码表
+   */
+  public static createCodeTable(lengths: number[]): HuffmanCodeTable {
+    return HuffmanTreeOperations.createCodeTable(lengths);
+  }
+
+  /**
+   * 根据符号频率构建限长的最优码长
+   * @param frequencies 符号频率
+   * @param maxLength 最大码长
+   * @returns 码长数组
+   */
+  public static buildCodeLengths(
+    frequencies: number[],
+    maxLength: number,
+  ): number[] {
+    return HuffmanTreeOperations.buildCodeLengths(frequencies, maxLength);
+  }
+
+  /**
+   * 把码长相对上一棵树的差值编码为 LZX 预树符号序列
+   * @param previous 上一棵树的码长
+   * @param current 当前树的码长
+   * @param first 起始索引
+   * @param last 结束索引（不含）
+   * @returns 预树符号序列
+   */
+  public static encodeTreeDelta(
+    previous: number[],
+    current: number[],
+    first: number,
+    last: number,
+  ): PretreeCode[] {
+    return LZXHuffmanEncoder.encodeTreeDelta(previous, current, first, last);
+  }
+
   /**
    * 解码单个符号
    * @param reader 位读取器
@@ -6,3 +6,4 @@
 export { Huffman } from './huffman';
 export { HuffmanTreeOperations } from './huffman-tree';
 export { LZXHuffmanDecoder } from './lzx-huffman-decoder';
+export { LZXHuffmanEncoder } from './lzx-huffman-encoder';
@@ -1,5 +1,4 @@
-import type { HuffmanTree, HuffmanDecoder } from '../../core/types';
-import { BitReader } from '../io/bit-reader';
+import type { HuffmanTree, HuffmanDecoder, BitReader } from '../../core/types';
 import { HuffmanTreeOperations } from './huffman-tree';
 
 /**
@@ -0,0 +1,74 @@
+import type { PretreeCode } from '../../core/types';
+
+const MIN_RUN = 4;
+const MAX_SHORT_ZERO_RUN = 19; // 符号 17：4-19 个零
+const MAX_LONG_ZERO_RUN = 51; // 符号 18：20-51 个零
+const MAX_SAME_RUN = 5; // 符号 19：4-5 个相同码长
+
+/**
+ * LZX 特定的 Huffman 编码工具
+ * 负责把码长表编码为预树符号序列
+ */
+export class LZXHuffmanEncoder {
+  /**
+   * 把 [first, last) 范围内的码长编码为相对上一棵树的预树符号序列
+   * 解码器按 (上一码长 - 符号 + 17) % 17 还原码长；
+   * 连续的零码长使用游程符号 17/18，连续相同的非零码长使用符号 19，
+   * 符号 19 之后紧跟一个差值符号
+   * @param previous 上一棵树的码长
+   * @param current 当前树的码长
+   * @param first 起始索引
+   * @param last 结束索引（不含）
+   * @returns 预树符号序列
+   */
+  static encodeTreeDelta(
+    previous: number[],
+    current: number[],
+    first: number,
+    last: number,
+  ): PretreeCode[] {
+    const codes: PretreeCode[] = [];
+    const delta = (i: number): PretreeCode => ({
+      symbol: ((previous[i] ?? 0) - current[i]! + 17) % 17,
+      extraBits: 0,
+      extraValue: 0,
+    });
+
+    let i = first;
+    while (i < last) {
+      const value = current[i]!;
+      let run = 1;
+      while (i + run < last && current[i + run] === value) {
+        run++;
+      }
+
+      if (value === 0) {
+        while (run > MAX_SHORT_ZERO_RUN) {
+          const count = Math.min(run, MAX_LONG_ZERO_RUN);
+          codes.push({ symbol: 18, extraBits: 5, extraValue: count - 20 });
+          i += count;
+          run -= count;
+        }
+        if (run >= MIN_RUN) {
+          codes.push({ symbol: 17, extraBits: 4, extraValue: run - MIN_RUN });
+          i += run;
+          run = 0;
+        }
+      } else {
+        while (run >= MIN_RUN) {
+          const count = Math.min(run, MAX_SAME_RUN);
+          codes.push({ symbol: 19, extraBits: 1, extraValue: count - MIN_RUN });
+          codes.push(delta(i));
+          i += count;
+          run -= count;
+        }
+      }
+
+      for (; run > 0; run--) {
+        codes.push(delta(i++));
+      }
+    }
+
+    return codes;
+  }
+}
@@ -0,0 +1,310 @@
+/**
+ * 主语言 ID（LCID 低 10 位）到 ANSI 代码页的映射
+ */
+const LANGUAGE_CODEPAGES: Record<number, number> = {
+  0x01: 1256, // 阿拉伯语
+  0x02: 1251, // 保加利亚语
+  0x03: 1252, // 加泰罗尼亚语
+  0x04: 936, // 中文（按子语言细分，见 LCID_CODEPAGES）
+  0x05: 1250, // 捷克语
+  0x06: 1252, // 丹麦语
+  0x07: 1252, // 德语
+  0x08: 1253, // 希腊语
+  0x09: 1252, // 英语
+  0x0a: 1252, // 西班牙语
+  0x0b: 1252, // 芬兰语
+  0x0c: 1252, // 法语
+  0x0d: 1255, // 希伯来语
+  0x0e: 1250, // 匈牙利语
+  0x0f: 1252, // 冰岛语
+  0x10: 1252, // 意大利语
+  0x11: 932, // 日语
+  0x12: 949, // 韩语
+  0x13: 1252, // 荷兰语
+  0x14: 1252, // 挪威语
+  0x15: 1250, // 波兰语
+  0x16: 1252, // 葡萄牙语
+  0x18: 1250, // 罗马尼亚语
+  0x19: 1251, // 俄语
+  0x1a: 1250, // 克罗地亚语、拉丁塞尔维亚语
+  0x1b: 1250, // 斯洛伐克语
+  0x1c: 1250, // 阿尔巴尼亚语
+  0x1d: 1252, // 瑞典语
+  0x1e: 874, // 泰语
+  0x1f: 1254, // 土耳其语
+  0x20: 1256, // 乌尔都语
+  0x21: 1252, // 印度尼西亚语
+  0x22: 1251, // 乌克兰语
+  0x23: 1251, // 白俄罗斯语
+  0x24: 1250, // 斯洛文尼亚语
+  0x25: 1257, // 爱沙尼亚语
+  0x26: 1257, // 拉脱维亚语
+  0x27: 1257, // 立陶宛语
+  0x29: 1256, // 波斯语
+  0x2a: 1258, // 越南语
+  0x2c: 1254, // 阿塞拜疆语（拉丁）
+  0x2d: 1252, // 巴斯克语
+  0x2f: 1251, // 马其顿语
+  0x36: 1252, // 南非荷兰语
+  0x38: 1252, // 法罗语
+  0x3e: 1252, // 马来语
+  0x3f: 1251, // 哈萨克语
+  0x40: 1251, // 吉尔吉斯语
+  0x41: 1252, // 斯瓦希里语
+  0x43: 1254, // 乌兹别克语（拉丁）
+  0x44: 1251, // 鞑靼语
+  0x50: 1251, // 蒙古语
+};
+
+/**
+ * 子语言决定代码页的完整 LCID
+ */
+const LCID_CODEPAGES: Record<number, number> = {
+  0x0404: 950, // 中文（台湾）
+  0x0804: 936, // 中文（中国大陆）
+  0x0c04: 950, // 中文（香港）
+  0x1004: 936, // 中文（新加坡）
+  0x1404: 950, // 中文（澳门）
+  0x0c1a: 1251, // 塞尔维亚语（西里尔）
+  0x1c1a: 1251, // 塞尔维亚语（西里尔，波黑）
+  0x082c: 1251, // 阿塞拜疆语（西里尔）
+  0x0843: 1251, // 乌兹别克语（西里尔）
+};
+
+/**
+ * 代码页到 TextDecoder 字符集名称的映射
+ */
+const CODEPAGE_CHARSETS: Record<number, string> = {
+  874: 'windows-874',
+  932: 'shift_jis',
+  936: 'gbk',
+  949: 'euc-kr',
+  950: 'big5',
+  1200: 'utf-16le',
+  1250: 'windows-1250',
+  1251: 'windows-1251',
+  1252: 'windows-1252',
+  1253: 'windows-1253',
+  1254: 'windows-1254',
+  1255: 'windows-1255',
+  1256: 'windows-1256',
+  1257: 'windows-1257',
+  1258: 'windows-1258',
+  65001: 'utf-8',
+};
+
+const DEFAULT_CODEPAGE = 1252;
+const CHARSET_PATTERN = /<meta\b[^>]*charset\s*=\s*["']?([\w-]+)/i;
+
+/**
+ * 各字符集的编码表缓存：字符到字节序列
+ */
+const ENCODE_TABLES = new Map<string, Map<string, number[]>>();
+
+/**
+ * 代码页与文本解码工具
+ * CHM 中的字符串和页面按编译时语言（LCID）的 ANSI 代码页存储
+ */
+export class Codepage {
+  /**
+   * 获取 LCID 对应的 ANSI 代码页
+   * @param lcid 语言 ID
+   * @returns 代码页，未知语言时为 1252
+   */
+  static fromLCID(lcid: number): number {
+    return (
+      LCID_CODEPAGES[lcid] ??
+      LANGUAGE_CODEPAGES[lcid & 0x3ff] ??
+      DEFAULT_CODEPAGE
+    );
+  }
+
+  /**
+   * 获取代码页对应的字符集名称
+   * @param codepage 代码页
+   * @returns TextDecoder 可用的字符集名称
+   */
+  static toCharset(codepage: number): string {
+    return CODEPAGE_CHARSETS[codepage] ?? `windows-${codepage}`;
+  }
+
+  /**
+   * 获取 LCID 对应的字符集名称
+   * @param lcid 语言 ID
+   * @returns 字符集名称
+   */
+  static charsetForLCID(lcid: number): string {
+    return this.toCharset(this.fromLCID(lcid));
+  }
+
+  /**
+   * 按指定字符集解码
+   * @param bytes 文本字节
+   * @param charset 字符集名称，不支持时按 UTF-8 解码
+   * @returns 文本
+   */
+  static decode(bytes: Uint8Array, charset: string = 'utf-8'): string {
+    try {
+      return new TextDecoder(charset).decode(bytes);
+    } catch {
+      return new TextDecoder('utf-8').decode(bytes);
+    }
+  }
+
+  /**
+   * 按指定字符集编码文本
+   * ANSI 代码页没有内置编码器，通过逆向解码单字节和双字节序列建立编码表；
+   * 代码页中不存在的字符写为 ?
+   * @param text 文本
+   * @param charset 字符集名称，UTF-8 或不支持的字符集按 UTF-8 编码
+   * @returns 编码后的字节
+   */
+  static encode(text: string, charset: string = 'utf-8'): Buffer {
+    const normalized = charset.toLowerCase();
+    if (normalized === 'utf-16le') {
+      return Buffer.from(text, 'utf16le');
+    }
+    if (
+      normalized === 'utf-8' ||
+      normalized === 'utf8' ||
+      !this.isSupported(normalized)
+    ) {
+      return Buffer.from(text, 'utf-8');
+    }
+
+    const table = this.getEncodeTable(normalized);
+    const bytes: number[] = [];
+    for (const char of text) {
+      bytes.push(...(table.get(char) ?? [0x3f]));
+    }
+
+    return Buffer.from(bytes);
+  }
+
+  /**
+   * 检查文本能否按指定字符集无损编码
+   * @param text 文本
+   * @param charset 字符集名称，UTF-8 或不支持的字符集总能编码
+   * @returns encode 是否不会把字符替换为 ?
+   */
+  static canEncode(text: string, charset: string): boolean {
+    const normalized = charset.toLowerCase();
+    if (
+      ['utf-8', 'utf8', 'utf-16le'].includes(normalized) ||
+      !this.isSupported(normalized)
+    ) {
+      return true;
+    }
+
+    const table = this.getEncodeTable(normalized);
+    for (const char of text) {
+      if (!table.has(char)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * 建立字符集的编码表：先解码全部单字节，
+   * 单独解码失败的字节作为前导字节，再尝试与各尾字节组合
+   * @param charset 字符集名称
+   * @returns 字符到字节序列的映射
+   */
+  private static getEncodeTable(charset: string): Map<string, number[]> {
+    const cached = ENCODE_TABLES.get(charset);
+    if (cached) {
+      return cached;
+    }
+
+    const decoder = new TextDecoder(charset, { fatal: true });
+    const decode = (bytes: number[]): string | undefined => {
+      try {
+        return decoder.decode(Uint8Array.from(bytes));
+      } catch {
+        return undefined;
+      }
+    };
+
+    const table = new Map<string, number[]>();
+    const leadBytes: number[] = [];
+    for (let byte = 0; byte < 0x100; byte++) {
+      const char = decode([byte]);
+      if (char === undefined) {
+        if (byte >= 0x80) {
+          leadBytes.push(byte);
+        }
+      } else if (!table.has(char)) {
+        table.set(char, [byte]);
+      }
+    }
+
+    for (const lead of leadBytes) {
+      for (let trail = 0x40; trail < 0xff; trail++) {
+        const char = decode([lead, trail]);
+        if (char !== undefined && [...char].length === 1 && !table.has(char)) {
+          table.set(char, [lead, trail]);
+        }
+      }
+    }
+
+    ENCODE_TABLES.set(charset, table);
+    return table;
+  }
+
+  /**
+   * 解码名称：合法的 UTF-8 按 UTF-8 解码，否则按指定字符集解码
+   * @param bytes 名称字节
+   * @param charset 回退字符集
+   * @returns 名称
+   */
+  static decodeName(bytes: Uint8Array, charset: string): string {
+    try {
+      return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    } catch {
+      return this.decode(bytes, charset);
+    }
+  }
+
+  /**
+   * 读取 HTML 文档 <meta> 中声明的字符集
+   * @param html 文档字节
+   * @returns 字符集名称，未声明时为 undefined
+   */
+  static detectCharset(html: Buffer): string | undefined {
+    // 只检查文档开头，<meta> 应位于 <head> 中
+    return CHARSET_PATTERN.exec(html.subarray(0, 4096).toString('latin1'))?.[1];
+  }
+
+  /**
+   * 解码 HTML 文档（含 .hhc/.hhk）
+   * 文档声明的 charset 优先，其次是调用方给出的字符集（通常来自 LCID）；
+   * 都没有时按 UTF-8 解码，不是合法 UTF-8 时按 windows-1252 解码
+   * @param html 文档字节
+   * @param charset 回退字符集
+   * @returns 文档文本
+   */
+  static decodeHTML(html: Buffer, charset?: string): string {
+    for (const candidate of [this.detectCharset(html), charset]) {
+      if (candidate && this.isSupported(candidate)) {
+        return new TextDecoder(candidate).decode(html);
+      }
+    }
+
+    return this.decodeName(html, 'windows-1252');
+  }
+
+  /**
+   * 检查字符集是否受 TextDecoder 支持
+   * @param charset 字符集名称
+   * @returns 是否支持
+   */
+  static isSupported(charset: string): boolean {
+    try {
+      new TextDecoder(charset);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
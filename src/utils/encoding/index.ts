@@ -0,0 +1,6 @@
+/**
+ * 编码工具模块
+ * 集中管理 LCID、代码页和文本解码
+ */
+
+export { Codepage } from './codepage';
@@ -58,14 +58,25 @@ export class BitReader implements IBitReader {
 
   /**
    * 预览指定位数的数据（不改变位置）
+   * 越过数据末尾的位按 0 返回
    * @param bits 要预览的位数
    * @returns 预览的数值
    */
   public peek(bits: number): number {
+    if (bits <= 0 || bits > 32) {
+      throw new Error('Invalid bits count: must be between 1 and 32');
+    }
+
     const currentPosition = this.position;
     const currentBitPosition = this.bitPosition;
 
-    const result = this.read(bits);
+    const available = Math.max(
+      0,
+      (this.buffer.length - this.position) * 8 - this.bitPosition,
+    );
+    const readable = Math.min(bits, available);
+    const result =
+      readable > 0 ? this.read(readable) * 2 ** (bits - readable) : 0;
 
     // 恢复位置
     this.position = currentPosition;
@@ -130,6 +141,37 @@ export class BitReader implements IBitReader {
     this.bitPosition = bit;
   }
 
+  /**
+   * 批量读取字节对齐的原始数据
+   * @param length 要读取的字节数
+   * @returns 数据视图（不复制）
+   */
+  public readBytes(length: number): Buffer {
+    if (this.bitPosition !== 0) {
+      throw new Error('读取原始字节前位流必须对齐');
+    }
+
+    if (length < 0 || this.position + length > this.buffer.length) {
+      throw new Error('Not enough data to read');
+    }
+
+    const result = this.buffer.subarray(this.position, this.position + length);
+    this.position += length;
+    return result;
+  }
+
+  /**
+   * 跳过指定字节数
+   * @param count 字节数
+   */
+  public skipBytes(count: number): void {
+    if (count < 0 || this.position + count > this.buffer.length) {
+      throw new Error('Not enough data to skip');
+    }
+
+    this.position += count;
+  }
+
   /**
    * 获取剩余字节数
    * @returns 剩余字节数
@@ -0,0 +1,122 @@
+import { openSync, fstatSync, readSync, closeSync } from 'fs';
+import type { ByteSource } from '../../core/types';
+
+/**
+ * 检查读取范围是否有效
+ * @param offset 起始偏移
+ * @param length 读取长度
+ * @param size 数据源大小
+ */
+function checkRange(offset: number, length: number, size: number): void {
+  if (offset < 0 || length < 0 || offset + length > size) {
+    throw new Error(
+      `读取超出数据范围: 偏移 ${offset}, 长度 ${length}, 总大小 ${size}`,
+    );
+  }
+}
+
+/**
+ * 基于 Buffer 的数据源
+ * 读取时返回原缓冲区的视图，不复制数据
+ */
+export class BufferByteSource implements ByteSource {
+  public readonly size: number;
+  private buffer: Buffer;
+
+  constructor(buffer: Buffer) {
+    this.buffer = buffer;
+    this.size = buffer.length;
+  }
+
+  /**
+   * 读取指定范围的数据
+   * @param offset 起始偏移
+   * @param length 读取长度
+   * @returns 数据视图
+   */
+  read(offset: number, length: number): Buffer {
+    checkRange(offset, length, this.size);
+    return this.buffer.subarray(offset, offset + length);
+  }
+}
+
+/**
+ * 基于 Uint8Array 的数据源（例如浏览器或 Worker 中传入的数据）
+ */
+export class Uint8ArrayByteSource extends BufferByteSource {
+  constructor(array: Uint8Array) {
+    super(Buffer.from(array.buffer, array.byteOffset, array.byteLength));
+  }
+}
+
+/**
+ * 基于文件描述符的数据源
+ * 使用定位读取按需获取数据，不会把整个文件载入内存
+ */
+export class FileByteSource implements ByteSource {
+  public readonly size: number;
+  private fd: number | null;
+
+  constructor(fd: number) {
+    this.fd = fd;
+    this.size = fstatSync(fd).size;
+  }
+
+  /**
+   * 打开文件作为数据源
+   * @param filePath 文件路径
+   * @returns 文件数据源
+   */
+  static open(filePath: string): FileByteSource {
+    const fd = openSync(filePath, 'r');
+    try {
+      return new FileByteSource(fd);
+    } catch (error) {
+      // 构造失败时没有对象持有文件描述符，需要在这里关闭
+      closeSync(fd);
+      throw error;
+    }
+  }
+
+  /**
+   * 读取指定范围的数据
+   * @param offset 起始偏移
+   * @param length 读取长度
+   * @returns 读取的数据
+   */
+  read(offset: number, length: number): Buffer {
+    if (this.fd === null) {
+      throw new Error('数据源已关闭');
+    }
+
+    checkRange(offset, length, this.size);
+
+    const buffer = Buffer.alloc(length);
+    let bytesRead = 0;
+    while (bytesRead < length) {
+      const count = readSync(
+        this.fd,
+        buffer,
+        bytesRead,
+        length - bytesRead,
+        offset + bytesRead,
+      );
+      if (count === 0) {
+        throw new Error(`文件意外结束: 偏移 ${offset + bytesRead}`);
+      }
+      bytesRead += count;
+    }
+
+    return buffer;
+  }
+
+  /**
+   * 关闭文件描述符
+   */
+  close(): void {
+    if (this.fd !== null) {
+      closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+}
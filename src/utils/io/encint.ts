@@ -0,0 +1,79 @@
+/**
+ * ENCINT 变长整数工具
+ * CHM 目录和内部表使用的变长整数：每字节低 7 位为数据，
+ * 最高位为 1 表示后续还有字节，高位组在前。
+ * 全文索引（$FIftiMain）中的 ENCINT 则是低位组在前
+ */
+export class EncInt {
+  /**
+   * 从缓冲区读取一个 ENCINT
+   * @param data 数据缓冲区
+   * @param offset 起始偏移
+   * @returns 读取的数值和下一个字节的偏移
+   */
+  static read(
+    data: Buffer,
+    offset: number,
+  ): { value: number; nextOffset: number } {
+    let value = 0;
+    let currentOffset = offset;
+
+    while (currentOffset < data.length) {
+      const byte = data[currentOffset++]!;
+      value = value * 128 + (byte & 0x7f);
+
+      if ((byte & 0x80) === 0) {
+        return { value, nextOffset: currentOffset };
+      }
+    }
+
+    throw new Error(`ENCINT 超出数据范围: 偏移 ${offset}`);
+  }
+
+  /**
+   * 从缓冲区读取一个低位组在前的 ENCINT（全文索引使用）
+   * @param data 数据缓冲区
+   * @param offset 起始偏移
+   * @returns 读取的数值和下一个字节的偏移
+   */
+  static readLowFirst(
+    data: Buffer,
+    offset: number,
+  ): { value: number; nextOffset: number } {
+    let value = 0;
+    let scale = 1;
+    let currentOffset = offset;
+
+    while (currentOffset < data.length) {
+      const byte = data[currentOffset++]!;
+      value += (byte & 0x7f) * scale;
+      scale *= 128;
+
+      if ((byte & 0x80) === 0) {
+        return { value, nextOffset: currentOffset };
+      }
+    }
+
+    throw new Error(`ENCINT 超出数据范围: 偏移 ${offset}`);
+  }
+
+  /**
+   * 把数值编码为 ENCINT
+   * @param value 非负整数
+   * @returns 编码后的字节
+   */
+  static encode(value: number): Buffer {
+    if (!Number.isSafeInteger(value) || value < 0) {
+      throw new Error(`无效的 ENCINT 数值: ${value}`);
+    }
+
+    const bytes = [value % 128];
+    let remaining = Math.floor(value / 128);
+    while (remaining > 0) {
+      bytes.unshift(remaining % 128 | 0x80);
+      remaining = Math.floor(remaining / 128);
+    }
+
+    return Buffer.from(bytes);
+  }
+}
@@ -5,3 +5,11 @@
 
 export { BitReader } from './bit-reader';
 export { BinaryDataReader } from './binary-data-reader';
+export { LZXBitReader } from './lzx-bit-reader';
+export { LZXBitWriter } from './lzx-bit-writer';
+export { EncInt } from './encint';
+export {
+  BufferByteSource,
+  Uint8ArrayByteSource,
+  FileByteSource,
+} from './byte-source';
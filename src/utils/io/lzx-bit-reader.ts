@@ -0,0 +1,210 @@
+import type { BitReader as IBitReader } from '../../core/types';
+
+/**
+ * LZX 位读取器
+ * LZX 位流由 16 位小端序字组成，每个字内部按高位优先读取。
+ * 读取器维护一个 32 位的位缓冲区，每次按整字批量补充，
+ * 避免逐位访问底层缓冲区
+ */
+export class LZXBitReader implements IBitReader {
+  public buffer: Buffer;
+  private inputPosition: number; // 下一个待装入缓冲区的字的偏移
+  private bitBuffer: number; // 高位对齐的未读位
+  private bitsLeft: number; // 位缓冲区中的有效位数
+  private paddedBits: number; // 越过数据末尾后以 0 补齐的位数
+
+  constructor(buffer: Buffer, offset: number = 0) {
+    this.buffer = buffer;
+    this.inputPosition = offset;
+    this.bitBuffer = 0;
+    this.bitsLeft = 0;
+    this.paddedBits = 0;
+  }
+
+  /**
+   * 当前字的字节偏移
+   */
+  get position(): number {
+    return this.inputPosition - Math.ceil(this.bitsLeft / 16) * 2;
+  }
+
+  set position(offset: number) {
+    this.seekWord(offset);
+  }
+
+  /**
+   * 当前字内已读取的位数（0-15）
+   */
+  get bitPosition(): number {
+    return (16 - (this.bitsLeft % 16)) % 16;
+  }
+
+  set bitPosition(bits: number) {
+    this.seekWord(this.position);
+    if (bits > 0) {
+      this.read(bits);
+    }
+  }
+
+  /**
+   * 读取指定位数的数据
+   * @param bits 要读取的位数
+   * @returns 读取的数值
+   */
+  public read(bits: number): number {
+    if (bits <= 0 || bits > 32) {
+      throw new Error('Invalid bits count: must be between 1 and 32');
+    }
+
+    if (bits > 16) {
+      const high = this.read(bits - 16);
+      return high * 0x10000 + this.read(16);
+    }
+
+    if (this.bitsLeft < bits) {
+      this.refill();
+    }
+
+    const result = this.bitBuffer >>> (32 - bits);
+    this.bitBuffer = (this.bitBuffer << bits) >>> 0;
+    this.bitsLeft -= bits;
+
+    if (this.bitsLeft < this.paddedBits) {
+      throw new Error('End of buffer reached');
+    }
+
+    return result;
+  }
+
+  /**
+   * 预览指定位数的数据（不改变位置）
+   * 越过数据末尾的位按 0 返回
+   * @param bits 要预览的位数
+   * @returns 预览的数值
+   */
+  public peek(bits: number): number {
+    if (bits <= 0 || bits > 32) {
+      throw new Error('Invalid bits count: must be between 1 and 32');
+    }
+
+    if (bits > 16) {
+      const position = this.position;
+      const bitPosition = this.bitPosition;
+      const result = this.read(bits);
+      this.position = position;
+      this.bitPosition = bitPosition;
+      return result;
+    }
+
+    if (this.bitsLeft < bits) {
+      this.refill();
+    }
+
+    return this.bitBuffer >>> (32 - bits);
+  }
+
+  /**
+   * 跳过指定位数
+   * @param bits 要跳过的位数
+   */
+  public skip(bits: number): void {
+    if (bits <= this.bitsLeft) {
+      this.bitBuffer = bits === 32 ? 0 : (this.bitBuffer << bits) >>> 0;
+      this.bitsLeft -= bits;
+      if (this.bitsLeft < this.paddedBits) {
+        throw new Error('End of buffer reached');
+      }
+      return;
+    }
+
+    const totalBits = this.bitPosition + bits;
+    this.seekWord(this.position + Math.floor(totalBits / 16) * 2);
+    if (totalBits % 16 > 0) {
+      this.read(totalBits % 16);
+    }
+  }
+
+  /**
+   * 对齐到 16 位字边界
+   */
+  public align(): void {
+    const partial = this.bitsLeft % 16;
+    if (partial > 0) {
+      this.bitBuffer = (this.bitBuffer << partial) >>> 0;
+      this.bitsLeft -= partial;
+    }
+  }
+
+  /**
+   * 检查是否还有更多数据
+   * @returns 是否还有数据
+   */
+  public hasMore(): boolean {
+    return this.position < this.buffer.length;
+  }
+
+  /**
+   * 读取字节对齐的原始数据（用于未压缩块）
+   * @param length 要读取的字节数
+   * @returns 读取的数据
+   */
+  public readBytes(length: number): Buffer {
+    if (this.bitPosition !== 0) {
+      throw new Error('读取原始字节前位流必须对齐');
+    }
+
+    const start = this.position;
+    if (start + length > this.buffer.length) {
+      throw new Error('Not enough data to read');
+    }
+
+    this.seekWord(start + length);
+    return this.buffer.subarray(start, start + length);
+  }
+
+  /**
+   * 获取剩余字节数
+   * @returns 剩余字节数
+   */
+  public remainingBytes(): number {
+    return this.buffer.length - this.position;
+  }
+
+  /**
+   * 按整字补充位缓冲区，直到至少有 17 位可用
+   */
+  private refill(): void {
+    while (this.bitsLeft <= 16) {
+      if (this.inputPosition >= this.buffer.length) {
+        this.paddedBits += 16;
+      }
+
+      const word = this.readWord(this.inputPosition);
+      this.bitBuffer = (this.bitBuffer | (word << (16 - this.bitsLeft))) >>> 0;
+      this.inputPosition += 2;
+      this.bitsLeft += 16;
+    }
+  }
+
+  /**
+   * 定位到指定字节偏移并清空位缓冲区
+   * @param offset 字节偏移
+   */
+  private seekWord(offset: number): void {
+    this.inputPosition = offset;
+    this.bitBuffer = 0;
+    this.bitsLeft = 0;
+    this.paddedBits = 0;
+  }
+
+  /**
+   * 读取指定位置的 16 位小端序字，末尾不足的字节按 0 补齐
+   * @param offset 字节偏移
+   * @returns 16 位字
+   */
+  private readWord(offset: number): number {
+    const low = this.buffer[offset] ?? 0;
+    const high = this.buffer[offset + 1] ?? 0;
+    return low | (high << 8);
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * LZX 位写入器
+ * 与 LZXBitReader 对应：位按高位优先填入 16 位字，每个字以小端序输出
+ */
+export class LZXBitWriter {
+  private buffer: Buffer;
+  private outputPosition: number; // 已输出的字节数
+  private bitBuffer: number; // 低位对齐的待输出位
+  private bitCount: number; // 位缓冲区中的有效位数（0-15）
+
+  constructor(initialSize: number = 0x10000) {
+    this.buffer = Buffer.alloc(Math.max(initialSize, 2));
+    this.outputPosition = 0;
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+  }
+
+  /**
+   * 已输出的字节数（不含未满一个字的位）
+   */
+  get length(): number {
+    return this.outputPosition;
+  }
+
+  /**
+   * 当前字内已写入的位数（0-15）
+   */
+  get bitPosition(): number {
+    return this.bitCount;
+  }
+
+  /**
+   * 写入指定位数的数据
+   * @param value 数值
+   * @param bits 位数
+   */
+  write(value: number, bits: number): void {
+    if (bits <= 0) {
+      return;
+    }
+
+    if (bits > 32) {
+      throw new Error('Invalid bits count: must be between 1 and 32');
+    }
+
+    if (bits > 16) {
+      this.write(Math.floor(value / 0x10000), bits - 16);
+      this.write(value & 0xffff, 16);
+      return;
+    }
+
+    this.bitBuffer = (this.bitBuffer << bits) | (value & ((1 << bits) - 1));
+    this.bitCount += bits;
+
+    if (this.bitCount >= 16) {
+      this.bitCount -= 16;
+      this.writeWord((this.bitBuffer >>> this.bitCount) & 0xffff);
+      this.bitBuffer &= (1 << this.bitCount) - 1;
+    }
+  }
+
+  /**
+   * 以 0 填充到 16 位字边界
+   */
+  align(): void {
+    if (this.bitCount > 0) {
+      this.write(0, 16 - this.bitCount);
+    }
+  }
+
+  /**
+   * 对齐并返回已写入的数据
+   * @returns 位流数据
+   */
+  toBuffer(): Buffer {
+    this.align();
+    return Buffer.from(this.buffer.subarray(0, this.outputPosition));
+  }
+
+  /**
+   * 输出一个 16 位小端序字
+   * @param word 16 位字
+   */
+  private writeWord(word: number): void {
+    if (this.outputPosition + 2 > this.buffer.length) {
+      const grown = Buffer.alloc(this.buffer.length * 2);
+      this.buffer.copy(grown, 0, 0, this.outputPosition);
+      this.buffer = grown;
+    }
+
+    this.buffer[this.outputPosition++] = word & 0xff;
+    this.buffer[this.outputPosition++] = word >>> 8;
+  }
+}
@@ -0,0 +1,149 @@
+import { test } from 'uvu';
+import { equal, ok, throws } from 'uvu/assert';
+import { Huffman } from '../../src/utils/compression/huffman';
+import { BitReader } from '../../src/utils/io/bit-reader';
+import { LZXBitWriter } from '../../src/utils/io/lzx-bit-writer';
+import { LZXBitReader } from '../../src/utils/io/lzx-bit-reader';
+import type { PretreeCode } from '../../src/core/types';
+
+// Kraft 和为 1 表示码表是完整的前缀码
+function kraftSum(lengths: number[]): number {
+  return lengths.reduce(
+    (sum, length) => (length > 0 ? sum + 2 ** -length : sum),
+    0,
+  );
+}
+
+// 按 LZXDecoder 的规则还原预树符号序列
+function applyTreeDelta(previous: number[], codes: PretreeCode[]): number[] {
+  const lengths = previous.slice();
+  let i = 0;
+  for (let k = 0; k < codes.length; k++) {
+    const code = codes[k]!;
+    if (code.symbol === 17 || code.symbol === 18) {
+      const base = code.symbol === 17 ? 4 : 20;
+      for (let j = 0; j < base + code.extraValue; j++) {
+        lengths[i++] = 0;
+      }
+    } else if (code.symbol === 19) {
+      const delta = codes[++k]!.symbol;
+      const value = (lengths[i]! - delta + 17) % 17;
+      for (let j = 0; j < 4 + code.extraValue; j++) {
+        lengths[i++] = value;
+      }
+    } else {
+      lengths[i] = (lengths[i]! - code.symbol + 17) % 17;
+      i++;
+    }
+  }
+  return lengths;
+}
+
+test('Huffman.buildCodeLengths should build optimal lengths', () => {
+  const lengths = Huffman.buildCodeLengths([5, 9, 12, 13, 16, 45], 16);
+
+  equal(lengths, [4, 4, 3, 3, 3, 1]);
+  equal(kraftSum(lengths), 1);
+});
+
+test('Huffman.buildCodeLengths should respect the length limit', () => {
+  // 斐波那契频率的 Huffman 树深度为 n - 1，超过上限
+  const frequencies = [1, 1];
+  while (frequencies.length < 30) {
+    frequencies.push(
+      frequencies[frequencies.length - 1]! +
+        frequencies[frequencies.length - 2]!,
+    );
+  }
+
+  const unlimited = Huffman.buildCodeLengths(frequencies, 32);
+  equal(Math.max(...unlimited), 29);
+
+  const limited = Huffman.buildCodeLengths(frequencies, 16);
+  equal(Math.max(...limited), 16);
+  equal(kraftSum(limited), 1);
+
+  // 频率高的符号码长不应更长
+  for (let i = 1; i < limited.length; i++) {
+    ok(limited[i]! <= limited[i - 1]!);
+  }
+});
+
+test('Huffman.buildCodeLengths should handle degenerate inputs', () => {
+  equal(Huffman.buildCodeLengths([0, 0, 0], 16), [0, 0, 0]);
+  equal(Huffman.buildCodeLengths([0, 7, 0], 16), [0, 1, 0]);
+  equal(Huffman.buildCodeLengths([1, 1, 1, 1, 1], 3), [3, 3, 2, 2, 2]);
+  throws(() => Huffman.buildCodeLengths([1, 1, 1, 1, 1], 2), /码长/);
+});
+
+test('Huffman.createCodeTable should index canonical codes by symbol', () => {
+  const table = Huffman.createCodeTable([2, 1, 3, 3]);
+
+  equal(table.codes, [0b10, 0b0, 0b110, 0b111]);
+  equal(table.lengths, [2, 1, 3, 3]);
+});
+
+test('Huffman.encodeTreeDelta should run-length encode the delta', () => {
+  const previous = new Array(80).fill(0);
+  previous[10] = 4;
+  const current = new Array(80).fill(0);
+  current.fill(6, 0, 9); // 9 个相同码长 -> 19 + 19
+  current[9] = 2;
+  current.fill(8, 60, 63); // 3 个相同码长 -> 单个差值
+
+  const codes = Huffman.encodeTreeDelta(previous, current, 0, 80);
+  equal(
+    codes.map(code => code.symbol),
+    [19, 11, 19, 11, 15, 18, 9, 9, 9, 17],
+  );
+  equal(codes[0]!.extraValue, 1); // 5 个
+  equal(codes[2]!.extraValue, 0); // 4 个
+  equal(codes[5]!.extraValue, 50 - 20);
+  equal(codes[9]!.extraValue, 17 - 4);
+  equal(applyTreeDelta(previous, codes), current);
+
+  // 只编码指定区间
+  const tail = Huffman.encodeTreeDelta(previous, current, 60, 80);
+  equal(applyTreeDelta(previous.slice(60), tail), current.slice(60));
+});
+
+test('Huffman.decodeSymbol should decode codes longer than the primary table', () => {
+  // 斐波那契频率得到 1-16 位的码，长码落在溢出子表中
+  const frequencies = [1, 1];
+  while (frequencies.length < 17) {
+    frequencies.push(
+      frequencies[frequencies.length - 1]! +
+        frequencies[frequencies.length - 2]!,
+    );
+  }
+  const lengths = Huffman.buildCodeLengths(frequencies, 16);
+  const table = Huffman.createCodeTable(lengths);
+  const symbols = [0, 16, 1, 5, 15, 2, 0, 9, 16];
+
+  const writer = new LZXBitWriter();
+  for (const symbol of symbols) {
+    writer.write(table.codes[symbol]!, table.lengths[symbol]!);
+  }
+  const reader = new LZXBitReader(writer.toBuffer());
+  const tree = Huffman.createCanonicalTree(lengths);
+
+  equal(
+    symbols.map(() => Huffman.decodeSymbol(reader, tree)),
+    symbols,
+  );
+  ok(tree.table!.tableBits < tree.table!.maxLength);
+});
+
+test('Huffman.decodeSymbol should reject unused codes and exhausted input', () => {
+  // 只有一个码长为 1 的符号：码 1 无效
+  const tree = Huffman.createCanonicalTree([0, 1]);
+  const reader = new BitReader(Buffer.from([0b01000000]));
+
+  equal(Huffman.decodeSymbol(reader, tree), 1);
+  throws(() => Huffman.decodeSymbol(reader, tree), /Invalid Huffman code/);
+
+  const empty = new BitReader(Buffer.alloc(0));
+  throws(() => Huffman.decodeSymbol(empty, tree), /end of stream/);
+});
+
+test.run();
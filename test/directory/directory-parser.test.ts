@@ -0,0 +1,225 @@
+import { test } from 'uvu';
+import { equal } from 'uvu/assert';
+import { DirectoryParser } from '../../src/core/directory/directory-parser';
+import { BufferByteSource } from '../../src/utils/io/byte-source';
+import type { ITSPHeader } from '../../src/core/types';
+
+const CHUNK_SIZE = 0x100;
+
+// 编码 ENCINT
+function encint(value: number): number[] {
+  const bytes = [value & 0x7f];
+  value = Math.floor(value / 128);
+  while (value > 0) {
+    bytes.unshift((value & 0x7f) | 0x80);
+    value = Math.floor(value / 128);
+  }
+  return bytes;
+}
+
+// 构造一个 PMGL 块，quickRef 为 true 时按密度 2 写入 quickref 偏移
+function buildChunk(
+  entries: Array<[string, number, number, number]>,
+  prev: number,
+  next: number,
+  quickRef = false,
+): Buffer {
+  const chunk = Buffer.alloc(CHUNK_SIZE);
+  const body: number[] = [];
+  const offsets: number[] = [];
+  for (const [index, [name, section, offset, length]] of entries.entries()) {
+    if (quickRef && index > 0 && index % 5 === 0) {
+      offsets.push(body.length);
+    }
+    const nameBytes = Buffer.from(name, 'utf8');
+    body.push(...encint(nameBytes.length), ...nameBytes);
+    body.push(...encint(section), ...encint(offset), ...encint(length));
+  }
+
+  chunk.write('PMGL', 0, 'ascii');
+  chunk.writeUInt32LE(CHUNK_SIZE - 0x14 - body.length, 4);
+  chunk.writeInt32LE(prev, 12);
+  chunk.writeInt32LE(next, 16);
+  Buffer.from(body).copy(chunk, 0x14);
+  chunk.writeUInt16LE(entries.length, CHUNK_SIZE - 2);
+  offsets.forEach((offset, i) => {
+    chunk.writeUInt16LE(offset, CHUNK_SIZE - 4 - i * 2);
+  });
+  return chunk;
+}
+
+// 构造一个 PMGI 块
+function buildIndexChunk(entries: Array<[string, number]>): Buffer {
+  const chunk = Buffer.alloc(CHUNK_SIZE);
+  const body: number[] = [];
+  for (const [name, chunkIndex] of entries) {
+    const nameBytes = Buffer.from(name, 'utf8');
+    body.push(...encint(nameBytes.length), ...nameBytes, ...encint(chunkIndex));
+  }
+
+  chunk.write('PMGI', 0, 'ascii');
+  chunk.writeUInt32LE(CHUNK_SIZE - 0x08 - body.length, 4);
+  Buffer.from(body).copy(chunk, 0x08);
+  return chunk;
+}
+
+function createITSP(
+  chunkCount: number,
+  firstPMGL: number,
+  rootIndex = -1,
+): ITSPHeader {
+  return {
+    signature: 'ITSP',
+    version: 1,
+    headerLength: 0x54,
+    unknown1: 0x0a,
+    chunkSize: CHUNK_SIZE,
+    density: 2,
+    depth: rootIndex === -1 ? 1 : 2,
+    rootIndex,
+    firstPMGI: firstPMGL,
+    lastPMGI: chunkCount - 1,
+    unknown2: -1,
+    chunkCount,
+    languageId: 0x409,
+  };
+}
+
+test('DirectoryParser should decode ENCINT entries', () => {
+  const chunk = buildChunk(
+    [
+      ['/', 0, 0, 0],
+      ['/index.html', 1, 300, 70000],
+    ],
+    -1,
+    -1,
+  );
+  const { header, entries } = DirectoryParser.parseLeafChunk(chunk, 2);
+
+  equal(header.nextChunk, -1);
+  equal(entries.length, 2);
+  equal(entries[1], {
+    name: '/index.html',
+    isCompressed: true,
+    offset: 300,
+    length: 70000,
+    section: 1,
+  });
+});
+
+test('DirectoryParser should follow PMGL chunk links', () => {
+  // 块 1 是链表头，块 0 是链表尾
+  const directory = Buffer.concat([
+    buildChunk([['/b.html', 1, 10, 20]], 1, -1),
+    buildChunk([['/a.html', 0, 5, 6]], -1, 0),
+  ]);
+  const result = DirectoryParser.parse(
+    new BufferByteSource(directory),
+    0,
+    createITSP(2, 1),
+  );
+
+  equal(Array.from(result.entries.keys()), ['/a.html', '/b.html']);
+  equal(result.entries.get('/a.html')?.section, 0);
+});
+
+test('DirectoryParser should look up entries through PMGI index', () => {
+  const directory = Buffer.concat([
+    buildChunk(
+      [
+        ['/a.html', 0, 1, 2],
+        ['/b.html', 0, 3, 4],
+      ],
+      -1,
+      1,
+    ),
+    buildChunk(
+      [
+        ['/m.html', 1, 5, 6],
+        ['/z.html', 1, 7, 8],
+      ],
+      0,
+      -1,
+    ),
+    buildIndexChunk([
+      ['/a.html', 0],
+      ['/m.html', 1],
+    ]),
+  ]);
+  const result = DirectoryParser.parse(
+    new BufferByteSource(directory),
+    0,
+    createITSP(3, 0, 2),
+    true,
+  );
+
+  equal(result.lazy, true);
+  equal(result.entries.size, 0);
+  equal(DirectoryParser.findEntry(result, '/Z.HTML')?.offset, 7);
+  equal(DirectoryParser.findEntry(result, '/b.html')?.offset, 3);
+  equal(DirectoryParser.findEntry(result, '/c.html'), null);
+  equal(DirectoryParser.findEntry(result, '/0.html'), null);
+
+  // 展开后得到全部条目
+  equal(DirectoryParser.loadEntries(result).size, 4);
+  equal(result.lazy, false);
+});
+
+test('DirectoryParser should search within a PMGL chunk through quickref', () => {
+  const entries: Array<[string, number, number, number]> = [
+    '/a.html',
+    '/b.html',
+    '/C.html',
+    '/c.html',
+    '/d.html',
+    '/E.html',
+    '/e.html',
+    '/f.html',
+    '/g.html',
+    '/h.html',
+    '/i.html',
+    '/j.html',
+  ].map((name, i) => [name, 0, i, 1]);
+  const chunk = buildChunk(entries, -1, -1, true);
+  equal(DirectoryParser.parseLeafChunk(chunk, 2).quickRef, [55, 110]);
+
+  const result = DirectoryParser.parse(
+    new BufferByteSource(chunk),
+    0,
+    createITSP(1, 0),
+    true,
+  );
+  for (const [name, , offset] of entries) {
+    equal(DirectoryParser.findEntry(result, name)?.offset, offset);
+  }
+
+  // 大小写不同的同名条目跨越 quickref 组边界
+  equal(DirectoryParser.findEntry(result, '/E.HTML')?.offset, 5);
+  equal(DirectoryParser.findEntry(result, '/0.html'), null);
+  equal(DirectoryParser.findEntry(result, '/ee.html'), null);
+  equal(DirectoryParser.findEntry(result, '/z.html'), null);
+});
+
+test('DirectoryParser should scan the whole chunk when quickref is invalid', () => {
+  const chunk = buildChunk(
+    [
+      ['/a.html', 0, 1, 2],
+      ['/b.html', 0, 3, 4],
+    ],
+    -1,
+    -1,
+  );
+  // 条目数表明存在 quickref，但偏移超出条目区
+  chunk.writeUInt16LE(6, CHUNK_SIZE - 2);
+  chunk.writeUInt16LE(0xf0, CHUNK_SIZE - 4);
+
+  const result = DirectoryParser.parse(
+    new BufferByteSource(chunk),
+    0,
+    createITSP(1, 0),
+    true,
+  );
+  equal(DirectoryParser.findEntry(result, '/b.html')?.offset, 3);
+});
+
+test.run();
@@ -0,0 +1,326 @@
+import { test } from 'uvu';
+import { equal, ok } from 'uvu/assert';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CHMEncoder } from '../../src/encoder/chm-encoder';
+import { DataSpaceBuilder } from '../../src/encoder/builders/dataspace-builder';
+import { CHMKit } from '../../src/chm-kit';
+
+// 断言 Promise 被拒绝且错误信息匹配
+async function rejects(promise: Promise<unknown>, pattern: RegExp) {
+  try {
+    await promise;
+  } catch (error) {
+    ok(pattern.test(String(error)), String(error));
+    return;
+  }
+  ok(false, '应当抛出错误');
+}
+
+// 创建包含子目录和大量页面的输入目录
+async function createProject(dir: string, pages: number): Promise<void> {
+  await fs.mkdir(join(dir, 'pages'), { recursive: true });
+  await fs.writeFile(
+    join(dir, 'index.html'),
+    '<html><head><title>Home</title></head><body>Home</body></html>',
+  );
+  for (let i = 0; i < pages; i++) {
+    await fs.writeFile(
+      join(dir, 'pages', `page-${i}.html`),
+      `<html><head><title>Page ${i}</title></head><body>${'text '.repeat(i)}</body></html>`,
+    );
+  }
+}
+
+test('DataSpaceBuilder.serializeNameList should write UTF-16 section names', () => {
+  const nameList = DataSpaceBuilder.serializeNameList([
+    'Uncompressed',
+    'MSCompressed',
+  ]);
+
+  equal(nameList.length, 60);
+  equal(nameList.readUInt16LE(0), 30); // 以 WORD 为单位的长度
+  equal(nameList.readUInt16LE(2), 2);
+  equal(nameList.readUInt16LE(4), 12);
+  equal(nameList.toString('utf16le', 6, 30), 'Uncompressed');
+  equal(nameList.readUInt16LE(30), 0);
+});
+
+test('CHMEncoder should write a two-section layout readable by CHMKit', async () => {
+  const dir = await fs.mkdtemp(join(tmpdir(), 'chm-encoder-'));
+  try {
+    const inputDir = join(dir, 'input');
+    const outputPath = join(dir, 'out.chm');
+    await createProject(inputDir, 300);
+
+    await new CHMEncoder().encode({ inputDir, outputPath });
+    const data = await fs.readFile(outputPath);
+
+    // ITSF 段表：头部段 0、目录和内容段 0 依次相连
+    equal(Number(data.readBigUInt64LE(56)), 96);
+    equal(Number(data.readBigUInt64LE(72)), 96 + 0x18);
+    equal(
+      Number(data.readBigUInt64LE(88)),
+      96 + 0x18 + Number(data.readBigUInt64LE(80)),
+    );
+    equal(data.readUInt32LE(96), 0x01fe);
+    equal(Number(data.readBigUInt64LE(104)), data.length);
+
+    const parsed = await CHMKit.parse(outputPath);
+    equal(
+      parsed.sections.map(section => section.name),
+      ['Uncompressed', 'MSCompressed'],
+    );
+    ok(parsed.header.itsp.chunkCount > 1);
+
+    const files = await CHMKit.listFiles(outputPath);
+    ok(files.includes('/index.html'));
+    ok(files.includes('/pages/page-299.html'));
+    ok(files.includes('::DataSpace/Storage/MSCompressed/SpanInfo'));
+
+    for (const name of [
+      'index.html',
+      'pages/page-0.html',
+      'pages/page-299.html',
+    ]) {
+      const content = await CHMKit.readFile(outputPath, `/${name}`);
+      ok(content.equals(await fs.readFile(join(inputDir, name))));
+    }
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('CHMEncoder should write #SYSTEM and topic tables', async () => {
+  const dir = await fs.mkdtemp(join(tmpdir(), 'chm-encoder-'));
+  try {
+    const inputDir = join(dir, 'input');
+    const outputPath = join(dir, 'guide.chm');
+    await createProject(inputDir, 3);
+
+    await new CHMEncoder().encode({
+      inputDir,
+      outputPath,
+      title: 'User Guide',
+    });
+
+    const { metadata } = await CHMKit.getInfo(outputPath);
+    equal(metadata?.title, 'User Guide');
+    equal(metadata?.defaultTopic, 'index.html');
+    equal(metadata?.toc, 'Table of Contents.hhc');
+    equal(metadata?.lcid, 0x409);
+
+    const topics = await CHMKit.getTopics(outputPath);
+    equal(
+      topics.map(topic => [topic.title, topic.local]),
+      [
+        ['Home', 'index.html'],
+        ['Page 0', 'pages/page-0.html'],
+        ['Page 1', 'pages/page-1.html'],
+        ['Page 2', 'pages/page-2.html'],
+      ],
+    );
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('CHMEncoder should write sitemaps that read back with non-ASCII titles', async () => {
+  const dir = await fs.mkdtemp(join(tmpdir(), 'chm-encoder-'));
+  try {
+    const inputDir = join(dir, 'input');
+    const outputPath = join(dir, 'out.chm');
+    await fs.mkdir(inputDir);
+    await fs.writeFile(
+      join(inputDir, 'index.html'),
+      '<html><head><title>首页</title></head><body>内容</body></html>',
+    );
+
+    await new CHMEncoder().encode({ inputDir, outputPath });
+
+    const toc = await CHMKit.getTOC(outputPath);
+    equal(
+      toc.map(entry => [entry.name, entry.local]),
+      [['首页', 'index.html']],
+    );
+    const index = await CHMKit.getIndex(outputPath);
+    equal(index[0]?.name, '首页');
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('CHMEncoder should pick a language that can encode the titles', async () => {
+  const dir = await fs.mkdtemp(join(tmpdir(), 'chm-encoder-'));
+  const pack = async (title: string, language?: number) => {
+    const inputDir = join(dir, 'input');
+    const outputPath = join(dir, 'out.chm');
+    await fs.rm(inputDir, { recursive: true, force: true });
+    await fs.mkdir(inputDir);
+    await fs.writeFile(
+      join(inputDir, 'index.html'),
+      `<html><head><title>${title}</title></head><body></body></html>`,
+    );
+    await new CHMEncoder().encode({
+      inputDir,
+      outputPath,
+      ...(language !== undefined && { language }),
+    });
+    return outputPath;
+  };
+
+  try {
+    let outputPath = await pack('首页');
+    equal((await CHMKit.getInfo(outputPath)).metadata?.lcid, 0x804);
+    equal((await CHMKit.getInfo(outputPath)).metadata?.title, '首页');
+    equal((await CHMKit.getTopics(outputPath))[0]?.title, '首页');
+
+    outputPath = await pack('はじめに');
+    equal((await CHMKit.getInfo(outputPath)).metadata?.lcid, 0x411);
+
+    outputPath = await pack('Übersicht');
+    equal((await CHMKit.getInfo(outputPath)).metadata?.lcid, 0x409);
+
+    outputPath = await pack('Обзор', 0x419);
+    equal((await CHMKit.getTopics(outputPath))[0]?.title, 'Обзор');
+
+    // 无法编码的字符报错，而不是写成 ?
+    await rejects(pack('首页', 0x409), /首页/);
+    await rejects(pack('中文 Ünïcode'), /language/);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('CHMKit.pack should compile an .hhp project with its own sitemap files', async () => {
+  const dir = await fs.mkdtemp(join(tmpdir(), 'chm-encoder-'));
+  try {
+    const outputPath = join(dir, 'test.chm');
+    const result = await CHMKit.pack(
+      join('test', 'sample-chm', 'project.hhp'),
+      outputPath,
+    );
+    ok(result.success, result.message);
+
+    // 只打包项目列出的文件，不生成目录和索引
+    const files = await CHMKit.listFiles(outputPath);
+    ok(files.includes('/index.html'));
+    ok(files.includes('/style.css'));
+    ok(files.includes('/toc.hhc'));
+    ok(files.includes('/index.hhk'));
+    ok(!files.includes('/project.hhp'));
+    ok(!files.includes('/Table of Contents.hhc'));
+
+    const { metadata } = await CHMKit.getInfo(outputPath);
+    equal(metadata?.title, 'CHM 测试文件');
+    equal(metadata?.defaultTopic, 'index.html');
+    equal(metadata?.toc, 'toc.hhc');
+    equal(metadata?.index, 'index.hhk');
+    equal(metadata?.lcid, 0x804);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('CHMEncoder should expand wildcards and reject missing project files', async () => {
+  const dir = await fs.mkdtemp(join(tmpdir(), 'chm-encoder-'));
+  try {
+    const inputDir = join(dir, 'input');
+    const projectFile = join(inputDir, 'help.hhp');
+    await createProject(inputDir, 3);
+    await fs.writeFile(
+      projectFile,
+      '[OPTIONS]\r\nTitle=Guide\r\n\r\n[FILES]\r\nindex.html\r\npages\\*.HTML\r\n',
+    );
+
+    const outputPath = join(dir, 'guide.chm');
+    await new CHMEncoder().encode({ inputDir, outputPath, projectFile });
+    const files = await CHMKit.listFiles(outputPath);
+    ok(files.includes('/pages/page-2.html'));
+    ok(!files.includes('/help.hhp'));
+    equal((await CHMKit.getInfo(outputPath)).metadata?.title, 'Guide');
+
+    await fs.appendFile(projectFile, 'missing.html\r\n');
+    const result = await CHMKit.pack(projectFile, outputPath);
+    equal(result.success, false);
+    ok(result.message.includes('missing.html'));
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('CHMKit.resolveContextId should follow [MAP] and [ALIAS] of a packed project', async () => {
+  const dir = await fs.mkdtemp(join(tmpdir(), 'chm-encoder-'));
+  try {
+    const inputDir = join(dir, 'input');
+    const projectFile = join(inputDir, 'help.hhp');
+    await createProject(inputDir, 2);
+    // Visual C++ 生成的资源头文件，只有被 [ALIAS] 引用的名称写入 #IVB
+    await fs.writeFile(
+      join(inputDir, 'context.h'),
+      [
+        '//{{NO_DEPENDENCIES}}',
+        '// Microsoft Visual C++ generated include file.',
+        '// Used by App.rc',
+        '//',
+        '#define IDC_STATIC                      (-1)',
+        '#define IDD_ABOUTBOX                    100',
+        '#define IDH_HOME                        (1000)',
+        '#define IDH_PAGE                        0x3E9     // page 1',
+        '#define IDH_NEXT                        (IDH_PAGE + 1)',
+        '',
+        '#ifdef APSTUDIO_INVOKED',
+        '#ifndef APSTUDIO_READONLY_SYMBOLS',
+        '#define _APS_NEXT_RESOURCE_VALUE        129',
+        '#define _APS_NEXT_CONTROL_VALUE         1000',
+        '#endif',
+        '#endif',
+      ].join('\r\n'),
+    );
+    await fs.writeFile(
+      projectFile,
+      [
+        '[FILES]',
+        'index.html',
+        'pages\\page-1.html',
+        '',
+        '[ALIAS]',
+        'IDH_HOME=index.html',
+        'IDH_PAGE=Pages\\page-1.html',
+        '',
+        '[MAP]',
+        '#include context.h',
+        '',
+      ].join('\r\n'),
+    );
+
+    const outputPath = join(dir, 'help.chm');
+    ok((await CHMKit.pack(projectFile, outputPath)).success);
+
+    equal(await CHMKit.resolveContextId(outputPath, 1000), 'index.html');
+    equal(await CHMKit.resolveContextId(outputPath, 1001), 'Pages/page-1.html');
+    equal(await CHMKit.resolveContextId(outputPath, 1002), undefined);
+    equal(await CHMKit.resolveContextId(outputPath, 100), undefined);
+
+    // 主题标题与上下文映射共用 #STRINGS
+    const topics = await CHMKit.getTopics(outputPath);
+    equal(topics[0]?.title, 'Home');
+
+    // [ALIAS] 指向未打包的文件时报错，而不是丢弃映射
+    await fs.appendFile(
+      projectFile,
+      '[ALIAS]\r\nIDH_MISSING=pages\\page-0.html\r\n',
+    );
+    const result = await CHMKit.pack(projectFile, outputPath);
+    equal(result.success, false);
+    ok(
+      result.message.includes('IDH_MISSING=pages/page-0.html'),
+      result.message,
+    );
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test.run();
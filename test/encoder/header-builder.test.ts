@@ -0,0 +1,153 @@
+import { test } from 'uvu';
+import { equal, ok, throws } from 'uvu/assert';
+import { CHMHeaderBuilder } from '../../src/encoder/builders/header-builder';
+import { DirectoryParser } from '../../src/core/directory/directory-parser';
+import { ITSPHeaderParser } from '../../src/core/headers/itsp-header';
+import { ITSFHeaderParser } from '../../src/core/headers/itsf-header';
+import { BufferByteSource } from '../../src/utils/io/byte-source';
+import { EncInt } from '../../src/utils/io/encint';
+import { BitReader } from '../../src/utils/io/bit-reader';
+import type { DirectoryEntry } from '../../src/core/types';
+
+// 生成大小写混合的文件条目
+function createEntries(count: number): DirectoryEntry[] {
+  const entries: DirectoryEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    entries.push({
+      name: `/${i % 3 === 0 ? 'Topics' : 'pages'}/page-${i}.html`,
+      isCompressed: true,
+      offset: i * 1000,
+      length: 200 + i,
+      section: 1,
+    });
+  }
+  return entries;
+}
+
+test('EncInt.encode should round trip through EncInt.read', () => {
+  for (const value of [0, 1, 127, 128, 16383, 16384, 0x7fffffff, 2 ** 40]) {
+    const encoded = EncInt.encode(value);
+    equal(EncInt.read(encoded, 0), {
+      value,
+      nextOffset: encoded.length,
+    });
+  }
+  equal(Array.from(EncInt.encode(300)), [0x82, 0x2c]);
+  throws(() => EncInt.encode(-1), /ENCINT/);
+});
+
+test('CHMHeaderBuilder.serializeITSFHeader should parse back with ITSFHeaderParser', () => {
+  const header = CHMHeaderBuilder.createITSFHeader({
+    directoryOffset: 0x78,
+    directoryLength: 0x1054,
+    languageId: 0x804,
+    timestamp: 0x12345678,
+  });
+  const parsed = ITSFHeaderParser.parse(
+    new BitReader(CHMHeaderBuilder.serializeITSFHeader(header)),
+  );
+
+  equal(parsed, header);
+  equal(parsed.timestamp, 0x12345678);
+});
+
+test('CHMHeaderBuilder.serializeDirectory should write a single sorted PMGL chunk', () => {
+  const { header, data } = CHMHeaderBuilder.serializeDirectory([
+    { name: '/b.html', isCompressed: true, offset: 10, length: 5, section: 1 },
+    { name: '/A.html', isCompressed: true, offset: 0, length: 10, section: 1 },
+    { name: '/', isCompressed: false, offset: 0, length: 0, section: 0 },
+  ]);
+
+  equal(header.depth, 1);
+  equal(header.rootIndex, -1);
+  equal(header.chunkCount, 1);
+  equal(data.length, 84 + header.chunkSize);
+  equal(ITSPHeaderParser.parse(new BitReader(data)), header);
+
+  const chunk = data.subarray(84);
+  const { header: chunkHeader, entries } = DirectoryParser.parseLeafChunk(
+    chunk,
+    header.density,
+  );
+  equal(chunkHeader.prevChunk, -1);
+  equal(chunkHeader.nextChunk, -1);
+  equal(
+    entries.map(entry => entry.name),
+    ['/', '/A.html', '/b.html'],
+  );
+});
+
+test('CHMHeaderBuilder.serializeDirectory should build PMGI levels for large directories', () => {
+  // 小块使索引超过一个 PMGI 块，需要两级索引
+  const entries = createEntries(3000);
+  const { header, data } = CHMHeaderBuilder.serializeDirectory(entries, {
+    chunkSize: 0x200,
+  });
+
+  ok(header.lastPMGI > 0);
+  ok(header.depth >= 3);
+  equal(header.rootIndex, header.chunkCount - 1);
+  equal(data.length, 84 + header.chunkCount * header.chunkSize);
+
+  const source = new BufferByteSource(data);
+  const directory = DirectoryParser.parse(source, 84, header);
+  equal(directory.entries.size, entries.length);
+
+  // 链表顺序即排序顺序，quickref 偏移指向条目边界
+  const names = Array.from(directory.entries.keys());
+  const sorted = names
+    .slice()
+    .sort((a, b) => (a.toLowerCase() < b.toLowerCase() ? -1 : 1));
+  equal(names, sorted);
+
+  const first = data.subarray(84, 84 + header.chunkSize);
+  const { quickRef, entries: firstEntries } = DirectoryParser.parseLeafChunk(
+    first,
+    header.density,
+  );
+  ok(quickRef.length > 0);
+  const prefix = Buffer.concat(
+    firstEntries.slice(0, 5).map(entry => {
+      const name = Buffer.from(entry.name);
+      return Buffer.concat([
+        EncInt.encode(name.length),
+        name,
+        EncInt.encode(entry.section),
+        EncInt.encode(entry.offset),
+        EncInt.encode(entry.length),
+      ]);
+    }),
+  );
+  equal(quickRef[0], prefix.length);
+
+  // 通过 PMGI 根块逐级查找
+  const lazy = DirectoryParser.parse(source, 84, header, true);
+  for (const entry of [entries[0]!, entries[1234]!, entries[2999]!]) {
+    equal(DirectoryParser.findEntry(lazy, entry.name), entry);
+  }
+  equal(DirectoryParser.findEntry(lazy, '/missing.html'), null);
+});
+
+test('CHMHeaderBuilder.serializeDirectory should reject invalid entries', () => {
+  const entry: DirectoryEntry = {
+    name: '/a.html',
+    isCompressed: true,
+    offset: 0,
+    length: 1,
+    section: 1,
+  };
+  throws(
+    () => CHMHeaderBuilder.serializeDirectory([entry, { ...entry }]),
+    /重复/,
+  );
+  throws(
+    () =>
+      CHMHeaderBuilder.serializeDirectory(
+        [{ ...entry, name: `/${'x'.repeat(600)}` }],
+        { chunkSize: 0x200 },
+      ),
+    /过长/,
+  );
+});
+
+test.run();
@@ -0,0 +1,134 @@
+import { test } from 'uvu';
+import { equal, ok, throws } from 'uvu/assert';
+import { SystemFileBuilder } from '../../src/encoder/builders/system-file-builder';
+import { TopicTableBuilder } from '../../src/encoder/builders/topic-table-builder';
+import { StringTableBuilder } from '../../src/encoder/builders/string-table-builder';
+import { ContextMapBuilder } from '../../src/encoder/builders/context-map-builder';
+import { SystemFileParser } from '../../src/core/internal/system-file';
+import { TopicTable } from '../../src/core/internal/topic-table';
+import { ContextMap } from '../../src/core/internal/context-map';
+import type { SystemFile, TopicEntry } from '../../src/core/types';
+
+test('SystemFileBuilder output should parse back with SystemFileParser', () => {
+  const system: SystemFile = {
+    version: 3,
+    contentsFile: 'toc.hhc',
+    indexFile: 'index.hhk',
+    defaultTopic: 'index.html',
+    title: '示例帮助',
+    lcid: 0x0804,
+    fullTextSearch: true,
+    timestamp: new Date('2024-05-06T07:08:09.000Z'),
+    compiledFile: 'sample',
+    compilerVersion: 'chmkit 1.0.0',
+  };
+
+  const data = SystemFileBuilder.build(system);
+  equal(data.readUInt32LE(0), 3);
+  equal(SystemFileParser.parse(data), {
+    ...system,
+    dbcs: false,
+    hasKLinks: false,
+    hasALinks: false,
+  });
+});
+
+test('StringTableBuilder should deduplicate strings and keep them inside blocks', () => {
+  const strings = new StringTableBuilder('utf-8', 16);
+
+  equal(strings.add(''), 0);
+  equal(strings.add('abcdef'), 1);
+  equal(strings.add('abcdef'), 1);
+  equal(strings.add('0123456789'), 16); // 跨越 16 字节边界，移到下一块
+
+  const data = strings.toBuffer();
+  equal(data.length, 27);
+  equal(data.toString('latin1', 16, 26), '0123456789');
+});
+
+test('TopicTableBuilder output should parse back with TopicTable', () => {
+  const topics: TopicEntry[] = [];
+  for (let index = 0; index < 400; index++) {
+    topics.push({
+      index,
+      title: index % 100 === 0 ? '' : `主题 ${index}`,
+      local: `pages/page-${index}.html`,
+    });
+  }
+  topics.push({
+    index: 400,
+    title: 'External',
+    local: 'external.html',
+    url: 'https://example.com/',
+  });
+
+  const strings = new StringTableBuilder('gbk', 0x1000);
+  const files = TopicTableBuilder.build(topics, strings);
+
+  // 超过 341 项时 #URLTBL 使用第二个 4KB 块
+  ok(files.urlTable.length > 0x1000);
+  equal(files.topics.readUInt32LE(341 * 16 + 8), 0x1000);
+
+  const table = TopicTable.parse({
+    ...files,
+    strings: strings.toBuffer(),
+    encoding: 'gbk',
+  });
+  equal(table.getTopics(), topics);
+  equal(table.findByLocal('/pages/page-7.html')?.title, '主题 7');
+});
+
+test('ContextMapBuilder should write mapped aliases sorted by context ID', () => {
+  const strings = new StringTableBuilder();
+  strings.add('intro.htm');
+
+  const ivb = ContextMapBuilder.build(
+    { IDH_SETUP: 2000, IDH_INTRO: 1000, IDH_UNALIASED: 3000 },
+    {
+      IDH_INTRO: 'intro.htm',
+      IDH_SETUP: 'html/setup.htm',
+      IDH_UNUSED: 'x.htm',
+    },
+    strings,
+    ['intro.htm', 'html\\setup.htm', 'x.htm'],
+  );
+
+  equal(ivb?.readUInt32LE(0), 16);
+  const map = ContextMap.parse({ ivb: ivb!, strings: strings.toBuffer() });
+  equal(map.getEntries(), [
+    { id: 1000, local: 'intro.htm' },
+    { id: 2000, local: 'html/setup.htm' },
+  ]);
+  equal(ContextMapBuilder.build({}, {}, strings, []), undefined);
+});
+
+test('ContextMapBuilder should reject aliases to files that are not packed', () => {
+  const strings = new StringTableBuilder();
+  const files = ['intro.htm', 'html/setup.htm'];
+
+  // 路径不区分大小写，锚点和带协议的地址不检查
+  ok(
+    ContextMapBuilder.build(
+      { IDH_INTRO: 1000, IDH_SETUP: 1001, IDH_WEB: 1002 },
+      {
+        IDH_INTRO: 'Intro.htm#top',
+        IDH_SETUP: 'HTML/setup.htm',
+        IDH_WEB: 'https://example.com/help',
+      },
+      strings,
+      files,
+    ),
+  );
+  throws(
+    () =>
+      ContextMapBuilder.build(
+        { IDH_MISSING: 1000 },
+        { IDH_MISSING: 'html/missing.htm' },
+        strings,
+        files,
+      ),
+    /IDH_MISSING=html\/missing\.htm/,
+  );
+});
+
+test.run();
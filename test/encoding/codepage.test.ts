@@ -0,0 +1,62 @@
+import { test } from 'uvu';
+import { equal } from 'uvu/assert';
+import { Codepage } from '../../src/utils/encoding/codepage';
+
+// "中文" 的 GBK 编码
+const GBK = Buffer.from([0xd6, 0xd0, 0xce, 0xc4]);
+
+test('Codepage should map LCIDs to ANSI codepages', () => {
+  equal(Codepage.fromLCID(0x0804), 936);
+  equal(Codepage.fromLCID(0x0404), 950);
+  equal(Codepage.fromLCID(0x0411), 932);
+  equal(Codepage.fromLCID(0x0412), 949);
+  equal(Codepage.fromLCID(0x0419), 1251);
+  equal(Codepage.fromLCID(0x0c1a), 1251);
+  equal(Codepage.fromLCID(0x041a), 1250);
+  equal(Codepage.fromLCID(0x0409), 1252);
+  equal(Codepage.fromLCID(0x7fff), 1252);
+  equal(Codepage.charsetForLCID(0x0804), 'gbk');
+});
+
+test('Codepage should prefer UTF-8 names and fall back to the charset', () => {
+  equal(
+    Codepage.decodeName(Buffer.from('/中文.htm', 'utf8'), 'gbk'),
+    '/中文.htm',
+  );
+  equal(Codepage.decodeName(GBK, 'gbk'), '中文');
+  equal(Codepage.decode(GBK, 'no-such-charset').length > 0, true);
+});
+
+test('Codepage should let <meta charset> override the LCID charset', () => {
+  const declared = Buffer.concat([
+    Buffer.from('<meta charset="utf-8"><p>', 'latin1'),
+    Buffer.from('中文', 'utf8'),
+  ]);
+
+  equal(Codepage.detectCharset(declared), 'utf-8');
+  equal(Codepage.decodeHTML(declared, 'gbk').endsWith('中文'), true);
+  equal(Codepage.decodeHTML(GBK, 'gbk'), '中文');
+  equal(Codepage.decodeHTML(Buffer.from([0x63, 0xe9])), 'cé');
+});
+
+test('Codepage.encode should invert decoding for ANSI codepages', () => {
+  equal(Codepage.encode('中文', 'gbk'), GBK);
+  equal(Codepage.encode('cé', 'windows-1252'), Buffer.from([0x63, 0xe9]));
+  equal(
+    Codepage.decode(Codepage.encode('日本語', 'shift_jis'), 'shift_jis'),
+    '日本語',
+  );
+
+  // 代码页中不存在的字符写为 ?
+  equal(Codepage.encode('a中', 'windows-1252'), Buffer.from('a?'));
+  equal(Codepage.encode('中文', 'utf-8'), Buffer.from('中文', 'utf8'));
+});
+
+test('Codepage.canEncode should report characters missing from a codepage', () => {
+  equal(Codepage.canEncode('Ünïcode', 'windows-1252'), true);
+  equal(Codepage.canEncode('中文 Ünïcode', 'windows-1252'), false);
+  equal(Codepage.canEncode('中文', 'gbk'), true);
+  equal(Codepage.canEncode('中文 Ünïcode', 'utf-8'), true);
+});
+
+test.run();
@@ -0,0 +1,84 @@
+import { test } from 'uvu';
+import { equal, throws } from 'uvu/assert';
+import { FileReconstructor } from '../../src/core/files/file-reconstructor';
+import { BufferByteSource } from '../../src/utils/io/byte-source';
+import type {
+  ContentSection,
+  DirectoryEntry,
+  ParsedCHM,
+} from '../../src/core/types';
+
+// 内容段 0 从偏移 4 开始，段 1 的内容流从偏移 12 开始
+const DATA = Buffer.from('....helloraw!data', 'ascii');
+
+function createParsedCHM(
+  entries: DirectoryEntry[],
+  sections: ContentSection[],
+): ParsedCHM {
+  return {
+    header: {} as ParsedCHM['header'],
+    directory: {
+      entries: new Map(entries.map(entry => [entry.name, entry])),
+      rootPath: '/',
+    },
+    sections,
+    resetTable: {} as ParsedCHM['resetTable'],
+    contentOffset: 4,
+    compressedOffset: 0,
+    compressedLength: 0,
+  };
+}
+
+function entry(name: string, section: number, offset: number, length: number) {
+  return { name, section, offset, length, isCompressed: section !== 0 };
+}
+
+test('FileReconstructor should dispatch reads by section', () => {
+  const parsedCHM = createParsedCHM(
+    [entry('/a.txt', 0, 0, 5), entry('/b.txt', 1, 0, 4)],
+    [
+      { index: 0, name: 'Uncompressed', transforms: [], offset: 4, length: 13 },
+      { index: 1, name: 'Plain', transforms: [], offset: 13, length: 4 },
+    ],
+  );
+  const source = new BufferByteSource(DATA);
+  const reconstructor = new FileReconstructor(parsedCHM);
+
+  equal(
+    reconstructor.reconstructFile('/a.txt', source).data.toString(),
+    'hello',
+  );
+  equal(
+    reconstructor.reconstructFile('/b.txt', source).data.toString(),
+    'data',
+  );
+});
+
+test('FileReconstructor should name the section of an unknown transform', () => {
+  const parsedCHM = createParsedCHM(
+    [entry('/a.txt', 1, 0, 1), entry('/b.txt', 2, 0, 1)],
+    [
+      { index: 0, name: 'Uncompressed', transforms: [], offset: 4, length: 13 },
+      {
+        index: 1,
+        name: 'Encrypted',
+        transforms: ['{00000000-0000-0000-0000-000000000000}'],
+        offset: 4,
+        length: 1,
+      },
+    ],
+  );
+  const source = new BufferByteSource(DATA);
+  const reconstructor = new FileReconstructor(parsedCHM);
+
+  throws(
+    () => reconstructor.reconstructFile('/a.txt', source),
+    /内容段 1 \(Encrypted\)/,
+  );
+  throws(
+    () => reconstructor.reconstructFile('/b.txt', source),
+    /未知的内容段: 2/,
+  );
+});
+
+test.run();
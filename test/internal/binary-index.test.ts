@@ -0,0 +1,109 @@
+import { test } from 'uvu';
+import { equal, throws } from 'uvu/assert';
+import { BinaryIndexReader } from '../../src/core/internal/binary-index';
+import { TopicTable } from '../../src/core/internal/topic-table';
+
+const BLOCK_SIZE = 0x100;
+
+const topics = new TopicTable([
+  { index: 0, title: 'Colors', local: 'colors.htm' },
+  { index: 1, title: 'Dark colors', local: 'dark.htm' },
+  { index: 2, title: 'Palette', local: 'palette.htm' },
+]);
+
+function utf16(value: string): Buffer {
+  return Buffer.from(`${value}\0`, 'utf16le');
+}
+
+function dwords(...values: number[]): Buffer {
+  const data = Buffer.alloc(values.length * 4);
+  values.forEach((value, i) => data.writeInt32LE(value, i * 4));
+  return data;
+}
+
+// 构造一条列表块记录
+function record(
+  keyword: string,
+  depth: number,
+  nameOffset: number,
+  target: number[] | string,
+  counter: number,
+): Buffer {
+  const fields = Buffer.alloc(16);
+  fields.writeUInt16LE(typeof target === 'string' ? 2 : 0, 0);
+  fields.writeUInt16LE(depth, 2);
+  fields.writeUInt32LE(nameOffset, 4);
+  fields.writeUInt32LE(typeof target === 'string' ? 1 : target.length, 12);
+  return Buffer.concat([
+    utf16(keyword),
+    fields,
+    typeof target === 'string' ? utf16(target) : dwords(...target),
+    dwords(1, counter),
+  ]);
+}
+
+// 构造列表块
+function listingBlock(records: Buffer[], prev: number, next: number): Buffer {
+  const block = Buffer.alloc(BLOCK_SIZE);
+  block.writeUInt16LE(records.length, 2);
+  block.writeInt32LE(prev, 4);
+  block.writeInt32LE(next, 8);
+  Buffer.concat(records).copy(block, 0x0c);
+  return block;
+}
+
+function buildBTree(blocks: Buffer[], lastListingBlock: number): Buffer {
+  const header = Buffer.alloc(0x4c);
+  header.writeUInt16LE(0x293b, 0);
+  header.writeUInt16LE(2, 2);
+  header.writeUInt16LE(BLOCK_SIZE, 4);
+  header.write('X44', 6, 'ascii');
+  header.writeInt32LE(lastListingBlock, 0x16);
+  header.writeInt32LE(-1, 0x1a);
+  header.writeInt32LE(blocks.length, 0x22);
+  return Buffer.concat([header, ...blocks]);
+}
+
+test('BinaryIndexReader should follow listing blocks and nest sub-keywords', () => {
+  // 块 1 是链表头，块 0 是链表尾
+  const btree = buildBTree(
+    [
+      listingBlock([record('hues', 0, 0, 'colors', 2)], 1, -1),
+      listingBlock(
+        [
+          record('colors', 0, 0, [0, 2], 0),
+          record('colors, dark', 1, 8, [1], 1),
+        ],
+        -1,
+        0,
+      ),
+    ],
+    0,
+  );
+
+  equal(BinaryIndexReader.parse(btree, topics), [
+    {
+      name: 'colors',
+      local: 'colors.htm',
+      topics: [
+        { name: 'Colors', local: 'colors.htm' },
+        { name: 'Palette', local: 'palette.htm' },
+      ],
+      children: [
+        {
+          name: 'dark',
+          local: 'dark.htm',
+          topics: [{ name: 'Dark colors', local: 'dark.htm' }],
+        },
+      ],
+    },
+    { name: 'hues', local: '', seeAlso: 'colors' },
+  ]);
+});
+
+test('BinaryIndexReader should reject invalid BTree headers', () => {
+  throws(() => BinaryIndexReader.parse(Buffer.alloc(0x10), topics), /过短/);
+  throws(() => BinaryIndexReader.parse(Buffer.alloc(0x4c), topics), /签名/);
+});
+
+test.run();
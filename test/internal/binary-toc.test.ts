@@ -0,0 +1,68 @@
+import { test } from 'uvu';
+import { equal } from 'uvu/assert';
+import { BinaryTOCReader } from '../../src/core/internal/binary-toc';
+import { TopicTable } from '../../src/core/internal/topic-table';
+
+const topics = new TopicTable([
+  { index: 0, title: 'Introduction', local: 'intro.htm' },
+  { index: 1, title: ' Setup ', local: 'setup.htm' },
+  { index: 2, title: 'Usage', local: 'usage.htm' },
+]);
+
+// 构造 #TOCIDX 项，带子项时为 0x1C 字节
+function entry(
+  flags: number,
+  value: number,
+  next: number,
+  child?: number,
+): Buffer {
+  const data = Buffer.alloc(child === undefined ? 0x14 : 0x1c);
+  data.writeUInt32LE(flags, 4);
+  data.writeUInt32LE(value, 8);
+  data.writeUInt32LE(next, 0x10);
+  if (child !== undefined) {
+    data.writeUInt32LE(child, 0x14);
+  }
+  return data;
+}
+
+test('BinaryTOCReader should rebuild the tree from #TOCIDX', () => {
+  // 0x10: 主题 0；0x24: 书籍 "Guide"（名称在 #STRINGS），子项为 0x40 和 0x54
+  const strings = Buffer.from('\0Guide\0', 'utf8');
+  const tocIndex = Buffer.concat([
+    Buffer.from([0x10, 0, 0, 0]),
+    Buffer.alloc(12),
+    entry(0x08, 0, 0x24),
+    entry(0x04, 1, 0, 0x40),
+    entry(0x08, 1, 0x54),
+    entry(0x08, 2, 0),
+  ]);
+
+  equal(BinaryTOCReader.parse(tocIndex, topics, strings), [
+    { name: 'Introduction', local: 'intro.htm', level: 0 },
+    {
+      name: 'Guide',
+      local: '',
+      level: 0,
+      children: [
+        { name: 'Setup', local: 'setup.htm', level: 1 },
+        { name: 'Usage', local: 'usage.htm', level: 1 },
+      ],
+    },
+  ]);
+});
+
+test('BinaryTOCReader should stop on looping sibling links', () => {
+  const tocIndex = Buffer.concat([
+    Buffer.from([0x10, 0, 0, 0]),
+    Buffer.alloc(12),
+    entry(0x08, 0, 0x10),
+  ]);
+
+  equal(BinaryTOCReader.parse(tocIndex, topics), [
+    { name: 'Introduction', local: 'intro.htm', level: 0 },
+  ]);
+  equal(BinaryTOCReader.parse(Buffer.alloc(2), topics), []);
+});
+
+test.run();
@@ -0,0 +1,54 @@
+import { test } from 'uvu';
+import { equal } from 'uvu/assert';
+import { ContextMap } from '../../src/core/internal/context-map';
+
+// 构造 #IVB：DWORD 数据长度，之后为 (上下文 ID, #STRINGS 偏移) 对
+function ivb(entries: Array<[number, number]>, length?: number): Buffer {
+  const data = Buffer.alloc(4 + entries.length * 8);
+  data.writeUInt32LE(length ?? entries.length * 8, 0);
+  entries.forEach(([id, offset], index) => {
+    data.writeUInt32LE(id, 4 + index * 8);
+    data.writeUInt32LE(offset, 8 + index * 8);
+  });
+  return data;
+}
+
+const STRINGS = Buffer.from('\0intro.htm\0html/setup.htm\0', 'utf8');
+
+test('ContextMap.parse should resolve context IDs through #STRINGS', () => {
+  const map = ContextMap.parse({
+    ivb: ivb([
+      [1000, 1],
+      [1001, 11],
+    ]),
+    strings: STRINGS,
+  });
+
+  equal(map.size, 2);
+  equal(map.resolve(1000), 'intro.htm');
+  equal(map.resolve(1001), 'html/setup.htm');
+  equal(map.resolve(42), undefined);
+  equal(map.getEntries(), [
+    { id: 1000, local: 'intro.htm' },
+    { id: 1001, local: 'html/setup.htm' },
+  ]);
+});
+
+test('ContextMap.parse should tolerate truncated and empty files', () => {
+  // 数据长度大于文件实际长度时只读取完整的项
+  const map = ContextMap.parse({
+    ivb: ivb([[7, 1]], 64).subarray(0, 12),
+    strings: STRINGS,
+  });
+  equal(map.size, 1);
+  equal(map.resolve(7), 'intro.htm');
+
+  // 偏移越界时没有目标主题
+  equal(
+    ContextMap.parse({ ivb: ivb([[8, 999]]), strings: STRINGS }).resolve(8),
+    undefined,
+  );
+  equal(ContextMap.parse({ ivb: Buffer.alloc(2) }).size, 0);
+});
+
+test.run();
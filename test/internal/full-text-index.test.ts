@@ -0,0 +1,253 @@
+import { test } from 'uvu';
+import { equal, throws } from 'uvu/assert';
+import { FullTextIndex } from '../../src/core/internal/full-text-index';
+import { TopicTable } from '../../src/core/internal/topic-table';
+import { Codepage } from '../../src/utils/encoding/codepage';
+
+const NODE_LENGTH = 0x80;
+const ROOT = 2;
+
+const topics = new TopicTable([
+  { index: 0, title: 'Intro', local: 'intro.htm' },
+  { index: 1, title: 'Setup', local: 'setup.htm' },
+  { index: 2, title: 'Usage', local: 'usage.htm' },
+]);
+
+// 按比例 2 的 scale/root 编码整数
+function sr(value: number, root: number): string {
+  if (value < 2 ** root) {
+    return '0' + value.toString(2).padStart(root, '0');
+  }
+  const prefix = Math.floor(Math.log2(value)) - root + 1;
+  const bits = root + prefix - 1;
+  return (
+    '1'.repeat(prefix) +
+    '0' +
+    (value - 2 ** bits).toString(2).padStart(bits, '0')
+  );
+}
+
+// 编码一个词的 WLC：[主题编号, 位置数组][]，每个主题按字节对齐
+function wlc(documents: Array<[number, number[]]>): Buffer {
+  const bytes: number[] = [];
+  let previousTopic = 0;
+  for (const [topic, locations] of documents) {
+    let bits = sr(topic - previousTopic, ROOT) + sr(locations.length, ROOT);
+    previousTopic = topic;
+    let previousLocation = 0;
+    for (const location of locations) {
+      bits += sr(location - previousLocation, ROOT);
+      previousLocation = location;
+    }
+    bits = bits.padEnd(Math.ceil(bits.length / 8) * 8, '0');
+    for (let i = 0; i < bits.length; i += 8) {
+      bytes.push(parseInt(bits.slice(i, i + 8), 2));
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// 叶节点词条：词、与上一个词共享的前缀字节数、是否在标题中、[主题编号, 位置数组][]
+type LeafWord = [string, number, boolean, Array<[number, number[]]>];
+
+function wordBytes(word: Buffer, shared: number): number[] {
+  const tail = word.subarray(shared);
+  return [tail.length + 1, shared, ...tail];
+}
+
+function node(next: number | null, body: number[]): Buffer {
+  const data = Buffer.alloc(NODE_LENGTH);
+  const headerSize = next === null ? 2 : 8;
+  if (next === null) {
+    data.writeUInt16LE(NODE_LENGTH - headerSize - body.length, 0);
+  } else {
+    data.writeUInt32LE(next, 0);
+    data.writeUInt16LE(NODE_LENGTH - headerSize - body.length, 6);
+  }
+  Buffer.from(body).copy(data, headerSize);
+  return data;
+}
+
+// 全文索引中的 ENCINT：低位组在前
+function encint(value: number): number[] {
+  const bytes: number[] = [];
+  let remaining = value;
+  while (remaining >= 0x80) {
+    bytes.push((remaining & 0x7f) | 0x80);
+    remaining = Math.floor(remaining / 128);
+  }
+  return [...bytes, remaining];
+}
+
+function dword(value: number): number[] {
+  const data = Buffer.alloc(4);
+  data.writeUInt32LE(value, 0);
+  return [...data];
+}
+
+// 头部 0x40 字节，之后依次是索引节点、各叶节点和 WLC 数据；
+// 索引节点为每个叶节点记录其最后一个词
+function buildIndex(
+  leaves: LeafWord[][],
+  encode: (word: string) => Buffer = word => Buffer.from(word, 'latin1'),
+): Buffer {
+  const indexOffset = 0x40;
+  const leafOffsets = leaves.map((_, i) => indexOffset + NODE_LENGTH * (i + 1));
+  let offset = indexOffset + NODE_LENGTH * (leaves.length + 1);
+
+  const wlcs: Buffer[] = [];
+  const leafNodes = leaves.map((words, i) => {
+    const body: number[] = [];
+    for (const [word, shared, inTitle, documents] of words) {
+      const data = wlc(documents);
+      body.push(
+        ...wordBytes(encode(word), shared),
+        inTitle ? 1 : 0,
+        ...encint(documents.length),
+        ...dword(offset),
+        0,
+        0,
+        ...encint(data.length),
+      );
+      wlcs.push(data);
+      offset += data.length;
+    }
+    return node(i + 1 < leaves.length ? leafOffsets[i + 1]! : 0, body);
+  });
+
+  const indexBody: number[] = [];
+  leaves.forEach((words, i) => {
+    indexBody.push(
+      ...wordBytes(encode(words[words.length - 1]![0]), 0),
+      ...dword(leafOffsets[i]!),
+      0,
+      0,
+    );
+  });
+
+  const header = Buffer.alloc(0x40);
+  header.writeUInt32LE(indexOffset, 0x14);
+  header.writeUInt16LE(2, 0x18);
+  header.set([2, ROOT, 2, ROOT, 2, ROOT], 0x1e);
+  header.writeUInt32LE(NODE_LENGTH, 0x2e);
+
+  return Buffer.concat([header, node(null, indexBody), ...leafNodes, ...wlcs]);
+}
+
+const LEAVES: LeafWord[][] = [
+  [
+    [
+      'install',
+      0,
+      false,
+      [
+        [0, [3, 10]],
+        [2, [1]],
+      ],
+    ],
+    ['install', 7, true, [[1, [0]]]],
+  ],
+  [
+    ['setup', 0, false, [[0, [5]]]],
+    ['usage', 0, false, [[2, [2, 4, 40]]]],
+  ],
+];
+
+test('FullTextIndex should list words across leaf nodes', () => {
+  const index = new FullTextIndex(buildIndex(LEAVES), topics);
+
+  equal(
+    index.getWords().map(word => [word.word, word.inTitle, word.documentCount]),
+    [
+      ['install', false, 2],
+      ['install', true, 1],
+      ['setup', false, 1],
+      ['usage', false, 1],
+    ],
+  );
+});
+
+test('FullTextIndex should decode topics and locations for a word', () => {
+  const index = new FullTextIndex(buildIndex(LEAVES), topics);
+
+  equal(
+    index
+      .search('Install')
+      .map(match => [match.topic.local, match.inTitle, match.locations]),
+    [
+      ['setup.htm', true, [0]],
+      ['intro.htm', false, [3, 10]],
+      ['usage.htm', false, [1]],
+    ],
+  );
+  equal(index.search('usage')[0].locations, [2, 4, 40]);
+  equal(index.search('missing'), []);
+  equal(index.search('zzz'), []);
+});
+
+test('FullTextIndex should decode shared prefixes and order words by bytes', () => {
+  // GBK 中 "啊"（B0A1）排在 "一"（D2BB）之前，与 UTF-16 顺序相反；
+  // "安装" 与 "安全" 共享 2 个字节（一个汉字）
+  const leaves: LeafWord[][] = [
+    [
+      ['啊', 0, false, [[0, [1]]]],
+      ['安全', 0, false, [[1, [2]]]],
+      ['安装', 2, true, [[1, [0]]]],
+    ],
+    [['一', 0, false, [[2, [7]]]]],
+  ];
+  const index = new FullTextIndex(
+    buildIndex(leaves, word => Codepage.encode(word, 'gbk')),
+    topics,
+    'gbk',
+  );
+
+  equal(
+    index.getWords().map(word => word.word),
+    ['啊', '安全', '安装', '一'],
+  );
+  equal(
+    index.search('安装').map(match => [match.topic.local, match.inTitle]),
+    [['setup.htm', true]],
+  );
+  equal(index.search('一')[0]?.locations, [7]);
+  equal(index.search('啊')[0]?.topic.local, 'intro.htm');
+  equal(index.search('安'), []);
+});
+
+test('FullTextIndex should read multi-byte document counts and WLC lengths', () => {
+  // 200 个主题各 2 字节 WLC：主题数 200 与 WLC 长度 400 都需要两个 ENCINT 字节
+  const documents = Array.from({ length: 200 }, (_, i): [number, number[]] => [
+    i,
+    [i % 3],
+  ]);
+  const leaves: LeafWord[][] = [
+    [
+      ['common', 0, false, documents],
+      ['rare', 0, false, [[1, [9]]]],
+    ],
+  ];
+  const index = new FullTextIndex(buildIndex(leaves), topics);
+
+  equal(
+    index.getWords().map(word => [word.word, word.documentCount]),
+    [
+      ['common', 200],
+      ['rare', 1],
+    ],
+  );
+
+  const matches = index.search('common');
+  equal(matches.length, 200);
+  equal(matches[1]?.topic.local, 'setup.htm');
+  equal(matches[199]?.topic.index, 199);
+  equal(matches[199]?.locations, [199 % 3]);
+  equal(index.search('rare')[0]?.locations, [9]);
+});
+
+test('FullTextIndex should reject unsupported headers', () => {
+  throws(() => new FullTextIndex(Buffer.alloc(0x10), topics), /过短/);
+  throws(() => new FullTextIndex(Buffer.alloc(0x40), topics), /编码比例/);
+});
+
+test.run();
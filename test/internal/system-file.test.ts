@@ -0,0 +1,88 @@
+import { test } from 'uvu';
+import { equal, throws } from 'uvu/assert';
+import { SystemFileParser } from '../../src/core/internal/system-file';
+
+// 构造一条 #SYSTEM 记录
+function record(code: number, data: Buffer): Buffer {
+  const header = Buffer.alloc(4);
+  header.writeUInt16LE(code, 0);
+  header.writeUInt16LE(data.length, 2);
+  return Buffer.concat([header, data]);
+}
+
+function text(value: string): Buffer {
+  return Buffer.from(`${value}\0`, 'utf8');
+}
+
+function buildSystemFile(): Buffer {
+  const locale = Buffer.alloc(36);
+  locale.writeUInt32LE(0x0409, 0);
+  locale.writeUInt32LE(1, 8); // 全文搜索
+  locale.writeBigUInt64LE(BigInt('132539328000000000'), 20); // 2021-01-01
+
+  const version = Buffer.alloc(4);
+  version.writeUInt32LE(3, 0);
+
+  return Buffer.concat([
+    version,
+    record(0, text('toc.hhc')),
+    record(1, text('index.hhk')),
+    record(2, text('index.html')),
+    record(3, text('Sample Help')),
+    record(4, locale),
+    record(9, text('HHA Version 4.74.8702')),
+    record(11, Buffer.alloc(4)),
+  ]);
+}
+
+test('SystemFileParser should parse tagged records', () => {
+  const system = SystemFileParser.parse(buildSystemFile());
+
+  equal(system.version, 3);
+  equal(system.title, 'Sample Help');
+  equal(system.defaultTopic, 'index.html');
+  equal(system.contentsFile, 'toc.hhc');
+  equal(system.lcid, 0x0409);
+  equal(system.fullTextSearch, true);
+  equal(system.hasKLinks, false);
+  equal(system.binaryTOC, true);
+  equal(system.binaryIndex, undefined);
+  equal(system.timestamp?.toISOString(), '2021-01-01T00:00:00.000Z');
+});
+
+test('SystemFileParser should convert records to metadata', () => {
+  const metadata = SystemFileParser.toMetadata(
+    SystemFileParser.parse(buildSystemFile()),
+  );
+
+  equal(metadata.title, 'Sample Help');
+  equal(metadata.toc, 'toc.hhc');
+  equal(metadata.index, 'index.hhk');
+  equal(metadata.language, '0x0409');
+  equal(metadata.compilerVersion, 'HHA Version 4.74.8702');
+  equal(metadata.binaryIndex, false);
+  equal('defaultWindow' in metadata, false);
+});
+
+test('SystemFileParser should reject truncated files', () => {
+  throws(() => SystemFileParser.parse(Buffer.alloc(2)), /#SYSTEM/);
+});
+
+test('SystemFileParser should decode strings with the LCID codepage', () => {
+  const locale = Buffer.alloc(20);
+  locale.writeUInt32LE(0x0804, 0);
+
+  const version = Buffer.alloc(4);
+  version.writeUInt32LE(3, 0);
+
+  // 标题记录排在区域信息之前
+  const title = Buffer.from([0xd6, 0xd0, 0xce, 0xc4, 0x00]);
+  const system = SystemFileParser.parse(
+    Buffer.concat([version, record(3, title), record(4, locale)]),
+  );
+
+  equal(system.lcid, 0x0804);
+  equal(system.title, '中文');
+});
+
+test.run();
@@ -0,0 +1,87 @@
+import { test } from 'uvu';
+import { equal } from 'uvu/assert';
+import { TopicTable } from '../../src/core/internal/topic-table';
+
+// 构造 #TOPICS 项
+function topic(titleOffset: number, urlTableOffset: number): Buffer {
+  const entry = Buffer.alloc(16);
+  entry.writeUInt32LE(titleOffset, 4);
+  entry.writeUInt32LE(urlTableOffset, 8);
+  entry.writeUInt16LE(6, 12);
+  return entry;
+}
+
+// 构造 #URLTBL 项
+function urlTableEntry(topicIndex: number, urlStringOffset: number): Buffer {
+  const entry = Buffer.alloc(12);
+  entry.writeUInt32LE(topicIndex, 4);
+  entry.writeUInt32LE(urlStringOffset, 8);
+  return entry;
+}
+
+// 构造 #URLSTR 记录
+function urlString(urlOffset: number, local: string): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32LE(urlOffset, 0);
+  return Buffer.concat([header, Buffer.from(`${local}\0`, 'utf8')]);
+}
+
+function buildFiles() {
+  const strings = Buffer.from('\0Introduction\0Guide\0', 'utf8');
+
+  // 偏移 1 为第一条记录，外部 URL 跟在最后
+  const first = urlString(0, 'html/intro.htm');
+  const secondLocal = 'html/guide.htm';
+  const urlOffset = 1 + first.length + 8 + secondLocal.length + 1;
+  const second = urlString(urlOffset, secondLocal);
+  const urlStrings = Buffer.concat([
+    Buffer.alloc(1),
+    first,
+    second,
+    Buffer.from('https://example.com/\0', 'utf8'),
+  ]);
+
+  return {
+    topics: Buffer.concat([topic(1, 0), topic(14, 12), topic(0xffffffff, 99)]),
+    urlTable: Buffer.concat([
+      urlTableEntry(0, 1),
+      urlTableEntry(1, 1 + first.length),
+    ]),
+    urlStrings,
+    strings,
+  };
+}
+
+test('TopicTable should resolve titles and local paths', () => {
+  const table = TopicTable.parse(buildFiles());
+
+  equal(table.size, 3);
+  equal(table.getTopic(0), {
+    index: 0,
+    title: 'Introduction',
+    local: 'html/intro.htm',
+  });
+  equal(table.getTopic(1), {
+    index: 1,
+    title: 'Guide',
+    local: 'html/guide.htm',
+    url: 'https://example.com/',
+  });
+});
+
+test('TopicTable should tolerate missing titles and URL entries', () => {
+  const table = TopicTable.parse(buildFiles());
+  equal(table.getTopic(2), { index: 2, title: '', local: '' });
+
+  const topicsOnly = TopicTable.parse({ topics: buildFiles().topics });
+  equal(topicsOnly.getTopic(0), { index: 0, title: '', local: '' });
+});
+
+test('TopicTable should find topics by local path', () => {
+  const table = TopicTable.parse(buildFiles());
+
+  equal(table.findByLocal('/HTML/Guide.htm')?.index, 1);
+  equal(table.findByLocal('missing.htm'), undefined);
+});
+
+test.run();
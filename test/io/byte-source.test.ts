@@ -0,0 +1,49 @@
+import { test } from 'uvu';
+import { equal, throws } from 'uvu/assert';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  BufferByteSource,
+  Uint8ArrayByteSource,
+  FileByteSource,
+} from '../../src/utils/io/byte-source';
+
+const DATA = Buffer.from('0123456789abcdef', 'ascii');
+
+test('BufferByteSource should read ranges without copying', () => {
+  const source = new BufferByteSource(DATA);
+
+  equal(source.size, 16);
+  equal(source.read(4, 4).toString('ascii'), '4567');
+  throws(() => source.read(14, 4));
+});
+
+test('Uint8ArrayByteSource should respect the array view', () => {
+  const array = new Uint8Array(DATA.buffer, DATA.byteOffset + 10, 6);
+  const source = new Uint8ArrayByteSource(array);
+
+  equal(source.size, 6);
+  equal(source.read(0, 6).toString('ascii'), 'abcdef');
+});
+
+test('FileByteSource should use positional reads', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'chm-kit-'));
+  const filePath = join(dir, 'data.bin');
+  writeFileSync(filePath, DATA);
+
+  const source = FileByteSource.open(filePath);
+  try {
+    equal(source.size, 16);
+    equal(source.read(10, 3).toString('ascii'), 'abc');
+    equal(source.read(0, 2).toString('ascii'), '01');
+  } finally {
+    source.close();
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  // 关闭后不能再读取
+  throws(() => source.read(0, 1));
+});
+
+test.run();
@@ -0,0 +1,44 @@
+import { test } from 'uvu';
+import { equal, throws } from 'uvu/assert';
+import { LZXBitReader } from '../../src/utils/io/lzx-bit-reader';
+
+// 两个小端序字 0xABCD 和 0x1234，之后是原始字节
+const DATA = Buffer.from([0xcd, 0xab, 0x34, 0x12, 0x61, 0x62, 0x63]);
+
+test('LZXBitReader should read words MSB-first across refills', () => {
+  const reader = new LZXBitReader(DATA);
+
+  equal(reader.read(4), 0xa);
+  equal(reader.peek(8), 0xbc);
+  equal(reader.read(16), 0xbcd1);
+  equal(reader.position, 2);
+  equal(reader.bitPosition, 4);
+  equal(reader.read(12), 0x234);
+  equal(reader.position, 4);
+  equal(reader.bitPosition, 0);
+});
+
+test('LZXBitReader should align and read raw bytes', () => {
+  const reader = new LZXBitReader(DATA);
+
+  reader.read(20);
+  reader.align();
+  equal(reader.position, 4);
+  equal(reader.readBytes(3).toString('ascii'), 'abc');
+  equal(reader.hasMore(), false);
+});
+
+test('LZXBitReader should skip and detect end of buffer', () => {
+  const reader = new LZXBitReader(DATA, 2);
+
+  reader.skip(20);
+  equal(reader.position, 4);
+  equal(reader.bitPosition, 4);
+  equal(reader.read(12), 0x261);
+
+  // 奇数长度的末尾字按 0 补齐高字节
+  equal(reader.read(16), 0x0063);
+  throws(() => reader.read(1), /End of buffer/);
+});
+
+test.run();
@@ -0,0 +1,201 @@
+import { test } from 'uvu';
+import { equal, throws } from 'uvu/assert';
+import { LZXDecoder } from '../../src/core/lzx/lzx-decoder';
+import { LZXBitReader } from '../../src/utils/io/lzx-bit-reader';
+import { Huffman } from '../../src/utils/compression/huffman';
+import type { LZXCHeader } from '../../src/core/types';
+
+const header: LZXCHeader = {
+  signature: 'LZXC',
+  version: 2,
+  resetInterval: 0x8000,
+  windowSize: 0x8000,
+  cacheSize: 0,
+  unknown: 0,
+};
+
+// 按 LZX 规则（16 位小端序字，高位优先）写入位流
+class WordBitWriter {
+  private bytes: number[] = [];
+  private word = 0;
+  private count = 0;
+
+  write(value: number, bits: number): void {
+    for (let i = bits - 1; i >= 0; i--) {
+      this.word = (this.word << 1) | ((value >> i) & 1);
+      if (++this.count === 16) {
+        this.flushWord();
+      }
+    }
+  }
+
+  align(): void {
+    if (this.count > 0) {
+      this.word <<= 16 - this.count;
+      this.flushWord();
+    }
+  }
+
+  raw(data: number[]): void {
+    this.bytes.push(...data);
+  }
+
+  toBuffer(): Buffer {
+    this.align();
+    return Buffer.from(this.bytes);
+  }
+
+  private flushWord(): void {
+    this.bytes.push(this.word & 0xff, (this.word >> 8) & 0xff);
+    this.word = 0;
+    this.count = 0;
+  }
+}
+
+// 用 Canonical 码写入符号
+function writeSymbol(writer: WordBitWriter, lengths: number[], symbol: number) {
+  const tree = Huffman.createCanonicalTree(lengths);
+  const index = tree.symbols.indexOf(symbol);
+  writer.write(tree.codes[index]!, tree.lengths[index]!);
+}
+
+// 写入预树和码长差值序列：[预树符号, 额外位数, 额外位值]
+function writeLengths(
+  writer: WordBitWriter,
+  pretree: number[],
+  items: Array<[number, number?, number?]>,
+) {
+  for (const length of pretree) {
+    writer.write(length, 4);
+  }
+  for (const [symbol, bits, value] of items) {
+    writeSymbol(writer, pretree, symbol);
+    if (bits) {
+      writer.write(value!, bits);
+    }
+  }
+}
+
+test('LZXDecoder should decode an uncompressed block', () => {
+  const writer = new WordBitWriter();
+  writer.write(0, 1); // 无 E8 预处理
+  writer.write(3, 3); // 未压缩块
+  writer.write(0, 16);
+  writer.write(5, 8);
+  writer.align();
+  writer.raw([1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0]); // R0-R2
+  writer.raw([...Buffer.from('hello')]);
+
+  const decoder = new LZXDecoder(header);
+  const output = decoder.decode(new LZXBitReader(writer.toBuffer()), 5);
+  equal(output.toString(), 'hello');
+});
+
+// 写入未压缩块：块头、R0-R2 和原始数据，长度为奇数时补一个填充字节
+function writeUncompressed(writer: WordBitWriter, data: number[]) {
+  writer.write(3, 3);
+  writer.write(data.length >> 8, 16);
+  writer.write(data.length & 0xff, 8);
+  writer.align();
+  writer.raw([1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0]);
+  writer.raw(data);
+  if (data.length & 1) {
+    writer.raw([0]);
+  }
+}
+
+test('LZXDecoder should skip the padding of an odd uncompressed block at a reset point', () => {
+  // 第一个重置间隔由 1 字节和 0x7FFF 字节两个未压缩块组成，
+  // 第二个块的填充字节之后才是下一个重置点的流头部
+  const first = new Array(0x7fff).fill(0x61);
+  const writer = new WordBitWriter();
+  writer.write(0, 1);
+  writeUncompressed(writer, [0x62]);
+  writeUncompressed(writer, first);
+  writer.write(0, 1);
+  writeUncompressed(writer, [...Buffer.from('hello')]);
+
+  const decoder = new LZXDecoder(header);
+  const output = decoder.decode(
+    new LZXBitReader(writer.toBuffer()),
+    0x8000 + 5,
+  );
+  equal(output[0], 0x62);
+  equal(output.subarray(1, 0x8000).toString(), 'a'.repeat(0x7fff));
+  equal(output.subarray(0x8000).toString(), 'hello');
+});
+
+test('LZXDecoder should decode a verbatim block with matches', () => {
+  const writer = new WordBitWriter();
+  writer.write(0, 1);
+  writer.write(1, 3); // 逐字块
+  writer.write(0, 16);
+  writer.write(8, 8);
+
+  // 预树：18 -> 1 位，15/17 -> 2 位；15 表示码长 0 -> 2
+  const pretree = new Array(20).fill(0);
+  pretree[15] = 2;
+  pretree[17] = 2;
+  pretree[18] = 1;
+
+  // 主树字面量部分：'a'(97) 和 'b'(98) 码长为 2
+  writeLengths(writer, pretree, [
+    [18, 5, 31],
+    [18, 5, 26],
+    [15],
+    [15],
+    [18, 5, 31],
+    [18, 5, 31],
+    [18, 5, 31],
+    [17, 4, 0],
+  ]);
+
+  // 主树匹配部分：256（R0，长度 2）和 281（槽 3，长度 3）码长为 2
+  writeLengths(writer, pretree, [
+    [15],
+    [18, 5, 4],
+    [15],
+    [18, 5, 31],
+    [18, 5, 31],
+    [18, 5, 31],
+    [18, 5, 31],
+    [17, 4, 6],
+  ]);
+
+  // 长度树全为零
+  const lengthPretree = new Array(20).fill(0);
+  lengthPretree[17] = 1;
+  lengthPretree[18] = 1;
+  writeLengths(writer, lengthPretree, [
+    [18, 5, 31],
+    [18, 5, 31],
+    [18, 5, 31],
+    [18, 5, 31],
+    [18, 5, 25],
+  ]);
+
+  const mainLengths = new Array(256 + 30 * 8).fill(0);
+  mainLengths[97] = 2;
+  mainLengths[98] = 2;
+  mainLengths[256] = 2;
+  mainLengths[281] = 2;
+  for (const symbol of [97, 98, 281, 256, 97]) {
+    writeSymbol(writer, mainLengths, symbol);
+  }
+
+  const decoder = new LZXDecoder(header);
+  const output = decoder.decode(new LZXBitReader(writer.toBuffer()), 8);
+  equal(output.toString(), 'abbbbbba');
+});
+
+test('LZXDecoder should reject unknown block types', () => {
+  const writer = new WordBitWriter();
+  writer.write(0, 1);
+  writer.write(7, 3);
+  writer.write(0, 24);
+
+  const decoder = new LZXDecoder(header);
+  throws(() => decoder.decode(new LZXBitReader(writer.toBuffer()), 4));
+});
+
+test.run();
@@ -0,0 +1,198 @@
+import { test } from 'uvu';
+import { equal, ok, throws } from 'uvu/assert';
+import { LZXEncoder } from '../../src/encoder/lzx-encoder';
+import { LZXDecoder } from '../../src/core/lzx/lzx-decoder';
+import { ResetTableProcessor } from '../../src/core/lzx/reset-table';
+import { IntelE8 } from '../../src/core/lzx/intel-e8';
+import { LZXBitReader } from '../../src/utils/io/lzx-bit-reader';
+import { BitReader } from '../../src/utils/io/bit-reader';
+import type { LZXCHeader } from '../../src/core/types';
+
+function createHeader(resetInterval: number, windowSize: number): LZXCHeader {
+  return {
+    signature: 'LZXC',
+    version: 2,
+    resetInterval,
+    windowSize,
+    cacheSize: 0,
+    unknown: 0,
+  };
+}
+
+// 类似 HTML 的文本，跨越多个 32KB 帧
+function createText(lines: number): Buffer {
+  const parts: string[] = [];
+  for (let i = 0; i < lines; i++) {
+    parts.push(`<p id="p${i}">Topic ${(i * 7919) % 1000} lorem ipsum</p>\n`);
+  }
+  return Buffer.from(parts.join(''));
+}
+
+// 线性同余生成的伪随机数据
+function createNoise(length: number, seed: number): Buffer {
+  const data = Buffer.alloc(length);
+  let state = seed;
+  for (let i = 0; i < length; i++) {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    data[i] = state >>> 24;
+  }
+  return data;
+}
+
+function roundTrip(
+  input: Buffer,
+  resetInterval = 0x8000,
+  windowSize = 0x8000,
+  compressionLevel = 6,
+): Buffer {
+  const encoder = new LZXEncoder({
+    resetInterval,
+    windowSize,
+    compressionLevel,
+  });
+  const { compressedData } = encoder.compress(input);
+  const decoder = new LZXDecoder(createHeader(resetInterval, windowSize));
+  return decoder.decode(new LZXBitReader(compressedData), input.length);
+}
+
+test('LZXEncoder output should decode back to the input', () => {
+  const input = createText(3000);
+  const encoder = new LZXEncoder({ resetInterval: 0x10000 });
+  const result = encoder.compress(input);
+
+  ok(result.compressedSize < input.length / 4);
+  equal(result.uncompressedSize, input.length);
+
+  const decoder = new LZXDecoder(createHeader(0x10000, 0x8000));
+  const output = decoder.decode(
+    new LZXBitReader(result.compressedData),
+    input.length,
+  );
+  ok(output.equals(input));
+});
+
+test('LZXEncoder should handle incompressible data and far matches', () => {
+  // 随机块重复出现时，匹配偏移需要额外位（可能使用对齐块）
+  const noise = createNoise(3000, 1);
+  const input = Buffer.concat([noise, createNoise(500, 2), noise, noise]);
+
+  ok(roundTrip(input).equals(input));
+  ok(roundTrip(createNoise(5000, 3)).equals(createNoise(5000, 3)));
+  ok(roundTrip(Buffer.from('a')).equals(Buffer.from('a')));
+});
+
+test('LZXEncoder should emit aligned blocks for aligned offsets', () => {
+  // 16 字节记录反复出现，偏移的低 3 位集中，对齐块更短
+  const pool = createNoise(64 * 16, 5);
+  const records = [pool];
+  for (const byte of createNoise(800, 9)) {
+    const index = byte & 63;
+    records.push(pool.subarray(index * 16, index * 16 + 16));
+  }
+  const input = Buffer.concat(records);
+
+  const { compressedData } = new LZXEncoder().compress(input);
+  equal((compressedData.readUInt16LE(0) >> 12) & 7, 2); // E8 位之后的块类型
+  ok(roundTrip(input).equals(input));
+});
+
+test('LZXEncoder compression levels should trade speed for ratio', () => {
+  const input = createText(6000);
+  const sizes = [1, 6, 9].map(compressionLevel => {
+    ok(roundTrip(input, 0x10000, 0x10000, compressionLevel).equals(input));
+    return new LZXEncoder({ compressionLevel }).compress(input).compressedSize;
+  });
+
+  ok(sizes[1]! <= sizes[0]!);
+});
+
+test('LZXEncoder reset table should allow decoding from a reset point', () => {
+  const input = createText(4000);
+  const encoder = new LZXEncoder({ resetInterval: 0x10000 });
+  const result = encoder.compress(input);
+
+  const processor = new ResetTableProcessor();
+  const table = processor.parseResetTable(new BitReader(result.resetTable));
+  equal(table.blockCount, Math.ceil(input.length / 0x8000));
+  equal(table.uncompressedLength, input.length);
+  equal(table.compressedLength, result.compressedSize);
+  equal(table.entries[0]!.compressedOffset, 0);
+
+  // 第二个重置点位于第 3 帧
+  const resetPoint = table.entries[2]!;
+  const decoder = new LZXDecoder(createHeader(0x10000, 0x8000));
+  const output = decoder.decode(
+    new LZXBitReader(result.compressedData, resetPoint.compressedOffset),
+    input.length - resetPoint.uncompressedOffset,
+  );
+  ok(output.equals(input.subarray(resetPoint.uncompressedOffset)));
+});
+
+// 模拟 x86 代码：反复调用少数几个函数的 CALL 指令
+function createCode(length: number): Buffer {
+  const code = Buffer.alloc(length);
+  const targets = [0x1000, 0x2400, 0x5000, 0x9000];
+  for (let i = 0; i + 8 <= length; i += 8) {
+    code[i] = 0xe8;
+    code.writeInt32LE(targets[(i >> 3) % targets.length]! - i, i + 1);
+    code.writeUInt16LE(0x9090, i + 5);
+    code[i + 7] = 0xc3;
+  }
+  return code;
+}
+
+test('IntelE8 should translate relative calls to absolute addresses', () => {
+  const frame = Buffer.alloc(32);
+  frame[0] = 0xe8;
+  frame.writeInt32LE(0x10, 1);
+  frame[5] = 0xe8;
+  frame.writeInt32LE(-0x9000, 6); // 早于数据起点，不翻译
+  frame[25] = 0xe8; // 位于帧末尾 10 字节内，不翻译
+  frame.writeInt32LE(0x10, 26);
+  const original = Buffer.from(frame);
+
+  IntelE8.encode(frame, 0x8000, 12000000);
+  equal(frame.readInt32LE(1), 0x8010);
+  equal(frame.readInt32LE(6), -0x9000);
+  equal(frame.readInt32LE(26), 0x10);
+
+  IntelE8.decode(frame, 0x8000, 12000000);
+  ok(frame.equals(original));
+});
+
+test('LZXEncoder should apply Intel E8 translation when enabled', () => {
+  const input = createCode(0x18000);
+  const options = { resetInterval: 0x10000, intelFileSize: 12000000 };
+  const plain = new LZXEncoder({ resetInterval: 0x10000 }).compress(input);
+  const result = new LZXEncoder(options).compress(input);
+
+  equal(result.compressedData.readUInt16LE(0) >> 15, 1); // E8 标志位
+  ok(result.compressedSize < plain.compressedSize);
+
+  const decoder = new LZXDecoder(createHeader(0x10000, 0x8000));
+  const output = decoder.decode(
+    new LZXBitReader(result.compressedData),
+    input.length,
+  );
+  ok(output.equals(input));
+
+  // 从第二个重置点解码时需要给出它在未压缩数据中的偏移
+  const table = new ResetTableProcessor().parseResetTable(
+    new BitReader(result.resetTable),
+  );
+  const resetPoint = table.entries[2]!;
+  const tail = new LZXDecoder(createHeader(0x10000, 0x8000)).decode(
+    new LZXBitReader(result.compressedData, resetPoint.compressedOffset),
+    input.length - resetPoint.uncompressedOffset,
+    resetPoint.uncompressedOffset,
+  );
+  ok(tail.equals(input.subarray(resetPoint.uncompressedOffset)));
+});
+
+test('LZXEncoder should reject invalid configurations', () => {
+  throws(() => new LZXEncoder({ windowSize: 1000 }), /窗口大小/);
+  throws(() => new LZXEncoder({ resetInterval: 0x9000 }), /重置间隔/);
+  throws(() => new LZXEncoder({ compressionLevel: 10 }), /压缩级别/);
+});
+
+test.run();
@@ -0,0 +1,70 @@
+import { test } from 'uvu';
+import { equal, throws } from 'uvu/assert';
+import { ResetTableProcessor } from '../../src/core/lzx/reset-table';
+import { BitReader } from '../../src/utils/io/bit-reader';
+
+// 构造一个包含 4 个 32KB 块的重置表
+function buildResetTable(version = 2): Buffer {
+  const offsets = [0, 0x1200, 0x2300, 0x3400];
+  const buffer = Buffer.alloc(0x28 + offsets.length * 8);
+  buffer.writeUInt32LE(version, 0);
+  buffer.writeUInt32LE(offsets.length, 4);
+  buffer.writeUInt32LE(8, 8);
+  buffer.writeUInt32LE(0x28, 12);
+  buffer.writeBigUInt64LE(BigInt(0x20000), 0x10);
+  buffer.writeBigUInt64LE(BigInt(0x4000), 0x18);
+  buffer.writeBigUInt64LE(BigInt(0x8000), 0x20);
+  offsets.forEach((offset, i) => {
+    buffer.writeBigUInt64LE(BigInt(offset), 0x28 + i * 8);
+  });
+  return buffer;
+}
+
+test('ResetTableProcessor should parse reset table entries', () => {
+  const processor = new ResetTableProcessor();
+  const table = processor.parseResetTable(new BitReader(buildResetTable()));
+
+  equal(table.blockCount, 4);
+  equal(table.blockSize, 0x8000);
+  equal(table.uncompressedLength, 0x20000);
+  equal(table.entries[2], {
+    compressedOffset: 0x2300,
+    uncompressedOffset: 0x10000,
+  });
+  equal(processor.validate(), true);
+});
+
+test('ResetTableProcessor should find the nearest reset point', () => {
+  const processor = new ResetTableProcessor();
+  processor.parseResetTable(new BitReader(buildResetTable()));
+
+  equal(processor.findBlockByOffset(0x9000), 1);
+  equal(processor.findBlockByOffset(0x9000, 0x10000), 0);
+  equal(processor.findBlockByOffset(0x18000, 0x10000), 2);
+  equal(processor.calculateBlockOffset(2), 0x2300);
+});
+
+test('ResetTableProcessor should find reset points for intervals that are not multiples of the block size', () => {
+  const processor = new ResetTableProcessor();
+  processor.parseResetTable(new BitReader(buildResetTable()));
+
+  // 0x18000 只在块 0 和块 3（偏移 0x18000）上与块边界重合
+  equal(processor.findBlockByOffset(0x17fff, 0x18000), 0);
+  equal(processor.findBlockByOffset(0x18000, 0x18000), 3);
+  equal(processor.findBlockByOffset(0x1ffff, 0x18000), 3);
+  // 重置间隔小于块大小时，每个块都是重置点
+  equal(processor.findBlockByOffset(0x11000, 0x4000), 2);
+  // 0xC000 与块边界在 0x18000 重合，块 1、2 都不是重置点
+  equal(processor.findBlockByOffset(0x10000, 0xc000), 0);
+  // 偏移超出表时退回到最后一个重置点
+  equal(processor.findBlockByOffset(0x40000, 0x10000), 2);
+  // 0x14000 是 2.5 个块，表中只有块 0 是重置点
+  equal(processor.findBlockByOffset(0x30000, 0x14000), 0);
+});
+
+test('ResetTableProcessor should reject unsupported versions', () => {
+  const processor = new ResetTableProcessor();
+  throws(() => processor.parseResetTable(new BitReader(buildResetTable(3))));
+});
+
+test.run();
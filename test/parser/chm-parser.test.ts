@@ -0,0 +1,140 @@
+import { test } from 'uvu';
+import { equal } from 'uvu/assert';
+import { CHMParser } from '../../src/core/parser/chm-parser';
+import { CHMHeaderBuilder } from '../../src/encoder/builders/header-builder';
+import { DataSpaceBuilder } from '../../src/encoder/builders/dataspace-builder';
+import { BufferByteSource } from '../../src/utils/io/byte-source';
+import {
+  CHM_SECTION_FILES,
+  CHM_STORAGE_PREFIX,
+  LZX_TRANSFORM_GUID,
+} from '../../src/constants';
+import type { DirectoryEntry } from '../../src/core/types';
+
+// 把内部文件依次放入内容段 0，拼出只有存储结构的 CHM 文件
+function buildCHM(files: Array<[string, Buffer]>): Buffer {
+  const entries: DirectoryEntry[] = [];
+  let offset = 0;
+  for (const [name, data] of files) {
+    entries.push({
+      name,
+      isCompressed: false,
+      offset,
+      length: data.length,
+      section: 0,
+    });
+    offset += data.length;
+  }
+
+  const directory = CHMHeaderBuilder.serializeDirectory(entries);
+  const content = Buffer.concat(files.map(([, data]) => data));
+  const itsf = CHMHeaderBuilder.createITSFHeader({
+    directoryOffset: CHMHeaderBuilder.calculateHeaderSize(),
+    directoryLength: directory.data.length,
+  });
+
+  return Buffer.concat([
+    CHMHeaderBuilder.serializeITSFHeader(itsf),
+    CHMHeaderBuilder.serializeHeaderSection(
+      itsf.contentOffset + content.length,
+    ),
+    directory.data,
+    content,
+  ]);
+}
+
+// 重置表：版本 2、两个 8 字节条目，块大小 0x8000
+function createResetTable(): Buffer {
+  const data = Buffer.alloc(0x28 + 16);
+  data.writeUInt32LE(2, 0);
+  data.writeUInt32LE(2, 4);
+  data.writeUInt32LE(8, 8);
+  data.writeUInt32LE(0x28, 12);
+  data.writeBigUInt64LE(0x10000n, 16);
+  data.writeBigUInt64LE(100n, 24);
+  data.writeBigUInt64LE(0x8000n, 32);
+  data.writeBigUInt64LE(0n, 0x28);
+  data.writeBigUInt64LE(60n, 0x30);
+  return data;
+}
+
+// 指定段名的 ::DataSpace 存储文件，可以省略 Transform/List
+function storageFiles(
+  sectionName: string,
+  transformList: boolean,
+): Array<[string, Buffer]> {
+  const file = (name: string) => `${CHM_STORAGE_PREFIX}${sectionName}/${name}`;
+  const controlData = CHMHeaderBuilder.serializeLZXCHeader(
+    CHMHeaderBuilder.createLZXCHeader({
+      resetInterval: 0x10000,
+      windowSize: 0x20000,
+      cacheSize: 0x10000,
+    }),
+  );
+
+  return [
+    [
+      '::DataSpace/NameList',
+      DataSpaceBuilder.serializeNameList(['Uncompressed', sectionName]),
+    ],
+    ...(transformList
+      ? [
+          [
+            file(CHM_SECTION_FILES.transformList),
+            DataSpaceBuilder.serializeTransformList([LZX_TRANSFORM_GUID]),
+          ] as [string, Buffer],
+        ]
+      : []),
+    [file(CHM_SECTION_FILES.controlData), controlData],
+    [file(CHM_SECTION_FILES.resetTable), createResetTable()],
+    [file(CHM_SECTION_FILES.content), Buffer.alloc(100, 0xaa)],
+  ];
+}
+
+test('CHMParser should locate LZX storage through NameList and Transform/List', () => {
+  const data = buildCHM(storageFiles('Compressed2', true));
+  const parsed = new CHMParser().parse(new BufferByteSource(data));
+
+  equal(
+    parsed.sections.map(section => [section.name, section.transforms]),
+    [
+      ['Uncompressed', []],
+      ['Compressed2', [LZX_TRANSFORM_GUID]],
+    ],
+  );
+  equal(parsed.header.lzxc.resetInterval, 0x10000);
+  equal(parsed.header.lzxc.windowSize, 0x20000);
+  equal(parsed.header.lzxc.cacheSize, 0x10000);
+
+  equal(parsed.resetTable.blockCount, 2);
+  equal(parsed.resetTable.uncompressedLength, 0x10000);
+  equal(parsed.resetTable.compressedLength, 100);
+  equal(parsed.resetTable.entries, [
+    { compressedOffset: 0, uncompressedOffset: 0 },
+    { compressedOffset: 60, uncompressedOffset: 0x8000 },
+  ]);
+
+  // Content 位于内容段 0 中存储文件之后
+  equal(parsed.compressedLength, 100);
+  equal(parsed.compressedOffset, data.length - 100);
+});
+
+test('CHMParser should assume LZX for MSCompressed without Transform/List', () => {
+  const data = buildCHM(storageFiles('MSCompressed', false));
+  const parsed = new CHMParser().parse(new BufferByteSource(data));
+
+  equal(parsed.sections[1]?.transforms, [LZX_TRANSFORM_GUID]);
+  equal(parsed.header.lzxc.windowSize, 0x20000);
+  equal(parsed.resetTable.blockCount, 2);
+});
+
+test('CHMParser should not treat other sections without Transform/List as LZX', () => {
+  const data = buildCHM(storageFiles('Compressed2', false));
+  const parsed = new CHMParser().parse(new BufferByteSource(data));
+
+  equal(parsed.sections[1]?.transforms, []);
+  equal(parsed.sections[1]?.lzxc, undefined);
+  equal(parsed.resetTable.blockCount, 0);
+});
+
+test.run();
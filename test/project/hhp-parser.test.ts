@@ -0,0 +1,208 @@
+import { test } from 'uvu';
+import { equal, ok, throws } from 'uvu/assert';
+import { join } from 'path';
+import { HHPParser } from '../../src/core/project/hhp-parser';
+import { Codepage } from '../../src/utils/encoding/codepage';
+
+// HTML Help Workshop 生成的项目：节名大小写不一，[MAP] 通过 #include 引用头文件
+const HHP = [
+  '[OPTIONS]',
+  'Compatibility=1.1 or later',
+  'Compiled file=out\\help.chm',
+  'Contents file=Help.hhc',
+  'Default Window=main',
+  'Default topic=html\\intro.htm',
+  'Display compile progress=No',
+  'Full-text search=Yes',
+  'Index file=Help.hhk',
+  'Language=0x407 Deutsch (Deutschland)',
+  'Title=Übersicht',
+  '',
+  '[WINDOWS]',
+  'main="Hilfe","Help.hhc","Help.hhk","html\\intro.htm",,,,,,0x2520,,0x3006,[10,20,600,400],,,,,,,0',
+  '',
+  '[FILES]',
+  'html\\intro.htm',
+  '; Kommentar',
+  'html\\*.htm',
+  '',
+  '[ALIAS]',
+  'IDH_INTRO=html\\intro.htm',
+  'IDH_SETUP = html\\setup.htm',
+  '',
+  '[map]',
+  '#include context.h',
+  '',
+  '[INFOTYPES]',
+  'Category:Basics',
+  '',
+  '[TEXT POPUPS]',
+  'context.h',
+].join('\r\n');
+
+const CONTEXT_H = [
+  '#ifndef CONTEXT_H',
+  '#define IDH_INTRO 1000 // Einleitung',
+  '#define IDH_SETUP 0x3E9UL',
+  '#include "more.h"',
+  '#endif',
+].join('\n');
+
+const MORE_H = '#define IDH_MORE /* ID */ 2000\n';
+
+function readInclude(name: string): string | undefined {
+  return { 'context.h': CONTEXT_H, 'more.h': MORE_H }[name];
+}
+
+test('HHPParser.parse should read typed and raw options', () => {
+  const project = HHPParser.parse(Codepage.encode(HHP, 'windows-1252'), {
+    readInclude,
+  });
+
+  equal(project.options, {
+    compiledFile: 'out/help.chm',
+    contentsFile: 'Help.hhc',
+    defaultWindow: 'main',
+    defaultTopic: 'html/intro.htm',
+    fullTextSearch: true,
+    indexFile: 'Help.hhk',
+    language: 0x407,
+    title: 'Übersicht',
+  });
+  equal(project.rawOptions['Display compile progress'], 'No');
+});
+
+test('HHPParser.parse should read files, windows, alias, map and info types', () => {
+  const project = HHPParser.parse(HHP, { readInclude });
+
+  equal(project.files, ['html/intro.htm', 'html/*.htm']);
+  equal(project.alias, {
+    IDH_INTRO: 'html/intro.htm',
+    IDH_SETUP: 'html/setup.htm',
+  });
+  equal(project.map, { IDH_INTRO: 1000, IDH_SETUP: 0x3e9, IDH_MORE: 2000 });
+  equal(project.infoTypes, ['Category:Basics']);
+
+  equal(project.windows.length, 1);
+  const [window] = project.windows;
+  equal(window?.name, 'main');
+  equal(window?.title, 'Hilfe');
+  equal(window?.contentsFile, 'Help.hhc');
+  equal(window?.indexFile, 'Help.hhk');
+  equal(window?.defaultTopic, 'html/intro.htm');
+  equal(window?.homePage, undefined);
+  equal(window?.fields[12], '[10,20,600,400]');
+});
+
+test('HHPParser.parse should reject missing and recursive includes', () => {
+  throws(() => HHPParser.parse('[MAP]\n#include "missing.h"\n'), /missing\.h/);
+  throws(
+    () =>
+      HHPParser.parse('[MAP]\n#include loop.h\n', {
+        readInclude: () => '#include loop.h\n',
+      }),
+    /嵌套过深/,
+  );
+});
+
+// Visual C++ 生成的 resource.h：包含括号、负数、符号表达式和 APSTUDIO 段
+const RESOURCE_H = [
+  '//{{NO_DEPENDENCIES}}',
+  '// Microsoft Visual C++ generated include file.',
+  '// Used by App.rc',
+  '//',
+  '#define IDC_STATIC                      (-1)     // all static controls',
+  '#define IDD_ABOUTBOX                    100',
+  '#define IDR_MAINFRAME                   128',
+  '#define IDH_CONTENTS                    (0x10000)',
+  '#define IDH_OPTIONS                     (IDH_CONTENTS + 1)',
+  '#define HIDC_NAME                       0x80640064    // IDD_OPTIONS',
+  '#define ID_FILE_OPEN                    32771',
+  '',
+  '// Next default values for new objects',
+  '//',
+  '#ifdef APSTUDIO_INVOKED',
+  '#ifndef APSTUDIO_READONLY_SYMBOLS',
+  '#define _APS_NEXT_RESOURCE_VALUE        129',
+  '#define _APS_NEXT_COMMAND_VALUE         32772',
+  '#define _APS_NEXT_CONTROL_VALUE         1000',
+  '#define _APS_NEXT_SYMED_VALUE           101',
+  '#endif',
+  '#endif',
+].join('\r\n');
+
+test('HHPParser.parse should read numeric defines from resource headers', () => {
+  const project = HHPParser.parse(
+    '[ALIAS]\nIDH_CONTENTS=index.htm\n\n[MAP]\n#include resource.h\n',
+    { readInclude: () => RESOURCE_H },
+  );
+
+  equal(project.map, {
+    IDC_STATIC: 0xffffffff,
+    IDD_ABOUTBOX: 100,
+    IDR_MAINFRAME: 128,
+    IDH_CONTENTS: 0x10000,
+    HIDC_NAME: 0x80640064,
+    ID_FILE_OPEN: 32771,
+    _APS_NEXT_RESOURCE_VALUE: 129,
+    _APS_NEXT_COMMAND_VALUE: 32772,
+    _APS_NEXT_CONTROL_VALUE: 1000,
+    _APS_NEXT_SYMED_VALUE: 101,
+  });
+});
+
+test('HHPParser.parse should skip system headers it cannot read', () => {
+  const project = HHPParser.parse(
+    '[MAP]\n#include <windows.h>\n#include resource.h\n',
+    {
+      readInclude: name =>
+        name === 'resource.h'
+          ? '#include <winres.h>\r\n#include "afxres.h"\r\n#define IDH_HOME 100\r\n'
+          : name === 'afxres.h'
+            ? '#define IDC_STATIC (-1)\r\n'
+            : undefined,
+    },
+  );
+
+  equal(project.map, { IDH_HOME: 100, IDC_STATIC: 0xffffffff });
+  // 引号形式的 #include 仍然必须存在
+  throws(
+    () =>
+      HHPParser.parse('[MAP]\n#include <windows.h>\n#include "missing.h"\n'),
+    /missing\.h/,
+  );
+});
+
+test('HHPParser.parse should reject aliased names without a numeric ID', () => {
+  // 没有被 [ALIAS] 引用的符号值直接忽略
+  equal(HHPParser.parse('[MAP]\n#define IDH_BAD abc\n').map, {});
+  throws(
+    () =>
+      HHPParser.parse(
+        '[ALIAS]\nIDH_OPTIONS=options.htm\n\n[MAP]\n#include resource.h\n',
+        { readInclude: () => RESOURCE_H },
+      ),
+    /IDH_OPTIONS \(IDH_CONTENTS \+ 1\)/,
+  );
+  throws(
+    () =>
+      HHPParser.parse(
+        '[MAP]\n#define IDH_BIG 0x100000000\n[ALIAS]\nIDH_BIG=a.htm\n',
+      ),
+    /IDH_BIG/,
+  );
+});
+
+test('HHPParser.parseFile should read the sample project', async () => {
+  const project = await HHPParser.parseFile(
+    join('test', 'sample-chm', 'project.hhp'),
+  );
+
+  equal(project.options.title, 'CHM 测试文件');
+  equal(project.options.language, 0x804);
+  equal(project.options.contentsFile, 'toc.hhc');
+  equal(project.files, ['index.html', 'style.css']);
+  ok(project.windows.length === 0);
+});
+
+test.run();
@@ -0,0 +1,106 @@
+import { test } from 'uvu';
+import { equal } from 'uvu/assert';
+import { SitemapParser } from '../../src/core/sitemap/sitemap-parser';
+
+// HTML Help Workshop 风格的目录：<LI> 不闭合，最后一个 <OBJECT> 缺少结束标签
+const HHC = `<!DOCTYPE HTML PUBLIC "-//IETF//DTD HTML//EN">
+<HTML><HEAD><!-- Sitemap 1.0 --></HEAD><BODY>
+<OBJECT type="text/site properties">
+  <param name="ImageType" value="Folder">
+</OBJECT>
+<UL>
+  <LI> <OBJECT type="text/sitemap">
+    <param name="Name" value="Getting &amp; Started">
+    <param name="Local" value="intro.htm">
+    <param name="ImageNumber" value="11">
+    </OBJECT>
+  <UL>
+    <LI> <OBJECT type="text/sitemap">
+      <param name="Name" value="Install &#233;tape">
+      <param name="Local" value="install.htm">
+      </OBJECT>
+  </UL>
+  <LI> <OBJECT type="text/sitemap">
+    <param name="Merge" value="other.chm::/other.hhc">
+    </OBJECT>
+  <LI> <OBJECT type=text/sitemap>
+    <param name=Name value='Last'>
+    <param name="Local" value="last.htm">
+</UL>
+</BODY></HTML>`;
+
+const HHK = `<UL>
+  <LI> <OBJECT type="text/sitemap">
+    <param name="Name" value="colors">
+    <param name="Name" value="Red">
+    <param name="Local" value="red.htm">
+    <param name="Name" value="Blue">
+    <param name="Local" value="blue.htm">
+    </OBJECT>
+  <UL>
+    <LI> <OBJECT type="text/sitemap">
+      <param name="Name" value="dark">
+      <param name="Local" value="dark.htm">
+      </OBJECT>
+  </UL>
+  <LI> <OBJECT type="text/sitemap">
+    <param name="Name" value="hues">
+    <param name="See Also" value="colors">
+    </OBJECT>
+</UL>`;
+
+test('SitemapParser should build a TOC tree from loose HTML', () => {
+  const document = SitemapParser.parse(HHC);
+  equal(document.properties, [{ name: 'ImageType', value: 'Folder' }]);
+
+  equal(SitemapParser.parseTOC(HHC), [
+    {
+      name: 'Getting & Started',
+      local: 'intro.htm',
+      level: 0,
+      imageNumber: 11,
+      children: [{ name: 'Install étape', local: 'install.htm', level: 1 }],
+    },
+    { name: '', local: '', level: 0, merge: 'other.chm::/other.hhc' },
+    { name: 'Last', local: 'last.htm', level: 0 },
+  ]);
+});
+
+test('SitemapParser should pair Name/Local params in index entries', () => {
+  equal(SitemapParser.parseIndex(HHK), [
+    {
+      name: 'colors',
+      local: 'red.htm',
+      topics: [
+        { name: 'Red', local: 'red.htm' },
+        { name: 'Blue', local: 'blue.htm' },
+      ],
+      children: [
+        {
+          name: 'dark',
+          local: 'dark.htm',
+          topics: [{ name: 'dark', local: 'dark.htm' }],
+        },
+      ],
+    },
+    { name: 'hues', local: '', seeAlso: 'colors' },
+  ]);
+});
+
+test('SitemapParser should decode by declared or fallback charset', () => {
+  const body =
+    '<OBJECT type="text/sitemap"><param name="Name" value="中文"></OBJECT>';
+  const gbk = Buffer.from([0xd6, 0xd0, 0xce, 0xc4]);
+  const [before, after] = body.split('中文');
+  const data = Buffer.concat([
+    Buffer.from(`<meta charset="gbk">${before}`, 'latin1'),
+    gbk,
+    Buffer.from(after, 'latin1'),
+  ]);
+
+  equal(SitemapParser.parseTOC(data)[0].name, '中文');
+  equal(SitemapParser.decode(Buffer.from([0x63, 0x61, 0x66, 0xe9])), 'café');
+  equal(SitemapParser.decode(gbk, { encoding: 'gbk' }), '中文');
+});
+
+test.run();